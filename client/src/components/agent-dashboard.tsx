@@ -10,6 +10,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import {
   Select,
@@ -23,6 +24,22 @@ import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/components/ui/use-toast";
+import {
+  ApprovalRulesEditor,
+  type ApprovalAction,
+  type ApprovalRule,
+} from "@/components/approval-rules-editor";
+import { WorkflowActivityFeed } from "@/components/workflow-activity-feed";
+import { CostBreakdown, MonthlyCosts } from "@/components/cost-breakdown";
+import { AlertsPanel } from "@/components/alerts-panel";
+import { ProviderHealth } from "@/components/provider-health";
+import { ResearchQueueStatus } from "@/components/research-queue-status";
+import { DiscoveryPreviewPanel } from "@/components/discovery-preview";
+import { AUTHOR_STORAGE_KEY, ConfigHistoryDialog } from "@/components/config-history";
+import { DEFAULT_SCHEDULE, ScheduleEditor } from "@/components/schedule-editor";
+import { ConfigTemplateGallery } from "@/components/config-templates";
+import { ExclusionCounts, ExclusionListsEditor } from "@/components/exclusion-lists";
+import { ConfigBuilderCard } from "@/components/config-builder";
 import {
   Bot,
   Check,
@@ -35,6 +52,13 @@ import {
   Trash2,
   Download,
   Clock,
+  Pause,
+  Play,
+  Square,
+  DollarSign,
+  Eye,
+  History,
+  FileDown,
 } from "lucide-react";
 
 export function AgentDashboard() {
@@ -119,6 +143,10 @@ export function AgentDashboard() {
         </div>
       </div>
 
+      <AlertsPanel />
+
+      <ResearchQueueStatus />
+
       {/* Recent Runs */}
       {workflows && workflows.length > 0 && (
         <RecentRuns workflows={workflows} />
@@ -139,6 +167,16 @@ export function AgentDashboard() {
         />
       )}
 
+      <ConfigTemplateGallery onCreated={setConfigToLoad} />
+
+      <ExclusionListsEditor />
+
+      <MonthlyCosts />
+
+      <ProviderHealth />
+
+      <ConfigBuilderCard onApply={setConfigToLoad} />
+
       {/* Agent Configuration */}
       <AgentConfigCard
         configToLoad={configToLoad}
@@ -161,6 +199,8 @@ function SavedConfigurations({
   onDelete: (id: number) => void;
   isRunning: boolean;
 }) {
+  const [historyConfig, setHistoryConfig] = useState<any>(null);
+
   return (
     <Card>
       <CardHeader>
@@ -183,6 +223,14 @@ function SavedConfigurations({
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 flex-wrap">
                   <span className="font-medium truncate">{cfg.name}</span>
+                  {cfg.currentVersion && (
+                    <span className="text-xs text-muted-foreground">v{cfg.currentVersion}</span>
+                  )}
+                  {cfg.alertAfterUnchangedRuns > 0 && cfg.timesRunUnchanged >= cfg.alertAfterUnchangedRuns && (
+                    <Badge variant="outline" className="text-xs border-orange-300 text-orange-700">
+                      {cfg.timesRunUnchanged} runs unchanged
+                    </Badge>
+                  )}
                   {sc.industry && (
                     <Badge variant="outline" className="text-xs">{sc.industry}</Badge>
                   )}
@@ -211,6 +259,15 @@ function SavedConfigurations({
                   <PlayCircle className="h-3.5 w-3.5 mr-1" />
                   Run
                 </Button>
+                <Button size="sm" variant="ghost" onClick={() => setHistoryConfig(cfg)}>
+                  <History className="h-3.5 w-3.5 mr-1" />
+                  History
+                </Button>
+                <Button size="sm" variant="ghost" title="Export as YAML" asChild>
+                  <a href={`/api/agent-configs/${cfg.id}/export?format=yaml`}>
+                    <FileDown className="h-3.5 w-3.5" />
+                  </a>
+                </Button>
                 <Button
                   size="sm"
                   variant="ghost"
@@ -224,6 +281,7 @@ function SavedConfigurations({
           );
         })}
       </CardContent>
+      <ConfigHistoryDialog config={historyConfig} onClose={() => setHistoryConfig(null)} />
     </Card>
   );
 }
@@ -236,6 +294,7 @@ function RecentRuns({ workflows }: { workflows: any[] }) {
       case "completed": return "bg-green-500";
       case "running": case "researching": return "bg-blue-500 animate-pulse";
       case "awaiting_approval": return "bg-orange-500";
+      case "paused": return "bg-yellow-500";
       case "failed": return "bg-red-500";
       default: return "bg-gray-500";
     }
@@ -257,7 +316,7 @@ function RecentRuns({ workflows }: { workflows: any[] }) {
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Show full details for actively running workflow */}
-        {(latestWorkflow.status === "running" || latestWorkflow.status === "researching") && (
+        {(latestWorkflow.status === "running" || latestWorkflow.status === "researching" || latestWorkflow.status === "paused") && (
           <>
             <WorkflowStatus workflow={latestWorkflow} />
             <Separator />
@@ -306,6 +365,64 @@ function RecentRuns({ workflows }: { workflows: any[] }) {
   );
 }
 
+function WorkflowControls({ workflow }: { workflow: any }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const control = useMutation({
+    mutationFn: async (action: "cancel" | "pause" | "resume") => {
+      const res = await fetch(`/api/workflows/${workflow.id}/${action}`, { method: "POST" });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || `Failed to ${action} workflow`);
+      }
+      return res.json();
+    },
+    onSuccess: (_data, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+      toast({
+        title: action === "cancel" ? "Workflow cancelled" : action === "pause" ? "Workflow paused" : "Workflow resumed",
+        description: action === "resume" ? undefined : "Any company already in progress will finish first.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Workflow update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (workflow.status !== "running" && workflow.status !== "paused") return null;
+
+  return (
+    <div className="flex items-center gap-1">
+      {workflow.status === "running" ? (
+        <Button size="sm" variant="outline" onClick={() => control.mutate("pause")} disabled={control.isPending}>
+          <Pause className="h-3.5 w-3.5 mr-1" />
+          Pause
+        </Button>
+      ) : (
+        <Button size="sm" variant="outline" onClick={() => control.mutate("resume")} disabled={control.isPending}>
+          <Play className="h-3.5 w-3.5 mr-1" />
+          Resume
+        </Button>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        className="text-destructive hover:text-destructive"
+        onClick={() => {
+          if (window.confirm("Cancel this workflow? Queued scoring and research will be dropped.")) {
+            control.mutate("cancel");
+          }
+        }}
+        disabled={control.isPending}
+      >
+        <Square className="h-3.5 w-3.5 mr-1" />
+        Cancel
+      </Button>
+    </div>
+  );
+}
+
 function WorkflowStatus({ workflow }: { workflow: any }) {
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -315,6 +432,8 @@ function WorkflowStatus({ workflow }: { workflow: any }) {
         return "bg-blue-500 animate-pulse";
       case "awaiting_approval":
         return "bg-orange-500";
+      case "paused":
+        return "bg-yellow-500";
       case "failed":
         return "bg-red-500";
       default:
@@ -322,6 +441,12 @@ function WorkflowStatus({ workflow }: { workflow: any }) {
     }
   };
 
+  // The exact config version this run used
+  const { data: configVersion } = useQuery<any>({
+    queryKey: [`/api/config-versions/${workflow.configVersionId}`],
+    enabled: !!workflow.configVersionId,
+  });
+
   const progress =
     workflow.companiesResearched / workflow.companiesAutoApproved || 0;
 
@@ -332,21 +457,44 @@ function WorkflowStatus({ workflow }: { workflow: any }) {
           <div className="flex items-center gap-2">
             <div className={`h-2 w-2 rounded-full ${getStatusColor(workflow.status)}`} />
             <span className="font-medium capitalize">{workflow.status}</span>
+            {workflow.status === "running" && workflow.currentStep && (
+              <span className="text-sm text-muted-foreground">
+                · {workflow.currentStep.replace(/_/g, " ")}
+              </span>
+            )}
           </div>
           <p className="text-sm text-muted-foreground mt-1">
             Started {new Date(workflow.createdAt).toLocaleString()}
           </p>
         </div>
-        <Badge variant="outline">
-          {workflow.triggerType === "scheduled" ? (
-            <Calendar className="h-3 w-3 mr-1" />
-          ) : (
-            <PlayCircle className="h-3 w-3 mr-1" />
+        <div className="flex items-center gap-2">
+          <WorkflowControls workflow={workflow} />
+          {configVersion && (
+            <Badge variant="outline" title={`Saved by ${configVersion.author} on ${new Date(configVersion.createdAt).toLocaleString()}`}>
+              {configVersion.settings?.name} v{configVersion.version}
+            </Badge>
           )}
-          {workflow.triggerType}
-        </Badge>
+          <Badge variant="outline">
+            {workflow.triggerType === "scheduled" ? (
+              <Calendar className="h-3 w-3 mr-1" />
+            ) : (
+              <PlayCircle className="h-3 w-3 mr-1" />
+            )}
+            {workflow.triggerType}
+          </Badge>
+        </div>
       </div>
 
+      {workflow.budgetExceededReason && (
+        <div className="flex items-center gap-2 rounded-lg bg-orange-50 p-3 text-sm text-orange-800">
+          <DollarSign className="h-4 w-4 shrink-0" />
+          <span>
+            {workflow.budgetStatus === "exceeded" ? "Over budget" : "Research cap reached"}: {workflow.budgetExceededReason}.
+            Remaining companies were sent to review.
+          </span>
+        </div>
+      )}
+
       <Separator />
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -374,6 +522,18 @@ function WorkflowStatus({ workflow }: { workflow: any }) {
         </div>
       </div>
 
+      <ExclusionCounts counts={workflow.exclusionCounts} />
+
+      {Array.isArray(workflow.queryYield) && workflow.queryYield.length > 1 && (
+        <QueryYieldTable queryYield={workflow.queryYield} />
+      )}
+
+      <CostBreakdown url={`/api/costs/workflows/${workflow.id}`} />
+
+      {(workflow.status === "running" || workflow.status === "paused") && (
+        <WorkflowActivityFeed workflowId={workflow.id} />
+      )}
+
       {workflow.status === "researching" && (
         <div className="space-y-2">
           <div className="flex items-center justify-between text-sm">
@@ -392,6 +552,57 @@ function WorkflowStatus({ workflow }: { workflow: any }) {
   );
 }
 
+// Per-query discovery yield: how many results, distinct and new companies, and approvals each query produced
+function QueryYieldTable({ queryYield }: { queryYield: any[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Query Yield</p>
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/40 text-muted-foreground">
+            <tr>
+              <th className="text-left font-medium p-2">Query</th>
+              <th className="text-right font-medium p-2">Results</th>
+              <th className="text-right font-medium p-2">Companies</th>
+              <th className="text-right font-medium p-2">New</th>
+              <th className="text-right font-medium p-2">Approved</th>
+              <th className="text-right font-medium p-2">Yield</th>
+            </tr>
+          </thead>
+          <tbody>
+            {queryYield.map((q: any) => (
+              <tr key={q.id} className="border-t">
+                <td className="p-2">
+                  <Badge variant="outline" className="mr-2 text-[10px] capitalize">
+                    {q.kind.replace("_", "-")}
+                  </Badge>
+                  <span title={q.rationale || q.query}>{q.query}</span>
+                  {q.error && <span className="ml-2 text-red-600">failed</span>}
+                </td>
+                <td className="p-2 text-right">{q.results}</td>
+                <td className="p-2 text-right">{q.companies}</td>
+                <td className="p-2 text-right">{q.newCompanies}</td>
+                <td className="p-2 text-right text-green-600">{q.autoApproved}</td>
+                <td className="p-2 text-right">
+                  {q.results > 0 ? `${Math.round((q.newCompanies / q.results) * 100)}%` : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+const THESIS_SECTIONS = [
+  { key: "summary", label: "Mandate", placeholder: "Who the buyer is and what they're looking for, in a few sentences" },
+  { key: "strategicGoals", label: "Strategic goals", placeholder: "e.g. add commercial service revenue in Texas; cross-sell maintenance contracts" },
+  { key: "mustHaves", label: "Must-haves", placeholder: "e.g. 60%+ recurring service revenue; licensed technicians on staff" },
+  { key: "dealBreakers", label: "Deal-breakers", placeholder: "e.g. new-construction focus; union workforce; customer concentration over 25%" },
+  { key: "priorAcquisitions", label: "Prior acquisitions", placeholder: "Deals already done and why they fit" },
+];
+
 function AgentConfigCard({
   configToLoad,
   onConfigLoaded,
@@ -403,6 +614,16 @@ function AgentConfigCard({
   const { toast } = useToast();
   const [showOptionalFilters, setShowOptionalFilters] = useState(false);
   const [savedConfigId, setSavedConfigId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<any>(null);
+  const [author, setAuthor] = useState(() => localStorage.getItem(AUTHOR_STORAGE_KEY) || "");
+  const [changeNote, setChangeNote] = useState("");
+
+  // Rubric weights per criterion; empty means the criterion keeps its default weight
+  const { data: rubric } = useQuery<any>({ queryKey: ["/api/scoring/rubric"] });
+  const [scoringWeights, setScoringWeights] = useState<Record<string, string>>({});
+
+  // Free-text mandate fed into scoring, research and outreach prompts
+  const [investmentThesis, setInvestmentThesis] = useState<Record<string, string>>({});
 
   const [config, setConfig] = useState({
     name: "Healthcare Midwest Discovery",
@@ -412,6 +633,7 @@ function AgentConfigCard({
     geographicFocus: "Midwest",
     strategy: "buy-side" as "buy-side" | "sell-side" | "dual",
     peFilter: "not-pe-backed" as "pe-backed" | "not-pe-backed" | "both",
+    queryVariants: 4,
 
     // Optional filters - now arrays for multi-select
     employeeCount: [] as string[],
@@ -419,12 +641,24 @@ function AgentConfigCard({
     fundingStatus: [] as string[],
     growthStatus: [] as string[],
 
-    schedule: "0 19 * * 0,2,4",
+    schedule: DEFAULT_SCHEDULE,
+    timezone: "",
     minScore: 7,
     requiredConfidence: "High" as "High" | "Medium" | "Low",
     isActive: true,
+    alertAfterUnchangedRuns: 3,
+
+    // Budget caps - empty means unlimited
+    maxRunCostUsd: "",
+    maxMonthlyCostUsd: "",
+    maxResearchPerRun: "",
   });
 
+  // Ordered approval rules — when customized, they replace the min score / confidence shortcuts
+  const [useCustomRules, setUseCustomRules] = useState(false);
+  const [approvalRules, setApprovalRules] = useState<ApprovalRule[]>([]);
+  const [defaultAction, setDefaultAction] = useState<ApprovalAction>("approve");
+
   // Apply loaded config from Saved Configurations
   useEffect(() => {
     if (configToLoad) {
@@ -437,15 +671,31 @@ function AgentConfigCard({
         geographicFocus: sc.geographicFocus || "",
         strategy: sc.strategy || "buy-side",
         peFilter: sc.peFilter || "not-pe-backed",
+        queryVariants: sc.queryVariants ?? 4,
         employeeCount: sc.employeeCount || [],
         yearsInBusiness: sc.yearsInBusiness || [],
         fundingStatus: sc.fundingStatus || [],
         growthStatus: sc.growthStatus || [],
-        schedule: "0 19 * * 0,2,4",
+        schedule: configToLoad.schedule || DEFAULT_SCHEDULE,
+        timezone: configToLoad.timezone || "",
         minScore: configToLoad.autoApprovalRules?.minScore || 7,
         requiredConfidence: configToLoad.autoApprovalRules?.requiredConfidence || "High",
         isActive: configToLoad.isActive ?? true,
+        alertAfterUnchangedRuns: configToLoad.alertAfterUnchangedRuns ?? 3,
+        maxRunCostUsd: configToLoad.budget?.maxRunCostUsd?.toString() ?? "",
+        maxMonthlyCostUsd: configToLoad.budget?.maxMonthlyCostUsd?.toString() ?? "",
+        maxResearchPerRun: configToLoad.budget?.maxResearchPerRun?.toString() ?? "",
       });
+      const loadedRules = configToLoad.autoApprovalRules?.rules || [];
+      setUseCustomRules(loadedRules.length > 0);
+      setApprovalRules(loadedRules);
+      setDefaultAction(configToLoad.autoApprovalRules?.defaultAction || "approve");
+      setScoringWeights(
+        Object.fromEntries(
+          Object.entries(configToLoad.scoringWeights || {}).map(([key, value]) => [key, String(value)])
+        )
+      );
+      setInvestmentThesis(configToLoad.investmentThesis || {});
       setSavedConfigId(configToLoad.id);
       onConfigLoaded?.();
       toast({
@@ -455,44 +705,69 @@ function AgentConfigCard({
     }
   }, [configToLoad]);
 
+  const buildConfigPayload = () => ({
+    name: config.name,
+    searchCriteria: {
+      query: config.query,
+      industry: config.industry,
+      revenueRange: config.revenueRange,
+      geographicFocus: config.geographicFocus,
+      strategy: config.strategy,
+      peFilter: config.peFilter,
+      queryVariants: config.queryVariants,
+      // Optional filters
+      employeeCount: config.employeeCount.length > 0 ? config.employeeCount : undefined,
+      yearsInBusiness: config.yearsInBusiness.length > 0 ? config.yearsInBusiness : undefined,
+      fundingStatus: config.fundingStatus.length > 0 ? config.fundingStatus : undefined,
+      growthStatus: config.growthStatus.length > 0 ? config.growthStatus : undefined,
+    },
+    autoApprovalRules: {
+      minScore: config.minScore,
+      requiredConfidence: config.requiredConfidence,
+      ...(useCustomRules ? { rules: approvalRules, defaultAction } : {}),
+    },
+    scoringWeights: Object.fromEntries(
+      Object.entries(scoringWeights)
+        .filter(([, value]) => value !== "")
+        .map(([key, value]) => [key, parseFloat(value)])
+    ),
+    investmentThesis: Object.fromEntries(
+      Object.entries(investmentThesis).filter(([, value]) => value.trim() !== "")
+    ),
+    budget: {
+      maxRunCostUsd: config.maxRunCostUsd === "" ? null : parseFloat(config.maxRunCostUsd),
+      maxMonthlyCostUsd: config.maxMonthlyCostUsd === "" ? null : parseFloat(config.maxMonthlyCostUsd),
+      maxResearchPerRun: config.maxResearchPerRun === "" ? null : parseInt(config.maxResearchPerRun),
+    },
+    schedule: config.schedule,
+    timezone: config.timezone || null,
+    isActive: config.isActive,
+    alertAfterUnchangedRuns: config.alertAfterUnchangedRuns,
+  });
+
   const saveConfig = useMutation({
     mutationFn: async () => {
-      const res = await fetch("/api/agent-configs", {
-        method: "POST",
+      // Update the loaded config in place; otherwise create a new one
+      if (author) localStorage.setItem(AUTHOR_STORAGE_KEY, author);
+      const res = await fetch(savedConfigId ? `/api/agent-configs/${savedConfigId}` : "/api/agent-configs", {
+        method: savedConfigId ? "PUT" : "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          name: config.name,
-          searchCriteria: {
-            query: config.query,
-            industry: config.industry,
-            revenueRange: config.revenueRange,
-            geographicFocus: config.geographicFocus,
-            strategy: config.strategy,
-            peFilter: config.peFilter,
-            // Optional filters
-            employeeCount: config.employeeCount.length > 0 ? config.employeeCount : undefined,
-            yearsInBusiness: config.yearsInBusiness.length > 0 ? config.yearsInBusiness : undefined,
-            fundingStatus: config.fundingStatus.length > 0 ? config.fundingStatus : undefined,
-            growthStatus: config.growthStatus.length > 0 ? config.growthStatus : undefined,
-          },
-          autoApprovalRules: {
-            minScore: config.minScore,
-            requiredConfidence: config.requiredConfidence,
-          },
-          schedule: config.schedule,
-          isActive: config.isActive,
-        }),
+        body: JSON.stringify({ ...buildConfigPayload(), author, changeNote }),
       });
-      if (!res.ok) throw new Error("Failed to save configuration");
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to save configuration");
+      }
       return res.json();
     },
     onSuccess: (data) => {
       setSavedConfigId(data.id);
+      setChangeNote("");
       queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
       queryClient.invalidateQueries({ queryKey: ["/api/agent-configs"] });
       toast({
         title: "Configuration saved",
-        description: `Configuration "${config.name}" has been saved successfully.`,
+        description: `Configuration "${config.name}" has been saved as v${data.currentVersion}.`,
       });
     },
     onError: (error: Error) => {
@@ -504,6 +779,27 @@ function AgentConfigCard({
     },
   });
 
+  // Dry run of the form as it stands; nothing is saved or queued
+  const previewDiscovery = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/agent-configs/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        // A saved config's reviewer decisions calibrate the preview's scores too
+        body: JSON.stringify({ ...buildConfigPayload(), configId: savedConfigId }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to preview configuration");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({ title: "Preview failed", description: error.message, variant: "destructive" });
+    },
+  });
+
   const runDiscovery = useMutation({
     mutationFn: async () => {
       // First, save the config if not already saved
@@ -512,26 +808,7 @@ function AgentConfigCard({
         const saveRes = await fetch("/api/agent-configs", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            name: config.name,
-            searchCriteria: {
-              query: config.query,
-              industry: config.industry,
-              revenueRange: config.revenueRange,
-              geographicFocus: config.geographicFocus,
-              strategy: config.strategy,
-              employeeCount: config.employeeCount.length > 0 ? config.employeeCount : undefined,
-              yearsInBusiness: config.yearsInBusiness.length > 0 ? config.yearsInBusiness : undefined,
-              fundingStatus: config.fundingStatus.length > 0 ? config.fundingStatus : undefined,
-              growthStatus: config.growthStatus.length > 0 ? config.growthStatus : undefined,
-            },
-            autoApprovalRules: {
-              minScore: config.minScore,
-              requiredConfidence: config.requiredConfidence,
-            },
-            schedule: config.schedule,
-            isActive: config.isActive,
-          }),
+          body: JSON.stringify({ ...buildConfigPayload(), author }),
         });
         if (!saveRes.ok) throw new Error("Failed to save configuration");
         const savedConfig = await saveRes.json();
@@ -564,6 +841,24 @@ function AgentConfigCard({
     },
   });
 
+  const toggleCustomRules = async (enabled: boolean) => {
+    setUseCustomRules(enabled);
+    if (!enabled || approvalRules.length > 0) return;
+    // Seed the editor with the rules the current shortcuts expand to
+    try {
+      const res = await fetch("/api/auto-approval/default-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildConfigPayload()),
+      });
+      if (!res.ok) throw new Error("Failed to load default rules");
+      const data = await res.json();
+      setApprovalRules(data.rules || []);
+    } catch (error: any) {
+      toast({ title: "Failed to load default rules", description: error.message, variant: "destructive" });
+    }
+  };
+
   const toggleArrayValue = (array: string[], value: string) => {
     if (array.includes(value)) {
       return array.filter(v => v !== value);
@@ -684,6 +979,22 @@ function AgentConfigCard({
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="queryVariants">Query Variants</Label>
+            <Input
+              id="queryVariants"
+              type="number"
+              min={0}
+              max={8}
+              value={config.queryVariants}
+              onChange={(e) => setConfig({ ...config, queryVariants: Math.max(0, Math.min(8, parseInt(e.target.value) || 0)) })}
+              className="w-24"
+            />
+            <p className="text-xs text-muted-foreground">
+              Extra searches Claude writes from these criteria (sub-niches, synonyms, regions). 0 runs the base query only.
+            </p>
+          </div>
+
           <Separator />
 
           {/* Optional Filters Toggle */}
@@ -872,17 +1183,165 @@ function AgentConfigCard({
               Companies meeting these criteria will be automatically researched.
               Others will need manual approval.
             </p>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="custom-rules">Custom Rules</Label>
+                <p className="text-xs text-muted-foreground">
+                  Ordered rules on score, confidence, ownership, revenue, industry, geography and IP upside
+                </p>
+              </div>
+              <Switch
+                id="custom-rules"
+                checked={useCustomRules}
+                onChange={(e) => toggleCustomRules(e.target.checked)}
+              />
+            </div>
+
+            {useCustomRules && (
+              <ApprovalRulesEditor
+                rules={approvalRules}
+                defaultAction={defaultAction}
+                onChange={setApprovalRules}
+                onDefaultActionChange={setDefaultAction}
+              />
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Scoring Weights */}
+          {rubric && (
+            <div className="space-y-4">
+              <div>
+                <h4 className="font-medium">Scoring Weights</h4>
+                <p className="text-sm text-muted-foreground">
+                  Claude scores each criterion 1-10; the overall score is their weighted average. Set a weight to 0 to ignore a criterion.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {rubric.criteria.map((criterion: any) => (
+                  <div key={criterion.key} className="space-y-2">
+                    <Label htmlFor={`weight-${criterion.key}`} title={criterion.guidance}>
+                      {criterion.label}
+                    </Label>
+                    <Input
+                      id={`weight-${criterion.key}`}
+                      type="number"
+                      min={0}
+                      step="0.5"
+                      placeholder={String(rubric.defaultWeights[criterion.key])}
+                      value={scoringWeights[criterion.key] ?? ""}
+                      onChange={(e) => setScoringWeights({ ...scoringWeights, [criterion.key]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Separator />
+
+          {/* Investment Thesis */}
+          <div className="space-y-4">
+            <div>
+              <h4 className="font-medium">Investment Thesis</h4>
+              <p className="text-sm text-muted-foreground">
+                Scoring, research reports and outreach judge fit against this mandate instead of in general. All sections are optional.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {THESIS_SECTIONS.map((section) => (
+                <div key={section.key} className={`space-y-2 ${section.key === "summary" ? "md:col-span-2" : ""}`}>
+                  <Label htmlFor={`thesis-${section.key}`}>{section.label}</Label>
+                  <Textarea
+                    id={`thesis-${section.key}`}
+                    placeholder={section.placeholder}
+                    value={investmentThesis[section.key] ?? ""}
+                    onChange={(e) => setInvestmentThesis({ ...investmentThesis, [section.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Budget */}
+          <div className="space-y-4">
+            <h4 className="font-medium">Budget</h4>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="maxRunCost">Max $ per Run</Label>
+                <Input
+                  id="maxRunCost"
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  placeholder="Unlimited"
+                  value={config.maxRunCostUsd}
+                  onChange={(e) => setConfig({ ...config, maxRunCostUsd: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxMonthlyCost">Max $ per Month</Label>
+                <Input
+                  id="maxMonthlyCost"
+                  type="number"
+                  min={0}
+                  step="1"
+                  placeholder="Unlimited"
+                  value={config.maxMonthlyCostUsd}
+                  onChange={(e) => setConfig({ ...config, maxMonthlyCostUsd: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxResearch">Max Researched per Run</Label>
+                <Input
+                  id="maxResearch"
+                  type="number"
+                  min={0}
+                  step="1"
+                  placeholder="Unlimited"
+                  value={config.maxResearchPerRun}
+                  onChange={(e) => setConfig({ ...config, maxResearchPerRun: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Once a cap is reached the run stops spending; companies it would have researched go to the
+              review queue as budget-deferred and an alert is raised.
+            </p>
           </div>
 
           <Separator />
 
+          {/* Exclusions (saved configs only; entries belong to a config id) */}
+          {savedConfigId && (
+            <>
+              <div className="space-y-2">
+                <Label>Exclusions</Label>
+                <p className="text-sm text-muted-foreground">
+                  Domains, companies, competitors and patterns this config's runs skip, on top of the global lists
+                </p>
+                <ExclusionListsEditor configId={savedConfigId} />
+              </div>
+
+              <Separator />
+            </>
+          )}
+
           {/* Schedule */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <div>
                 <Label htmlFor="active">Active</Label>
                 <p className="text-sm text-muted-foreground">
-                  Runs Sunday, Tuesday, Thursday at 7 PM CST
+                  Run automatically on the schedule below; changes apply as soon as the config is saved
                 </p>
               </div>
               <Switch
@@ -891,9 +1350,45 @@ function AgentConfigCard({
                 onCheckedChange={(checked) => setConfig({ ...config, isActive: checked })}
               />
             </div>
+            <ScheduleEditor
+              schedule={config.schedule}
+              timezone={config.timezone}
+              onChange={(schedule, timezone) => setConfig({ ...config, schedule, timezone })}
+            />
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="alertAfterUnchangedRuns">Stale-parameter alert</Label>
+                <p className="text-sm text-muted-foreground">
+                  Alert with suggestions to broaden the search after this many runs without changes (0 = off)
+                </p>
+              </div>
+              <Input
+                id="alertAfterUnchangedRuns"
+                type="number"
+                min={0}
+                className="w-24"
+                value={config.alertAfterUnchangedRuns}
+                onChange={(e) => setConfig({ ...config, alertAfterUnchangedRuns: parseInt(e.target.value) || 0 })}
+              />
+            </div>
           </div>
         </div>
 
+        {/* Recorded with the new config version */}
+        <div className="grid grid-cols-3 gap-2">
+          <Input
+            placeholder="Your name"
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+          />
+          <Input
+            className="col-span-2"
+            placeholder={savedConfigId ? "What changed? (optional)" : "Note (optional)"}
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+          />
+        </div>
+
         {/* Action Buttons */}
         <div className="flex gap-2">
           <Button
@@ -901,7 +1396,15 @@ function AgentConfigCard({
             onClick={() => saveConfig.mutate()}
             disabled={saveConfig.isPending}
           >
-            {saveConfig.isPending ? "Saving..." : "Save Configuration"}
+            {saveConfig.isPending ? "Saving..." : savedConfigId ? "Update Configuration" : "Save Configuration"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => previewDiscovery.mutate()}
+            disabled={previewDiscovery.isPending}
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {previewDiscovery.isPending ? "Previewing..." : "Preview"}
           </Button>
           <Button
             variant="outline"
@@ -912,6 +1415,8 @@ function AgentConfigCard({
             {runDiscovery.isPending ? "Running..." : "Run Now"}
           </Button>
         </div>
+
+        {preview && <DiscoveryPreviewPanel preview={preview} onClose={() => setPreview(null)} />}
       </CardContent>
     </Card>
   );
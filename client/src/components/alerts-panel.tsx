@@ -0,0 +1,91 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const SEVERITY_STYLES: Record<string, string> = {
+  info: "bg-blue-100 text-blue-800",
+  warning: "bg-orange-100 text-orange-800",
+  critical: "bg-red-100 text-red-800",
+};
+
+const SUGGESTION_LABELS: Record<string, string> = {
+  sub_niche: "Sub-niche",
+  geography: "Geography",
+  criteria: "Criteria",
+};
+
+// Unacknowledged operator alerts (budget caps reached, stale config parameters)
+export function AlertsPanel() {
+  const queryClient = useQueryClient();
+  const { data: alerts = [] } = useQuery<any[]>({
+    queryKey: ["/api/alerts"],
+    refetchInterval: 30000,
+  });
+
+  const acknowledge = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(`/api/alerts/${id}/acknowledge`, { method: "POST" });
+      if (!res.ok) throw new Error("Failed to acknowledge alert");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    },
+  });
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className="border-orange-300">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-orange-500" />
+          Alerts
+        </CardTitle>
+        <CardDescription>Acknowledge an alert once it has been handled</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {alerts.map((alert: any) => (
+          <div key={alert.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge className={SEVERITY_STYLES[alert.severity] || ""}>{alert.severity}</Badge>
+                <span className="font-medium text-sm">{alert.title}</span>
+              </div>
+              <p className="text-sm text-muted-foreground">{alert.message}</p>
+              {alert.data?.suggestions?.length > 0 && (
+                <ul className="space-y-1 pt-1 text-sm">
+                  {alert.data.suggestions.map((suggestion: any, i: number) => (
+                    <li key={i} className="flex items-start gap-2">
+                      <Badge variant="outline" className="shrink-0 text-xs">
+                        {SUGGESTION_LABELS[suggestion.kind] || suggestion.kind}
+                      </Badge>
+                      <span>
+                        {suggestion.suggestion}
+                        {suggestion.rationale && (
+                          <span className="text-muted-foreground"> — {suggestion.rationale}</span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-muted-foreground">{new Date(alert.createdAt).toLocaleString()}</p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => acknowledge.mutate(alert.id)}
+              disabled={acknowledge.isPending}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Acknowledge
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,333 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+export type ApprovalAction = "approve" | "review" | "reject";
+
+export type ApprovalRuleField =
+  | "score"
+  | "confidence"
+  | "ownershipType"
+  | "revenue"
+  | "industry"
+  | "geography"
+  | "ipUpside";
+
+export interface ApprovalRule {
+  id: string;
+  field: ApprovalRuleField;
+  operator: string;
+  value: any;
+  action: ApprovalAction;
+  reason?: string;
+  enabled?: boolean;
+  when?: { field: ApprovalRuleField; operator: string; value: any }[]; // Further conditions that must all match too
+}
+
+const FIELD_OPTIONS: { value: ApprovalRuleField; label: string }[] = [
+  { value: "score", label: "Score" },
+  { value: "confidence", label: "Confidence" },
+  { value: "ownershipType", label: "Ownership" },
+  { value: "revenue", label: "Revenue" },
+  { value: "industry", label: "Industry" },
+  { value: "geography", label: "Geography" },
+  { value: "ipUpside", label: "IP Upside" },
+];
+
+const OPERATOR_OPTIONS: Record<ApprovalRuleField, { value: string; label: string }[]> = {
+  score: [{ value: "lt", label: "is below" }, { value: "gte", label: "is at least" }],
+  confidence: [{ value: "lt", label: "is below" }, { value: "gte", label: "is at least" }],
+  ownershipType: [{ value: "in", label: "is one of" }, { value: "not_in", label: "is not one of" }],
+  revenue: [{ value: "outside", label: "is outside" }, { value: "between", label: "is within" }],
+  industry: [{ value: "not_in", label: "is not one of" }, { value: "in", label: "is one of" }],
+  geography: [{ value: "not_in", label: "is not one of" }, { value: "in", label: "is one of" }],
+  ipUpside: [{ value: "is", label: "is" }],
+};
+
+const DEFAULT_VALUES: Record<ApprovalRuleField, any> = {
+  score: 7,
+  confidence: "Medium",
+  ownershipType: ["PE-Backed"],
+  revenue: { min: 10000000, max: 150000000 },
+  industry: [],
+  geography: [],
+  ipUpside: true,
+};
+
+const ACTION_STYLES: Record<ApprovalAction, string> = {
+  approve: "text-green-700",
+  review: "text-orange-700",
+  reject: "text-red-700",
+};
+
+export function ApprovalRulesEditor({
+  rules,
+  defaultAction,
+  onChange,
+  onDefaultActionChange,
+}: {
+  rules: ApprovalRule[];
+  defaultAction: ApprovalAction;
+  onChange: (rules: ApprovalRule[]) => void;
+  onDefaultActionChange: (action: ApprovalAction) => void;
+}) {
+  const updateRule = (index: number, patch: Partial<ApprovalRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const changeField = (index: number, field: ApprovalRuleField) => {
+    updateRule(index, {
+      field,
+      operator: OPERATOR_OPTIONS[field][0].value,
+      value: DEFAULT_VALUES[field],
+      reason: undefined,
+      when: undefined,
+    });
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addRule = () => {
+    let n = rules.length + 1;
+    while (rules.some(r => r.id === `rule-${n}`)) n++;
+    onChange([
+      ...rules,
+      { id: `rule-${n}`, field: "score", operator: "lt", value: 7, action: "review" },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Rules run top to bottom. The first rule that matches decides the outcome; companies matching no rule fall through to the default.
+        The PE filter and buy-side PE review from the search criteria always run before these rules.
+      </p>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="rounded-lg border p-3 space-y-2 bg-muted/20">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-mono text-muted-foreground w-6">{index + 1}.</span>
+            <Input
+              className="h-8 w-36 font-mono text-xs"
+              value={rule.id}
+              onChange={(e) => updateRule(index, { id: e.target.value })}
+            />
+            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={rule.enabled !== false}
+                onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+              />
+              Enabled
+            </label>
+            <div className="ml-auto flex items-center gap-1">
+              <Button type="button" size="icon" variant="ghost" className="h-7 w-7" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button type="button" size="icon" variant="ghost" className="h-7 w-7" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1}>
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 text-destructive hover:text-destructive"
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 items-center">
+            <Select value={rule.field} onValueChange={(value) => changeField(index, value as ApprovalRuleField)}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIELD_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={rule.operator} onValueChange={(value) => updateRule(index, { operator: value })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OPERATOR_OPTIONS[rule.field].map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <RuleValueInput rule={rule} onChange={(value) => updateRule(index, { value })} />
+
+            <Select value={rule.action} onValueChange={(value) => updateRule(index, { action: value as ApprovalAction })}>
+              <SelectTrigger className={`h-8 ${ACTION_STYLES[rule.action]}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="approve">→ Approve</SelectItem>
+                <SelectItem value="review">→ Review</SelectItem>
+                <SelectItem value="reject">→ Reject</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {rule.when?.map((condition, i) => (
+            <p key={i} className="text-xs text-muted-foreground">
+              …and {FIELD_OPTIONS.find(o => o.value === condition.field)?.label.toLowerCase() || condition.field}{" "}
+              {OPERATOR_OPTIONS[condition.field]?.find(o => o.value === condition.operator)?.label || condition.operator}{" "}
+              {formatConditionValue(condition.value)}
+            </p>
+          ))}
+
+          <Input
+            className="h-8 text-xs"
+            placeholder="Reason shown in the review queue (optional — generated if blank)"
+            value={rule.reason || ""}
+            onChange={(e) => updateRule(index, { reason: e.target.value || undefined })}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" size="sm" variant="outline" onClick={addRule}>
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Add Rule
+        </Button>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">If no rule matches:</span>
+          <Select value={defaultAction} onValueChange={(value) => onDefaultActionChange(value as ApprovalAction)}>
+            <SelectTrigger className={`h-8 w-32 ${ACTION_STYLES[defaultAction]}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="approve">Approve</SelectItem>
+              <SelectItem value="review">Review</SelectItem>
+              <SelectItem value="reject">Reject</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatConditionValue(value: any): string {
+  if (Array.isArray(value)) return value.join(", ");
+  if (value && typeof value === "object") {
+    const millions = (amount?: number) => (amount === undefined ? "…" : `$${amount / 1000000}M`);
+    return `${millions(value.min)}–${millions(value.max)}`;
+  }
+  return String(value);
+}
+
+function RuleValueInput({ rule, onChange }: { rule: ApprovalRule; onChange: (value: any) => void }) {
+  switch (rule.field) {
+    case "score":
+      return (
+        <Input
+          type="number"
+          min={1}
+          max={10}
+          className="h-8"
+          value={rule.value}
+          onChange={(e) => onChange(parseInt(e.target.value) || 0)}
+        />
+      );
+    case "confidence":
+      return (
+        <Select value={String(rule.value)} onValueChange={onChange}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="High">High</SelectItem>
+            <SelectItem value="Medium">Medium</SelectItem>
+            <SelectItem value="Low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case "ipUpside":
+      return (
+        <Select value={String(rule.value)} onValueChange={(value) => onChange(value === "true")}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Detected</SelectItem>
+            <SelectItem value="false">Not detected</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case "revenue": {
+      const band = rule.value || {};
+      const toMillions = (amount?: number) => (amount === undefined ? "" : String(amount / 1000000));
+      const fromMillions = (text: string) => (text.trim() === "" ? undefined : parseFloat(text) * 1000000);
+      return (
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            className="h-8"
+            placeholder="min $M"
+            value={toMillions(band.min)}
+            onChange={(e) => onChange({ ...band, min: fromMillions(e.target.value) })}
+          />
+          <span className="text-xs text-muted-foreground">–</span>
+          <Input
+            type="number"
+            className="h-8"
+            placeholder="max $M"
+            value={toMillions(band.max)}
+            onChange={(e) => onChange({ ...band, max: fromMillions(e.target.value) })}
+          />
+        </div>
+      );
+    }
+    default:
+      return <ListValueInput value={Array.isArray(rule.value) ? rule.value : []} onChange={onChange} />;
+  }
+}
+
+const parseList = (text: string) => text.split(",").map(v => v.trim()).filter(Boolean);
+
+// Keeps the raw text locally so typing a trailing comma isn't normalized away mid-edit
+function ListValueInput({ value, onChange }: { value: string[]; onChange: (value: string[]) => void }) {
+  const [text, setText] = useState(value.join(", "));
+
+  // Resync when the list changes from outside (rule reordered, field switched)
+  useEffect(() => {
+    if (parseList(text).join(",") !== value.join(",")) {
+      setText(value.join(", "));
+    }
+  }, [value]);
+
+  return (
+    <Input
+      className="h-8"
+      placeholder="Comma-separated"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseList(e.target.value));
+      }}
+    />
+  );
+}
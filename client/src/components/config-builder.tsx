@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, Sparkles } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+
+const SOURCE_STYLES: Record<string, { label: string; className: string }> = {
+  thesis: { label: "From thesis", className: "border-green-300 bg-green-50 text-green-700" },
+  inferred: { label: "Inferred", className: "border-amber-300 bg-amber-50 text-amber-700" },
+  default: { label: "Default", className: "border-gray-300 bg-gray-50 text-gray-600" },
+};
+
+const formatValue = (value: any) => {
+  if (Array.isArray(value)) {
+    return value.map((item) => (typeof item === "object" ? item.reason || item.id : String(item))).join(", ");
+  }
+  if (value && typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Apply only the confirmed fields of a draft; unconfirmed ones fall back to the form defaults
+function confirmedConfig(draft: any, confirmed: Set<string>) {
+  const config: any = { name: draft.name, searchCriteria: {}, autoApprovalRules: {} };
+  for (const { field, value } of draft.fields) {
+    if (!confirmed.has(field)) continue;
+    const [section, key] = field.split(".");
+    config[section][key] = value;
+  }
+  return config;
+}
+
+// Draft a config from a plain-English thesis; each field is confirmed before it reaches the form
+export function ConfigBuilderCard({ onApply }: { onApply: (config: any) => void }) {
+  const { toast } = useToast();
+  const [thesis, setThesis] = useState("");
+  const [draft, setDraft] = useState<any>(null);
+  const [confirmed, setConfirmed] = useState<Set<string>>(new Set());
+
+  const buildDraft = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/agent-configs/draft", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ thesis }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to draft configuration");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setDraft(data);
+      // Fields stated in the thesis start confirmed; Claude's inferences and defaults need a tick
+      setConfirmed(new Set(data.fields.filter((f: any) => f.source === "thesis").map((f: any) => f.field)));
+    },
+    onError: (error: Error) => {
+      toast({ title: "Draft failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (field: string) => {
+    const next = new Set(confirmed);
+    if (next.has(field)) next.delete(field);
+    else next.add(field);
+    setConfirmed(next);
+  };
+
+  const unconfirmed = draft ? draft.fields.length - confirmed.size : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          Describe a Thesis
+        </CardTitle>
+        <CardDescription>
+          Claude drafts the search criteria and approval rules; confirm each field, then review and save it in the form below
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Textarea
+          placeholder="e.g. founder-owned commercial HVAC contractors in Texas and Oklahoma, $15-40M revenue, owner near retirement"
+          value={thesis}
+          onChange={(e) => setThesis(e.target.value)}
+        />
+        <Button onClick={() => buildDraft.mutate()} disabled={thesis.trim().length < 10 || buildDraft.isPending}>
+          <Sparkles className="h-4 w-4 mr-2" />
+          {buildDraft.isPending ? "Drafting..." : "Draft configuration"}
+        </Button>
+
+        {draft && (
+          <div className="space-y-3">
+            {draft.warnings.map((warning: string) => (
+              <p key={warning} className="flex items-center gap-2 text-sm text-orange-700">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {warning}
+              </p>
+            ))}
+            <div className="space-y-2">
+              {draft.fields.map((field: any) => {
+                const style = SOURCE_STYLES[field.source] || SOURCE_STYLES.inferred;
+                return (
+                  <label
+                    key={field.field}
+                    className={`flex items-start gap-3 rounded-lg border p-2 text-sm cursor-pointer ${confirmed.has(field.field) ? "" : style.className}`}
+                  >
+                    <Checkbox
+                      checked={confirmed.has(field.field)}
+                      onCheckedChange={() => toggle(field.field)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-mono text-xs text-muted-foreground">{field.field}</span>
+                        <Badge variant="outline" className={`text-xs ${style.className}`}>{style.label}</Badge>
+                      </div>
+                      <div className="font-medium break-words">{formatValue(field.value)}</div>
+                      {field.note && <div className="text-xs text-muted-foreground">{field.note}</div>}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-muted-foreground">
+                {unconfirmed > 0 ? `${unconfirmed} field(s) not confirmed — they'll keep the form defaults` : "All fields confirmed"}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setConfirmed(new Set(draft.fields.map((f: any) => f.field)))}>
+                  Confirm all
+                </Button>
+                <Button onClick={() => onApply(confirmedConfig(draft, confirmed))} disabled={confirmed.size === 0}>
+                  Load into form
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+// Name sent with config edits; the dashboard has no login, so it's remembered per browser
+export const AUTHOR_STORAGE_KEY = "cebron:configAuthor";
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined) return "—";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+};
+
+// Change history of one saved config, with a diff per version and revert
+export function ConfigHistoryDialog({
+  config,
+  onClose,
+}: {
+  config: any | null;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const url = config ? `/api/agent-configs/${config.id}/versions` : null;
+  const { data: versions = [], isLoading } = useQuery<any[]>({
+    queryKey: [url],
+    enabled: !!url,
+  });
+
+  const revert = useMutation({
+    mutationFn: async (version: any) => {
+      const res = await fetch(`/api/agent-configs/${config.id}/versions/${version.id}/revert`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ author: localStorage.getItem(AUTHOR_STORAGE_KEY) || undefined }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to revert configuration");
+      }
+      return res.json();
+    },
+    onSuccess: (_data, version) => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      queryClient.invalidateQueries({ queryKey: ["/api/agent-configs"] });
+      toast({ title: "Configuration reverted", description: `"${config.name}" restored to v${version.version}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revert failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!config} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Change History{config ? `: ${config.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Every saved edit is kept; runs record the version they used. Reverting saves the old settings as a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions recorded yet — one is saved on the next edit or run.</p>
+        ) : (
+          <div className="space-y-3">
+            {versions.map((version: any, i: number) => (
+              <div key={version.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant={i === 0 ? "default" : "outline"}>v{version.version}</Badge>
+                    <span className="font-medium">{version.author}</span>
+                    <span className="text-muted-foreground">{new Date(version.createdAt).toLocaleString()}</span>
+                  </div>
+                  {i > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revert.mutate(version)}
+                      disabled={revert.isPending}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                      Revert to this version
+                    </Button>
+                  )}
+                </div>
+                {version.note && <p className="text-xs text-muted-foreground">{version.note}</p>}
+                {version.changes.length > 0 && (
+                  <div className="space-y-1 text-xs font-mono">
+                    {version.changes.map((change: any) => (
+                      <div key={change.field} className="flex flex-wrap gap-1">
+                        <span className="text-muted-foreground">{change.field}:</span>
+                        <span className="bg-red-50 text-red-700 line-through">{formatValue(change.before)}</span>
+                        <span>→</span>
+                        <span className="bg-green-50 text-green-700">{formatValue(change.after)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Download, LayoutTemplate, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { AUTHOR_STORAGE_KEY } from "@/components/config-history";
+
+async function postJson(url: string, body: any, fallbackError: string) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, author: localStorage.getItem(AUTHOR_STORAGE_KEY) || undefined }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || fallbackError);
+  }
+  return res.json();
+}
+
+// Starter configs to clone, plus import of exported JSON/YAML documents.
+// New configs are saved inactive and loaded into the form for customizing.
+export function ConfigTemplateGallery({ onCreated }: { onCreated: (config: any) => void }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [importOpen, setImportOpen] = useState(false);
+  const { data: templates = [] } = useQuery<any[]>({ queryKey: ["/api/config-templates"] });
+
+  const created = (config: any, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/agent-configs"] });
+    toast({ title: "Configuration created", description });
+    onCreated(config);
+  };
+
+  const clone = useMutation({
+    mutationFn: (template: any) =>
+      postJson(`/api/config-templates/${template.id}/clone`, {}, "Failed to clone template"),
+    onSuccess: (config, template) => created(config, `"${template.title}" saved as an inactive config — customize it below.`),
+    onError: (error: Error) => {
+      toast({ title: "Clone failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LayoutTemplate className="h-5 w-5" />
+              Templates
+            </CardTitle>
+            <CardDescription>
+              Starter configs for common lower-middle-market theses, or import one exported from another environment
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="h-3.5 w-3.5 mr-1" />
+            Import
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-3 md:grid-cols-2">
+        {templates.map((template: any) => (
+          <div key={template.id} className="rounded-lg border p-3 space-y-2">
+            <div className="font-medium">{template.title}</div>
+            <p className="text-sm text-muted-foreground">{template.summary}</p>
+            <div className="flex flex-wrap gap-1">
+              {template.tags.map((tag: string) => (
+                <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              <Button size="sm" variant="ghost" onClick={() => clone.mutate(template)} disabled={clone.isPending}>
+                <Copy className="h-3.5 w-3.5 mr-1" />
+                Use template
+              </Button>
+              <Button size="sm" variant="ghost" asChild>
+                <a href={`/api/config-templates/${template.id}/export?format=yaml`}>
+                  <Download className="h-3.5 w-3.5 mr-1" />
+                  YAML
+                </a>
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+      <ConfigImportDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImported={(config) => created(config, `"${config.name}" imported as v${config.currentVersion}.`)}
+      />
+    </Card>
+  );
+}
+
+function ConfigImportDialog({
+  open,
+  onClose,
+  onImported,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onImported: (config: any) => void;
+}) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [content, setContent] = useState("");
+  const [name, setName] = useState("");
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setContent(String(reader.result || ""));
+    reader.readAsText(file);
+    e.target.value = "";
+  };
+
+  const importConfig = useMutation({
+    mutationFn: () => postJson("/api/agent-configs/import", { content, name: name || undefined }, "Failed to import configuration"),
+    onSuccess: (config) => {
+      setContent("");
+      setName("");
+      onClose();
+      onImported(config);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Configuration</DialogTitle>
+          <DialogDescription>
+            Paste or upload a JSON or YAML document exported from a saved config. It's always saved inactive; activate it to schedule runs.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input placeholder="Name (optional, overrides the document)" value={name} onChange={(e) => setName(e.target.value)} />
+            <input ref={fileInputRef} type="file" accept=".json,.yaml,.yml" className="hidden" onChange={handleFile} />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Upload file
+            </Button>
+          </div>
+          <Textarea
+            className="font-mono text-xs min-h-[240px]"
+            placeholder={"kind: cebron/agent-config\nversion: 1\nname: ...\nsearchCriteria:\n  query: ..."}
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <Button onClick={() => importConfig.mutate()} disabled={!content.trim() || importConfig.isPending}>
+              {importConfig.isPending ? "Importing..." : "Import"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, DollarSign } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const PROVIDER_LABELS: Record<string, string> = {
+  anthropic: "Anthropic",
+  exa: "Exa",
+  apollo: "Apollo",
+  mock: "Mock LLM",
+};
+
+export function formatCost(value: number): string {
+  if (!value) return "$0.00";
+  return value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+// Per provider/operation/model cost table for one workflow, report or weekly scan
+export function CostBreakdown({ url, title = "API Cost" }: { url: string; title?: string }) {
+  const [open, setOpen] = useState(false);
+  const { data, isLoading } = useQuery<any>({ queryKey: [url] });
+
+  if (isLoading || !data) return null;
+  const { rows, totals } = data;
+  if (rows.length === 0) {
+    return <p className="text-xs text-muted-foreground">{title}: no API usage recorded</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <button className="flex items-center gap-2 text-sm" onClick={() => setOpen(!open)}>
+        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <span className="font-medium">{title}</span>
+        <span className="font-semibold">{formatCost(totals.costUsd)}</span>
+        <span className="text-xs text-muted-foreground">
+          {Object.entries(totals.byProvider as Record<string, number>)
+            .map(([provider, cost]) => `${PROVIDER_LABELS[provider] || provider} ${formatCost(cost)}`)
+            .join(" · ")}
+        </span>
+      </button>
+      {open && (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/40 text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium p-2">Provider</th>
+                <th className="text-left font-medium p-2">Operation</th>
+                <th className="text-right font-medium p-2">Calls</th>
+                <th className="text-right font-medium p-2">Cache Hits</th>
+                <th className="text-right font-medium p-2">Tokens In / Out</th>
+                <th className="text-right font-medium p-2">Web Searches</th>
+                <th className="text-right font-medium p-2">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row: any) => (
+                <tr key={`${row.provider}:${row.operation}:${row.model}`} className="border-t">
+                  <td className="p-2">{PROVIDER_LABELS[row.provider] || row.provider}</td>
+                  <td className="p-2">
+                    {row.operation.replace(/_/g, " ")}
+                    {row.model && (
+                      <Badge variant="outline" className="ml-2 text-[10px]">{row.model}</Badge>
+                    )}
+                  </td>
+                  <td className="p-2 text-right">{row.calls}</td>
+                  <td className="p-2 text-right">{row.provider === "exa" ? row.cacheHits : "—"}</td>
+                  <td className="p-2 text-right">
+                    {row.inputTokens || row.outputTokens
+                      ? `${formatTokens(row.inputTokens)} / ${formatTokens(row.outputTokens)}`
+                      : "—"}
+                  </td>
+                  <td className="p-2 text-right">{row.webSearches || "—"}</td>
+                  <td className="p-2 text-right font-medium">{formatCost(row.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Spend per calendar month, split by provider
+export function MonthlyCosts() {
+  const { data: months = [] } = useQuery<any[]>({ queryKey: ["/api/costs/monthly"] });
+  if (months.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          API Spend
+        </CardTitle>
+        <CardDescription>Measured Anthropic, Exa and Apollo usage per month</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/40 text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium p-2">Month</th>
+                <th className="text-right font-medium p-2">Anthropic</th>
+                <th className="text-right font-medium p-2">Exa</th>
+                <th className="text-right font-medium p-2">Apollo</th>
+                <th className="text-right font-medium p-2">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {months.map((month: any) => {
+                const exa = month.providers.find((p: any) => p.provider === "exa");
+                return (
+                  <tr key={month.month} className="border-t">
+                    <td className="p-2 font-medium">{month.month}</td>
+                    <td className="p-2 text-right">{formatCost(month.totals.byProvider.anthropic || 0)}</td>
+                    <td className="p-2 text-right">
+                      {formatCost(month.totals.byProvider.exa || 0)}
+                      {exa && exa.calls > 0 && (
+                        <span className="ml-1 text-xs text-muted-foreground">
+                          ({Math.round((exa.cacheHits / exa.calls) * 100)}% cached)
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">{formatCost(month.totals.byProvider.apollo || 0)}</td>
+                    <td className="p-2 text-right font-semibold">{formatCost(month.totals.costUsd)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,6 +20,7 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/use-toast";
+import { WorkflowActivityFeed } from "@/components/workflow-activity-feed";
 import {
   Search,
   Upload,
@@ -51,10 +52,10 @@ export function DirectResearch() {
   const [bulkCompanies, setBulkCompanies] = useState<CompanyEntry[]>([]);
   const [bulkStrategy, setBulkStrategy] = useState<string>("buy-side");
 
-  // Poll workflows for progress tracking
+  // Progress arrives over the workflow's event stream (see WorkflowActivityFeed),
+  // which refreshes this query as companies move through research
   const { data: workflows } = useQuery({
     queryKey: ["/api/workflows"],
-    refetchInterval: 3000,
   });
 
   // Find direct research workflows (running or recently completed)
@@ -73,7 +74,6 @@ export function DirectResearch() {
   const { data: queueItems } = useQuery({
     queryKey: ["/api/workflows/" + activeWorkflow?.id + "/companies"],
     enabled: !!activeWorkflow,
-    refetchInterval: 3000,
   });
 
   // Research mutation
@@ -416,6 +416,10 @@ export function DirectResearch() {
                   </div>
                 )}
 
+                {workflow.id === activeWorkflow?.id && (
+                  <WorkflowActivityFeed workflowId={workflow.id} />
+                )}
+
                 {/* Link to library when complete */}
                 {workflow.status === "completed" && (
                   <Link href="/library">
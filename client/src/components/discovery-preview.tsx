@@ -0,0 +1,119 @@
+import { Eye, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { formatCost } from "@/components/cost-breakdown";
+import { ExclusionCounts } from "@/components/exclusion-lists";
+
+const OUTCOME_LABELS: Record<string, { label: string; className: string }> = {
+  approve: { label: "Auto-approve", className: "bg-green-100 text-green-800" },
+  review: { label: "Review", className: "bg-orange-100 text-orange-800" },
+  reject: { label: "Reject", className: "bg-red-100 text-red-800" },
+  filtered: { label: "Filtered", className: "bg-gray-100 text-gray-700" },
+  known: { label: "Already queued", className: "bg-blue-100 text-blue-800" },
+};
+
+// Result of POST /api/agent-configs/preview: what a run of the form's config would do
+export function DiscoveryPreviewPanel({ preview, onClose }: { preview: any; onClose: () => void }) {
+  const { estimate, counts } = preview;
+  const overBudget = estimate.maxRunCostUsd !== null && estimate.totalUsd > estimate.maxRunCostUsd;
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="font-medium flex items-center gap-2">
+            <Eye className="h-4 w-4" />
+            Preview ({preview.resultsFetched} sample results)
+          </h4>
+          <p className="text-xs text-muted-foreground mt-1 break-all">{preview.baseQuery}</p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(OUTCOME_LABELS).map(([outcome, { label, className }]) => (
+          <Badge key={outcome} className={className}>
+            {label}: {counts[outcome] || 0}
+          </Badge>
+        ))}
+      </div>
+
+      <ExclusionCounts counts={preview.excluded} />
+
+      {preview.queries.length > 1 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Queries a full run would search</p>
+          <ul className="text-xs space-y-0.5">
+            {preview.queries.map((query: any) => (
+              <li key={query.id}>
+                <span className="text-muted-foreground">{query.kind.replace("_", "-")}:</span> {query.query}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/40 text-muted-foreground">
+            <tr>
+              <th className="text-left font-medium p-2">Company</th>
+              <th className="text-right font-medium p-2">Score</th>
+              <th className="text-left font-medium p-2">Revenue</th>
+              <th className="text-left font-medium p-2">Outcome</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.companies.map((company: any) => {
+              const outcome = OUTCOME_LABELS[company.outcome];
+              return (
+                <tr key={`${company.name}:${company.url}`} className="border-t align-top">
+                  <td className="p-2">
+                    <a href={company.url} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">
+                      {company.name}
+                    </a>
+                    {company.originalTitle && company.originalTitle !== company.name && (
+                      <p className="text-muted-foreground">{company.originalTitle}</p>
+                    )}
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap">
+                    {company.score !== null ? `${company.score}/10 · ${company.confidence}` : "—"}
+                    {company.ipUpside && <span className="ml-1 text-blue-600">IP</span>}
+                  </td>
+                  <td className="p-2">{company.estimatedRevenue || "—"}</td>
+                  <td className="p-2">
+                    <Badge className={outcome.className}>{outcome.label}</Badge>
+                    <p className="text-muted-foreground mt-1">{company.reason}</p>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-1 text-sm">
+        <p className="font-medium">
+          Estimated full run: {formatCost(estimate.totalUsd)}
+          {estimate.researchUsd === null && (
+            <span className="font-normal text-muted-foreground"> + research (no reports with recorded cost yet)</span>
+          )}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {preview.queries.length} queries {formatCost(estimate.searchUsd)} · query expansion {formatCost(estimate.queryExpansionUsd)} ·
+          names {formatCost(estimate.nameExtractionUsd)} · scoring ~{estimate.expectedCompanies} companies {formatCost(estimate.scoringUsd)}
+          {estimate.researchUsd !== null &&
+            ` · research ~${estimate.expectedResearched} × ${formatCost(estimate.researchPerCompanyUsd)} = ${formatCost(estimate.researchUsd)}`}
+        </p>
+        {overBudget && (
+          <p className="text-xs text-orange-700">
+            Above the {formatCost(estimate.maxRunCostUsd)} per-run budget; the run would stop and defer the rest to review.
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">This preview cost {formatCost(preview.previewCostUsd)}.</p>
+      </div>
+    </div>
+  );
+}
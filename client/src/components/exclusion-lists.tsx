@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Ban, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { AUTHOR_STORAGE_KEY } from "@/components/config-history";
+
+const PLACEHOLDERS: Record<string, string> = {
+  domain: "One per line, e.g. yelp.com",
+  company: "One company name per line",
+  competitor: "One competitor name or domain per line",
+  pattern: "One regular expression per line, e.g. \\b(jobs|careers)\\b",
+  passed: "One company name or domain per line",
+};
+
+const SCOPE_LABELS: Record<string, string> = { config: "config", global: "global", builtin: "built-in" };
+const LIST_LABELS: Record<string, string> = {
+  passed: "already passed",
+  competitor: "competitors",
+  company: "companies",
+  domain: "domains",
+  pattern: "patterns",
+};
+
+/** "global:domain" → "global domains" */
+export function formatExclusionKey(key: string) {
+  const [scope, list] = key.split(":");
+  return `${SCOPE_LABELS[scope] || scope} ${LIST_LABELS[list] || list}`;
+}
+
+// Per-list counts of results a run or preview dropped
+export function ExclusionCounts({ counts }: { counts: Record<string, number> | null | undefined }) {
+  const entries = Object.entries(counts || {}).filter(([, count]) => count > 0);
+  if (entries.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <Ban className="h-3.5 w-3.5 text-muted-foreground" />
+      <span className="text-muted-foreground">Excluded:</span>
+      {entries.map(([key, count]) => (
+        <Badge key={key} variant="outline">
+          {formatExclusionKey(key)} {count}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Edit the exclusion lists discovery applies before name extraction and
+ * scoring. Without a configId it edits the global lists (and shows the
+ * built-in directory domains); with one, only that config's own entries.
+ */
+export function ExclusionListsEditor({ configId = null }: { configId?: number | null }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [list, setList] = useState("domain");
+  const [values, setValues] = useState("");
+  const [showBuiltin, setShowBuiltin] = useState(false);
+
+  const queryKey = configId ? `/api/exclusions?configId=${configId}` : "/api/exclusions";
+  const { data } = useQuery<any>({ queryKey: [queryKey] });
+  const lists: any[] = data?.lists || [];
+  const entries: any[] = (data?.entries || []).filter((entry: any) => entry.configId === configId);
+
+  const refresh = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/exclusions"),
+    });
+
+  const addEntries = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/exclusions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          configId,
+          list,
+          values: values.split("\n").map((value) => value.trim()).filter(Boolean),
+          author: localStorage.getItem(AUTHOR_STORAGE_KEY) || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to add exclusions");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      setValues("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add exclusions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeEntry = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(`/api/exclusions/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete exclusion");
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const editor = (
+    <div className="space-y-3">
+      {lists.map(({ list: key, label }) => {
+        const listEntries = entries.filter((entry) => entry.list === key);
+        if (listEntries.length === 0) return null;
+        return (
+          <div key={key} className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">{label}</p>
+            <div className="flex flex-wrap gap-1">
+              {listEntries.map((entry) => (
+                <Badge
+                  key={entry.id}
+                  variant="secondary"
+                  className="gap-1"
+                  title={entry.note || `Added by ${entry.createdBy || "unknown"}`}
+                >
+                  <span className={key === "pattern" ? "font-mono" : ""}>{entry.value}</span>
+                  <button type="button" onClick={() => removeEntry.mutate(entry.id)}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      {entries.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          {configId ? "No exclusions for this config yet; the global lists still apply." : "No global exclusions yet."}
+        </p>
+      )}
+
+      <div className="flex gap-2 items-start">
+        <Select value={list} onValueChange={setList}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {lists.map(({ list: key, label }) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Textarea
+          rows={2}
+          placeholder={PLACEHOLDERS[list]}
+          value={values}
+          onChange={(e) => setValues(e.target.value)}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => addEntries.mutate()}
+          disabled={!values.trim() || addEntries.isPending}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (configId) return editor;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ban className="h-5 w-5" />
+          Exclusion Lists
+        </CardTitle>
+        <CardDescription>
+          Search results on these lists are dropped before name extraction and scoring in every config's runs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {editor}
+        <div className="text-sm">
+          <button
+            type="button"
+            className="text-muted-foreground underline-offset-2 hover:underline"
+            onClick={() => setShowBuiltin(!showBuiltin)}
+          >
+            {showBuiltin ? "Hide" : "Show"} {data?.builtinDomains?.length || 0} built-in directory and publication domains
+          </button>
+          {showBuiltin && (
+            <p className="mt-1 text-xs text-muted-foreground">{(data?.builtinDomains || []).join(", ")}</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Check, X, Building2, MapPin, DollarSign, TrendingUp, AlertCircle } from "lucide-react";
+import { Check, X, Building2, MapPin, DollarSign, TrendingUp, AlertCircle, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -13,6 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/components/ui/use-toast";
+import { ScoreBreakdown } from "@/components/score-breakdown";
 
 interface PendingCompany {
   id: number;
@@ -22,10 +23,13 @@ interface PendingCompany {
   industry: string | null;
   estimatedRevenue: string | null;
   geographicFocus: string | null;
-  agentScore: number;
+  agentScore: number | null; // null when budget-deferred before scoring
   confidence: "High" | "Medium" | "Low";
   scoringReason: string;
+  scoreBreakdown: any | null;
   autoApprovalReason: string | null;
+  budgetDeferred: boolean;
+  foundByQueries: string[] | null;
   createdAt: string;
 }
 
@@ -196,11 +200,16 @@ function CompanyReviewCard({ company, onApprove, onReject, isProcessing }: Compa
             </CardDescription>
           </div>
           <div className="flex items-center gap-2">
+            {company.budgetDeferred && (
+              <Badge variant="outline" className="border-orange-300 text-orange-700">
+                Budget-deferred
+              </Badge>
+            )}
             <Badge variant="secondary" className={getConfidenceColor(company.confidence)}>
               {company.confidence} Confidence
             </Badge>
-            <Badge variant="outline" className={getScoreColor(company.agentScore)}>
-              {company.agentScore.toFixed(1)}/10
+            <Badge variant="outline" className={company.agentScore === null ? "" : getScoreColor(company.agentScore)}>
+              {company.agentScore === null ? "Not scored" : `${company.agentScore.toFixed(1)}/10`}
             </Badge>
           </div>
         </div>
@@ -239,8 +248,8 @@ function CompanyReviewCard({ company, onApprove, onReject, isProcessing }: Compa
 
           <div className="flex items-center gap-2">
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
-            <span className={getScoreColor(company.agentScore)}>
-              Score: {company.agentScore.toFixed(1)}/10
+            <span className={company.agentScore === null ? "text-muted-foreground" : getScoreColor(company.agentScore)}>
+              {company.agentScore === null ? "Not scored" : `Score: ${company.agentScore.toFixed(1)}/10`}
             </span>
           </div>
         </div>
@@ -252,6 +261,17 @@ function CompanyReviewCard({ company, onApprove, onReject, isProcessing }: Compa
           <p className="text-sm text-muted-foreground">{company.scoringReason}</p>
         </div>
 
+        <ScoreBreakdown breakdown={company.scoreBreakdown} />
+
+        {company.foundByQueries && company.foundByQueries.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-muted-foreground">
+            <Search className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            <span>
+              Found by: {company.foundByQueries.map(q => `"${q}"`).join(", ")}
+            </span>
+          </div>
+        )}
+
         {company.autoApprovalReason && (
           <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
             <div className="flex items-start gap-2">
@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { Activity } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const PROVIDER_LABELS: Record<string, string> = {
+  exa: "Exa",
+  apollo: "Apollo",
+  openfda: "openFDA",
+  uspto: "USPTO",
+  usaspending: "USASpending",
+};
+
+const STATE_STYLES: Record<string, { label: string; className: string }> = {
+  closed: { label: "Healthy", className: "bg-green-100 text-green-800" },
+  half_open: { label: "Recovering", className: "bg-yellow-100 text-yellow-800" },
+  open: { label: "Down", className: "bg-red-100 text-red-800" },
+};
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleTimeString() : "—");
+
+// Circuit-breaker state and request stats for each external data provider since the server started
+export function ProviderHealth() {
+  const { data: providers = [] } = useQuery<any[]>({
+    queryKey: ["/api/providers/health"],
+    refetchInterval: 30000,
+  });
+  if (providers.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Data Providers
+        </CardTitle>
+        <CardDescription>
+          Rate-limited, retried calls to external APIs; a provider that keeps failing is skipped until it recovers
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/40 text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium p-2">Provider</th>
+                <th className="text-left font-medium p-2">Status</th>
+                <th className="text-right font-medium p-2">Requests</th>
+                <th className="text-right font-medium p-2">Failures</th>
+                <th className="text-right font-medium p-2">Retries</th>
+                <th className="text-right font-medium p-2">Last Success</th>
+                <th className="text-left font-medium p-2">Last Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {providers.map((provider: any) => {
+                const style = STATE_STYLES[provider.state] || STATE_STYLES.closed;
+                return (
+                  <tr key={provider.provider} className="border-t">
+                    <td className="p-2 font-medium">{PROVIDER_LABELS[provider.provider] || provider.provider}</td>
+                    <td className="p-2">
+                      <Badge className={style.className}>{style.label}</Badge>
+                      {provider.openUntil && (
+                        <span className="ml-2 text-xs text-muted-foreground">until {formatTime(provider.openUntil)}</span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">{provider.requests}</td>
+                    <td className="p-2 text-right">{provider.failures}</td>
+                    <td className="p-2 text-right">{provider.retries}</td>
+                    <td className="p-2 text-right">{formatTime(provider.lastSuccessAt)}</td>
+                    <td className="p-2 text-xs text-muted-foreground truncate max-w-[16rem]">{provider.lastError || "—"}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
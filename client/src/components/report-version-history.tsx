@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, History, Loader2, UserMinus, UserPlus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const FIELD_LABELS: Record<string, string> = {
+  recommendation: "Recommendation",
+  confidence: "Confidence",
+  qualityScore: "Quality",
+  contactsFound: "Contacts",
+  estimatedRevenue: "Revenue",
+  employees: "Employees",
+  founded: "Founded",
+  headquarters: "HQ",
+  ownership: "Ownership",
+  valuationRange: "Valuation",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-yellow-100 text-yellow-800",
+  unchanged: "bg-gray-100 text-gray-600",
+};
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined || value === "") return "—";
+  return String(value);
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString([], { year: "numeric", month: "short", day: "numeric" });
+}
+
+function SectionDiffView({ section }: { section: any }) {
+  const [open, setOpen] = useState(section.status !== "unchanged");
+  const hasLines = section.lines.length > 0;
+
+  return (
+    <div className="rounded-lg border">
+      <button
+        className="flex w-full items-center gap-2 p-2 text-left text-sm"
+        onClick={() => hasLines && setOpen(!open)}
+      >
+        {hasLines ? (
+          open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />
+        ) : (
+          <span className="w-4" />
+        )}
+        <span className="flex-1 font-medium text-black">{section.title || "Introduction"}</span>
+        {section.status === "changed" && (
+          <span className="text-xs text-muted-foreground">
+            +{section.addedLines} / −{section.removedLines}
+          </span>
+        )}
+        <Badge className={`text-xs ${STATUS_STYLES[section.status]}`}>{section.status}</Badge>
+      </button>
+      {open && hasLines && (
+        <div className="border-t font-mono text-xs">
+          {section.lines.map((line: any, index: number) => (
+            <div
+              key={index}
+              className={`whitespace-pre-wrap px-3 py-0.5 ${
+                line.type === "added"
+                  ? "bg-green-50 text-green-900"
+                  : line.type === "removed"
+                    ? "bg-red-50 text-red-900 line-through"
+                    : "text-gray-600"
+              }`}
+            >
+              {line.type === "added" ? "+ " : line.type === "removed" ? "− " : "  "}
+              {line.text}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Version list and section-by-section diff of an older version against the current report. */
+export function ReportVersionHistory({ reportId, currentVersion }: { reportId: number; currentVersion: number }) {
+  const [fromVersion, setFromVersion] = useState(String(currentVersion - 1));
+
+  // A refresh landing while the panel is open moves the default comparison along
+  useEffect(() => {
+    setFromVersion(String(currentVersion - 1));
+  }, [currentVersion]);
+
+  const { data: versions = [] } = useQuery<any[]>({
+    queryKey: [`/api/reports/${reportId}/versions`, currentVersion],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/${reportId}/versions`);
+      if (!res.ok) throw new Error("Failed to load versions");
+      return res.json();
+    },
+  });
+
+  const { data: diff, isLoading } = useQuery<any>({
+    queryKey: [`/api/reports/${reportId}/diff?from=${fromVersion}`, currentVersion],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/${reportId}/diff?from=${fromVersion}`);
+      if (!res.ok) throw new Error("Failed to load diff");
+      return res.json();
+    },
+    enabled: Number(fromVersion) >= 1,
+  });
+
+  const archived = versions.filter((v: any) => !v.current);
+  const changes = diff ? [...diff.fieldChanges, ...diff.keyFigureChanges] : [];
+  const changedSections = diff ? diff.sections.filter((s: any) => s.status !== "unchanged").length : 0;
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-gray-50 p-4">
+      <div className="flex items-center gap-3">
+        <History className="h-4 w-4" />
+        <span className="text-sm font-medium text-black">Compare</span>
+        <div className="w-56">
+          <Select value={fromVersion} onValueChange={setFromVersion}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {archived.map((v: any) => (
+                <SelectItem key={v.version} value={String(v.version)}>
+                  {`v${v.version} · ${formatDate(v.createdAt)}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <span className="text-sm text-muted-foreground">with current (v{currentVersion})</span>
+      </div>
+
+      {isLoading || !diff ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading changes...
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {changedSections} of {diff.sections.length} sections changed
+          </p>
+
+          {changes.length > 0 && (
+            <table className="w-full text-sm">
+              <tbody>
+                {changes.map((change: any) => (
+                  <tr key={change.field} className="border-b last:border-0">
+                    <td className="py-1 pr-4 font-medium text-black">{FIELD_LABELS[change.field] || change.field}</td>
+                    <td className="py-1 pr-4 text-red-700 line-through">{formatValue(change.before)}</td>
+                    <td className="py-1 text-green-700">{formatValue(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {(diff.contacts.added.length > 0 || diff.contacts.removed.length > 0) && (
+            <div className="flex flex-wrap gap-1">
+              {diff.contacts.added.map((name: string) => (
+                <Badge key={`+${name}`} className="bg-green-100 text-green-800 text-xs">
+                  <UserPlus className="h-3 w-3 mr-1" />
+                  {name}
+                </Badge>
+              ))}
+              {diff.contacts.removed.map((name: string) => (
+                <Badge key={`-${name}`} className="bg-red-100 text-red-800 text-xs">
+                  <UserMinus className="h-3 w-3 mr-1" />
+                  {name}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {diff.sections.map((section: any) => (
+              <SectionDiffView key={`${fromVersion}:${section.sectionKey}`} section={section} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { Layers } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const PRIORITY_LABELS: Record<string, string> = {
+  direct: "Direct research",
+  manual: "Manual approvals",
+  auto: "Auto-approvals",
+  other: "Other",
+};
+
+// Research slots shared by every workflow, and what's waiting for one
+export function ResearchQueueStatus() {
+  const { data: status } = useQuery<any>({
+    queryKey: ["/api/research/scheduler"],
+    refetchInterval: 10000,
+  });
+  if (!status || (status.running === 0 && status.queued === 0)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Research Queue
+        </CardTitle>
+        <CardDescription>
+          Direct research runs first, then manual approvals, then auto-approvals; concurrent runs share the slots
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">
+            {status.running}/{status.limit} slots in use
+          </span>
+          {status.runningByWorkflow.map((row: any) => (
+            <Badge key={row.workflowId ?? "none"} variant="outline">
+              {row.workflowId ? `Run #${row.workflowId}` : "Report refresh"}: {row.count}
+            </Badge>
+          ))}
+        </div>
+        {status.queued > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-muted-foreground">{status.queued} waiting:</span>
+            {status.queuedByPriority.map((row: any) => (
+              <Badge key={row.priority} variant="secondary">
+                {PRIORITY_LABELS[row.priority] || row.priority}: {row.count}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useQuery } from "@tanstack/react-query";
+import { CalendarClock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const DEFAULT_SCHEDULE = "0 19 * * 0,2,4";
+
+const PRESETS = [
+  { value: DEFAULT_SCHEDULE, label: "Sun, Tue, Thu at 7 PM" },
+  { value: "0 7 * * 1-5", label: "Weekdays at 7 AM" },
+  { value: "0 8 * * 1", label: "Mondays at 8 AM" },
+  { value: "0 6 1 * *", label: "1st of the month at 6 AM" },
+];
+
+const TIMEZONES = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Singapore",
+  "UTC",
+];
+
+// Cron schedule and timezone for a config, with a plain-English reading and the next few runs
+export function ScheduleEditor({
+  schedule,
+  timezone,
+  onChange,
+}: {
+  schedule: string;
+  timezone: string; // "" = server default
+  onChange: (schedule: string, timezone: string) => void;
+}) {
+  const preset = PRESETS.some((p) => p.value === schedule) ? schedule : "custom";
+  const params = new URLSearchParams({ schedule, count: "5" });
+  if (timezone) params.set("timezone", timezone);
+  const { data: preview } = useQuery<any>({
+    queryKey: [`/api/schedules/preview?${params.toString()}`],
+    enabled: schedule.trim().length > 0,
+  });
+  const timezones = timezone && !TIMEZONES.includes(timezone) ? [timezone, ...TIMEZONES] : TIMEZONES;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="schedulePreset">Schedule</Label>
+          <Select
+            value={preset}
+            onValueChange={(value) => value !== "custom" && onChange(value, timezone)}
+          >
+            <SelectTrigger id="schedulePreset">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRESETS.map((p) => (
+                <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+              ))}
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="scheduleCron">Cron expression</Label>
+          <Input
+            id="scheduleCron"
+            className="font-mono"
+            value={schedule}
+            onChange={(e) => onChange(e.target.value, timezone)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="scheduleTimezone">Timezone</Label>
+          <Select value={timezone} onValueChange={(value) => onChange(schedule, value)}>
+            <SelectTrigger id="scheduleTimezone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="">Server default</SelectItem>
+              {timezones.map((tz) => (
+                <SelectItem key={tz} value={tz}>{tz}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {preview && (
+        preview.valid ? (
+          <div className="rounded-lg border bg-muted/30 p-3 text-sm space-y-1">
+            <div className="flex items-center gap-2 font-medium">
+              <CalendarClock className="h-4 w-4" />
+              {preview.description}
+            </div>
+            {preview.nextRuns.length > 0 ? (
+              <p className="text-muted-foreground">
+                Next: {preview.nextRuns.map((run: string) => new Date(run).toLocaleString()).join(" · ")}
+              </p>
+            ) : (
+              <p className="text-muted-foreground">This schedule never fires.</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-red-600">{preview.error}</p>
+        )
+      )}
+    </div>
+  );
+}
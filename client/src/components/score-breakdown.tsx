@@ -0,0 +1,48 @@
+import { useQuery } from "@tanstack/react-query";
+
+const barColor = (score: number) => {
+  if (score >= 8) return "bg-green-500";
+  if (score >= 6) return "bg-yellow-500";
+  return "bg-red-500";
+};
+
+// Rubric sub-scores behind a company's overall score, with the weights the run used
+export function ScoreBreakdown({ breakdown }: { breakdown: any }) {
+  const { data: rubric } = useQuery<any>({ queryKey: ["/api/scoring/rubric"] });
+  if (!breakdown?.subScores || !rubric) return null;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Score Breakdown</span>
+        <span className="text-muted-foreground">
+          Weighted {breakdown.weightedScore}/10
+          {breakdown.disqualified && <span className="ml-2 text-red-600">Disqualified: {breakdown.disqualified}</span>}
+        </span>
+      </div>
+      {rubric.criteria.map((criterion: any) => {
+        const subScore = breakdown.subScores[criterion.key];
+        const weight = breakdown.weights?.[criterion.key];
+        if (!subScore) return null;
+        return (
+          <div key={criterion.key} className="space-y-0.5">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="w-28 shrink-0">{criterion.label}</span>
+              <div className="flex-1 h-2 rounded-full bg-gray-200">
+                <div
+                  className={`h-2 rounded-full ${barColor(subScore.score)}`}
+                  style={{ width: `${subScore.score * 10}%` }}
+                />
+              </div>
+              <span className="w-10 text-right font-medium">{subScore.score}/10</span>
+              <span className="w-12 text-right text-muted-foreground">×{weight}</span>
+            </div>
+            {subScore.reason && (
+              <p className="text-xs text-muted-foreground ml-[7.5rem]">{subScore.reason}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
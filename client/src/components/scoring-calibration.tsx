@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Gauge, ThumbsDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 100)}%`);
+
+// How well agent scores have predicted reviewer approve/reject decisions
+export function ScoringCalibration() {
+  const [configId, setConfigId] = useState("all");
+  const { data: configs = [] } = useQuery<any[]>({ queryKey: ["/api/agent-configs"] });
+  const url = configId === "all" ? "/api/scoring/calibration" : `/api/scoring/calibration?configId=${configId}`;
+  const { data: stats } = useQuery<any>({ queryKey: [url] });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-5 w-5" />
+              Scoring Calibration
+            </CardTitle>
+            <CardDescription>
+              Your approve/reject decisions are fed back into scoring as examples for each configuration
+            </CardDescription>
+          </div>
+          <div className="w-56">
+            <Select value={configId} onValueChange={setConfigId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All configurations</SelectItem>
+                {configs.map((config: any) => (
+                  <SelectItem key={config.id} value={String(config.id)}>
+                    {config.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!stats || stats.reviewed === 0 ? (
+          <p className="text-sm text-muted-foreground">No reviewer decisions recorded yet.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/40 text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-medium p-2">Agent Score</th>
+                    <th className="text-right font-medium p-2">Reviewed</th>
+                    <th className="text-right font-medium p-2">Approved</th>
+                    <th className="text-right font-medium p-2">Rejected</th>
+                    <th className="text-right font-medium p-2">Approval Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.buckets.map((bucket: any) => (
+                    <tr key={bucket.label} className="border-t">
+                      <td className="p-2 font-medium">{bucket.label}</td>
+                      <td className="p-2 text-right">{bucket.reviewed}</td>
+                      <td className="p-2 text-right text-green-700">{bucket.approved}</td>
+                      <td className="p-2 text-right text-red-700">{bucket.rejected}</td>
+                      <td className="p-2 text-right font-semibold">{formatRate(bucket.approvalRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{stats.reviewed} decisions</Badge>
+              <Badge variant="outline" className={stats.falsePositives > 0 ? "border-red-300 text-red-700" : ""}>
+                False-positive auto-approvals: {stats.falsePositives}/{stats.autoApprovalsReviewed} ({formatRate(stats.falsePositiveRate)})
+              </Badge>
+              <Badge variant="outline">Auto-rejections overridden: {stats.overriddenRejections}</Badge>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Recent auto-approvals, so a reviewer can flag the ones that weren't a fit
+export function RecentAutoApprovals() {
+  const queryClient = useQueryClient();
+  const { data: items = [] } = useQuery<any[]>({ queryKey: ["/api/discovery-queue/auto-approved"] });
+
+  const markNotAFit = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(`/api/discovery-queue/${id}/reject`, { method: "POST" });
+      if (!res.ok) throw new Error("Failed to reject company");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/discovery-queue/auto-approved"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/scoring/calibration"),
+      });
+    },
+  });
+
+  if (items.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recent Auto-Approvals</CardTitle>
+        <CardDescription>
+          Flag companies that shouldn't have been approved; they count as false positives and teach the scorer
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {items.map((item: any) => (
+          <div key={item.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{item.companyName}</span>
+                <Badge variant="outline">{item.agentScore}/10</Badge>
+                {item.industry && <span className="text-xs text-muted-foreground">{item.industry}</span>}
+              </div>
+              {item.autoApprovalReason && (
+                <p className="text-xs text-muted-foreground truncate">{item.autoApprovalReason}</p>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => markNotAFit.mutate(item.id)}
+              disabled={markNotAFit.isPending}
+            >
+              <ThumbsDown className="h-4 w-4 mr-1" />
+              Not a Fit
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Activity,
+  AlertTriangle,
+  Ban,
+  Check,
+  DollarSign,
+  Eye,
+  FileCheck,
+  Gauge,
+  Pencil,
+  Search,
+  X,
+  Loader2,
+  PlayCircle,
+} from "lucide-react";
+
+export interface WorkflowEvent {
+  id: number;
+  workflowId: number;
+  type: string;
+  message: string;
+  companyName?: string;
+  queueId?: number;
+  data?: Record<string, any>;
+  at: string;
+}
+
+const EVENT_TYPES = [
+  "status",
+  "step",
+  "query",
+  "excluded",
+  "discovered",
+  "name_cleaned",
+  "scored",
+  "approved",
+  "review",
+  "rejected",
+  "research_step",
+  "saved",
+  "budget",
+  "failed",
+];
+
+const MAX_EVENTS = 100;
+
+/**
+ * Subscribe to a workflow's SSE stream. Keeps the last events in state and
+ * refreshes the workflow/queue queries as progress happens, so counters move
+ * with the feed instead of waiting for a poll.
+ */
+export function useWorkflowEvents(workflowId: number | null | undefined) {
+  const queryClient = useQueryClient();
+  const [events, setEvents] = useState<WorkflowEvent[]>([]);
+  const [connected, setConnected] = useState(false);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    setEvents([]);
+    if (!workflowId) return;
+
+    const source = new EventSource(`/api/workflows/${workflowId}/events`);
+
+    // Batch query refreshes — scoring can emit several events a second
+    const scheduleRefresh = () => {
+      if (refreshTimer.current) return;
+      refreshTimer.current = setTimeout(() => {
+        refreshTimer.current = null;
+        queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/workflows/" + workflowId + "/companies"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/discovery-queue/pending"] });
+      }, 1000);
+    };
+
+    const handleEvent = (message: MessageEvent) => {
+      try {
+        const event: WorkflowEvent = JSON.parse(message.data);
+        setEvents(prev => {
+          if (prev.some(e => e.id === event.id)) return prev;
+          return [...prev, event].slice(-MAX_EVENTS);
+        });
+        scheduleRefresh();
+      } catch {
+        // Ignore malformed events
+      }
+    };
+
+    for (const type of EVENT_TYPES) {
+      source.addEventListener(type, handleEvent);
+    }
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    return () => {
+      source.close();
+      setConnected(false);
+      if (refreshTimer.current) {
+        clearTimeout(refreshTimer.current);
+        refreshTimer.current = null;
+      }
+    };
+  }, [workflowId, queryClient]);
+
+  return { events, connected };
+}
+
+function EventIcon({ event }: { event: WorkflowEvent }) {
+  const className = "h-3.5 w-3.5 shrink-0 mt-0.5";
+  switch (event.type) {
+    case "query": return <Search className={`${className} text-blue-600`} />;
+    case "excluded": return <Ban className={`${className} text-muted-foreground`} />;
+    case "discovered": return <Search className={`${className} text-muted-foreground`} />;
+    case "name_cleaned": return <Pencil className={`${className} text-muted-foreground`} />;
+    case "scored": return <Gauge className={`${className} text-blue-600`} />;
+    case "approved": return <Check className={`${className} text-green-600`} />;
+    case "review": return <Eye className={`${className} text-orange-600`} />;
+    case "rejected": return <X className={`${className} text-red-600`} />;
+    case "research_step": return <Loader2 className={`${className} text-blue-600`} />;
+    case "saved": return <FileCheck className={`${className} text-green-600`} />;
+    case "budget": return <DollarSign className={`${className} text-orange-600`} />;
+    case "failed": return <AlertTriangle className={`${className} text-red-600`} />;
+    case "status": return <PlayCircle className={`${className} text-primary`} />;
+    default: return <Activity className={`${className} text-muted-foreground`} />;
+  }
+}
+
+export function WorkflowActivityFeed({
+  workflowId,
+  className = "",
+}: {
+  workflowId: number;
+  className?: string;
+}) {
+  const { events, connected } = useWorkflowEvents(workflowId);
+  const newestFirst = [...events].reverse();
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium flex items-center gap-1.5">
+          <Activity className="h-4 w-4" />
+          Live Activity
+        </span>
+        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <span className={`h-2 w-2 rounded-full ${connected ? "bg-green-500" : "bg-gray-400"}`} />
+          {connected ? "Live" : "Connecting..."}
+        </span>
+      </div>
+      <div className="max-h-64 overflow-y-auto rounded-lg border bg-muted/20 p-2 space-y-1">
+        {newestFirst.length === 0 ? (
+          <p className="text-xs text-muted-foreground p-1">Waiting for activity...</p>
+        ) : (
+          newestFirst.map(event => (
+            <div key={event.id} className="flex items-start gap-2 text-xs">
+              <EventIcon event={event} />
+              <span className="flex-1">{event.message}</span>
+              <span className="text-muted-foreground shrink-0">
+                {new Date(event.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" })}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -53,9 +53,13 @@ import {
   ChevronDown,
   ChevronRight,
   Trash2,
+  RefreshCw,
+  History,
 } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/components/ui/use-toast";
+import { ReportVersionHistory } from "@/components/report-version-history";
+import { CostBreakdown } from "@/components/cost-breakdown";
 
 // Types
 type FolderNode = {
@@ -107,6 +111,64 @@ function findNodeById(nodes: FolderNode[], id: number): FolderNode | null {
   return null;
 }
 
+// Library revenue filter bands, matched against the report's point estimate (dollars)
+const REVENUE_BANDS: Record<string, { label: string; min?: number; max?: number }> = {
+  "under-10m": { label: "Under $10M", max: 10e6 },
+  "10m-50m": { label: "$10M-$50M", min: 10e6, max: 50e6 },
+  "50m-150m": { label: "$50M-$150M", min: 50e6, max: 150e6 },
+  "150m-plus": { label: "$150M+", min: 150e6 },
+};
+
+const ESTIMATE_SOURCE_LABELS: Record<string, string> = {
+  claude: "Claude",
+  apollo_headcount: "Apollo headcount",
+  filing: "filing",
+};
+
+const revenuePoint = (report: any): number | null => report.revenueEstimate?.point ?? null;
+
+const SECTION_SOURCE_LABELS: Record<string, string> = {
+  claude: "Claude",
+  uspto: "USPTO",
+  openfda: "openFDA",
+  apollo: "Apollo",
+  legacy: "Imported",
+};
+
+const RECOMMENDATION_LABELS: Record<string, string> = {
+  "buy-side": "Buy-Side",
+  "sell-side": "Sell-Side",
+  dual: "Dual",
+  pass: "Pass",
+};
+
+const KEY_FIGURE_LABELS: Record<string, string> = {
+  estimatedRevenue: "Revenue",
+  employees: "Employees",
+  founded: "Founded",
+  headquarters: "HQ",
+  ownership: "Ownership",
+  valuationRange: "Valuation",
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Print/PDF body — uses stored sections when available, otherwise the raw report
+function renderReportForPrint(report: any): string {
+  if (Array.isArray(report.sections) && report.sections.length > 0) {
+    return report.sections
+      .map((section: any) =>
+        section.sectionKey === "preamble"
+          ? `<pre>${escapeHtml(section.content)}</pre>`
+          : `<h2>${escapeHtml(section.title)}</h2><pre>${escapeHtml(section.content)}</pre>`
+      )
+      .join("");
+  }
+  return `<pre>${escapeHtml(report.report || "")}</pre>`;
+}
+
 function getAncestorIds(flat: any[], id: number): number[] {
   const ids: number[] = [];
   let current = flat.find((f) => f.id === id);
@@ -121,6 +183,7 @@ export default function LibraryPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedFolder, setSelectedFolder] = useState<string>("all");
   const [filterIndustry, setFilterIndustry] = useState<string>("all");
+  const [filterRevenue, setFilterRevenue] = useState<string>("all");
   const [sortBy, setSortBy] = useState<string>("date");
   const [selectedReportId, setSelectedReportId] = useState<number | null>(null);
   const [newFolderDialogOpen, setNewFolderDialogOpen] = useState(false);
@@ -142,9 +205,44 @@ export default function LibraryPage() {
     queryKey: ["/api/folders"],
   });
 
-  const { data: fullReport, isLoading: isLoadingReport } = useQuery({
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { data: fullReport, isLoading: isLoadingReport } = useQuery<any>({
     queryKey: [`/api/reports/${selectedReportId}`],
     enabled: selectedReportId !== null,
+    // Poll while a refresh is in flight so the new version appears when it lands
+    refetchInterval: (query) => {
+      const status = (query.state.data as any)?.refreshStatus;
+      return status === "queued" || status === "running" ? 5000 : false;
+    },
+  });
+
+  const isRefreshing = fullReport?.refreshStatus === "queued" || fullReport?.refreshStatus === "running";
+
+  useEffect(() => {
+    setShowHistory(false);
+  }, [selectedReportId]);
+
+  const refreshReportMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(`/api/reports/${id}/refresh`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to refresh report");
+      }
+      return res.json();
+    },
+    onSuccess: (_data, id) => {
+      toast({ title: "Refresh Queued", description: "The report will be re-researched; the current version is kept in history" });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${id}`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
   });
 
   const createFolderMutation = useMutation({
@@ -281,6 +379,14 @@ export default function LibraryPage() {
       if (filterIndustry !== "all" && report.industry !== filterIndustry) {
         return false;
       }
+      if (filterRevenue !== "all") {
+        const revenue = revenuePoint(report);
+        if (revenue === null) return filterRevenue === "unknown";
+        const band = REVENUE_BANDS[filterRevenue];
+        if (!band || (band.min !== undefined && revenue < band.min) || (band.max !== undefined && revenue >= band.max)) {
+          return false;
+        }
+      }
       return true;
     })
     .sort((a: any, b: any) => {
@@ -290,6 +396,13 @@ export default function LibraryPage() {
       if (sortBy === "name") {
         return a.companyName.localeCompare(b.companyName);
       }
+      if (sortBy === "revenue-desc" || sortBy === "revenue-asc") {
+        // Reports without an estimate sort last either way
+        const revenueA = revenuePoint(a);
+        const revenueB = revenuePoint(b);
+        if (revenueA === null || revenueB === null) return (revenueA === null ? 1 : 0) - (revenueB === null ? 1 : 0);
+        return sortBy === "revenue-desc" ? revenueB - revenueA : revenueA - revenueB;
+      }
       return 0;
     });
 
@@ -453,7 +566,7 @@ export default function LibraryPage() {
           <div className="col-span-12 lg:col-span-9 space-y-4">
             <Card>
               <CardContent className="pt-6">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
@@ -478,6 +591,21 @@ export default function LibraryPage() {
                     </SelectContent>
                   </Select>
 
+                  <Select value={filterRevenue} onValueChange={setFilterRevenue}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any Revenue" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any Revenue</SelectItem>
+                      {Object.entries(REVENUE_BANDS).map(([key, { label }]) => (
+                        <SelectItem key={key} value={key}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="unknown">Revenue Unknown</SelectItem>
+                    </SelectContent>
+                  </Select>
+
                   <Select value={sortBy} onValueChange={setSortBy}>
                     <SelectTrigger>
                       <SelectValue />
@@ -485,6 +613,8 @@ export default function LibraryPage() {
                     <SelectContent>
                       <SelectItem value="date">Date (Newest)</SelectItem>
                       <SelectItem value="name">Name (A-Z)</SelectItem>
+                      <SelectItem value="revenue-desc">Revenue (High-Low)</SelectItem>
+                      <SelectItem value="revenue-asc">Revenue (Low-High)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -592,6 +722,33 @@ export default function LibraryPage() {
                 {fullReport?.companyName || "Loading..."}
               </DialogTitle>
               <div className="flex items-center gap-2">
+                {fullReport && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-black border-gray-300 hover:bg-gray-100"
+                    disabled={isRefreshing || refreshReportMutation.isPending}
+                    onClick={() => refreshReportMutation.mutate(fullReport.id)}
+                  >
+                    {isRefreshing ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-3 w-3 mr-1" />
+                    )}
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
+                  </Button>
+                )}
+                {fullReport?.version > 1 && (
+                  <Button
+                    variant={showHistory ? "default" : "outline"}
+                    size="sm"
+                    className={showHistory ? "" : "text-black border-gray-300 hover:bg-gray-100"}
+                    onClick={() => setShowHistory(!showHistory)}
+                  >
+                    <History className="h-3 w-3 mr-1" />
+                    History
+                  </Button>
+                )}
                 {fullReport?.report && (
                   <Button
                     variant="outline"
@@ -617,7 +774,7 @@ export default function LibraryPage() {
                             ${fullReport.revenueRange ? `Revenue: ${fullReport.revenueRange} | ` : ""}
                             ${fullReport.geographicFocus || ""}
                           </div>
-                          <pre>${fullReport.report.replace(/</g, "&lt;").replace(/>/g, "&gt;")}</pre>
+                          ${renderReportForPrint(fullReport)}
                           </body></html>
                         `);
                         printWindow.document.close();
@@ -652,20 +809,59 @@ export default function LibraryPage() {
                 </a>
               </DialogDescription>
             )}
+            {fullReport && (
+              <p className="text-xs text-muted-foreground">
+                Version {fullReport.version}
+                {fullReport.refreshedAt && ` · refreshed ${new Date(fullReport.refreshedAt).toLocaleDateString()}`}
+                {fullReport.refreshStatus === "failed" && (
+                  <span className="text-red-600"> · last refresh failed</span>
+                )}
+              </p>
+            )}
           </DialogHeader>
 
           <ScrollArea className="max-h-[70vh] pr-4">
+            {fullReport && (
+              <div className="mb-4">
+                <CostBreakdown url={`/api/costs/reports/${fullReport.id}`} title="Research Cost" />
+              </div>
+            )}
+            {showHistory && fullReport?.version > 1 && (
+              <div className="mb-4">
+                <ReportVersionHistory reportId={fullReport.id} currentVersion={fullReport.version} />
+              </div>
+            )}
             {isLoadingReport ? (
               <div className="py-12 text-center">
                 <p className="text-muted-foreground">Loading report...</p>
               </div>
             ) : fullReport?.report ? (
               <>
-                <div className="max-w-none">
-                  <pre className="whitespace-pre-wrap font-sans text-sm bg-white text-black p-4 rounded-lg">
-                    {fullReport.report}
-                  </pre>
-                </div>
+                {Array.isArray(fullReport.sections) && fullReport.sections.length > 0 ? (
+                  <div className="max-w-none space-y-6 p-4">
+                    {fullReport.sections.map((section: any) => (
+                      <section key={section.id ?? section.sectionKey}>
+                        {section.sectionKey !== "preamble" && (
+                          <div className="flex items-center gap-2 mb-2">
+                            <h2 className="text-lg font-semibold text-black">{section.title}</h2>
+                            <Badge variant="outline" className="text-xs text-gray-600">
+                              {SECTION_SOURCE_LABELS[section.source] || section.source}
+                            </Badge>
+                          </div>
+                        )}
+                        <pre className="whitespace-pre-wrap font-sans text-sm bg-white text-black">
+                          {section.content}
+                        </pre>
+                      </section>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="max-w-none">
+                    <pre className="whitespace-pre-wrap font-sans text-sm bg-white text-black p-4 rounded-lg">
+                      {fullReport.report}
+                    </pre>
+                  </div>
+                )}
                 <Separator className="my-6" />
                 {selectedReportId && <OutreachSection reportId={selectedReportId} />}
               </>
@@ -1254,10 +1450,15 @@ function ReportCard({
       <CardContent className="space-y-4">
         <div className="flex flex-wrap gap-2">
           {report.industry && <Badge variant="outline">{report.industry}</Badge>}
-          {report.revenueRange && (
-            <Badge variant="outline">
+          {(report.revenueRange || report.revenueEstimate) && (
+            <Badge
+              variant="outline"
+              title={report.revenueEstimate
+                ? `Estimated by ${ESTIMATE_SOURCE_LABELS[report.revenueEstimate.source] || report.revenueEstimate.source}${report.revenueEstimate.confidence ? ` (${report.revenueEstimate.confidence} confidence)` : ""}`
+                : undefined}
+            >
               <TrendingUp className="h-3 w-3 mr-1" />
-              {report.revenueRange}
+              {report.revenueRange || report.revenueEstimate.text}
             </Badge>
           )}
           {report.geographicFocus && <Badge variant="outline">{report.geographicFocus}</Badge>}
@@ -1275,10 +1476,33 @@ function ReportCard({
           )}
         </div>
 
+        {(report.recommendation || report.confidence) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {report.recommendation && (
+              <Badge variant={report.recommendation === "pass" ? "secondary" : "default"} title={report.recommendationRationale || undefined}>
+                {RECOMMENDATION_LABELS[report.recommendation] || report.recommendation}
+              </Badge>
+            )}
+            {report.confidence && (
+              <Badge variant="outline">{report.confidence} confidence</Badge>
+            )}
+          </div>
+        )}
+
         {report.executiveSummary && (
           <p className="text-sm text-muted-foreground line-clamp-2">{report.executiveSummary}</p>
         )}
 
+        {report.keyFigures && Object.keys(report.keyFigures).length > 0 && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {Object.entries(report.keyFigures).map(([key, value]) => (
+              <span key={key}>
+                <span className="font-medium text-foreground">{KEY_FIGURE_LABELS[key] || key}:</span> {String(value)}
+              </span>
+            ))}
+          </div>
+        )}
+
         <div className="flex items-center justify-between pt-2 border-t">
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             <Clock className="h-3 w-3" />
@@ -30,6 +30,9 @@ import {
   Square,
 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
+import { RecentAutoApprovals, ScoringCalibration } from "@/components/scoring-calibration";
+import { ScoreBreakdown } from "@/components/score-breakdown";
+import { parseRevenueBand } from "../../../server/financial-estimates";
 
 export default function ReviewQueuePage() {
   const queryClient = useQueryClient();
@@ -134,12 +137,10 @@ export default function ReviewQueuePage() {
       return true;
     })
     .sort((a: any, b: any) => {
-      if (sortBy === "score") return b.agentScore - a.agentScore;
+      if (sortBy === "score") return (b.agentScore ?? -1) - (a.agentScore ?? -1);
       if (sortBy === "date") return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
       if (sortBy === "revenue") {
-        const aRev = parseRevenue(a.estimatedRevenue);
-        const bRev = parseRevenue(b.estimatedRevenue);
-        return bRev - aRev;
+        return (revenuePoint(b) ?? -1) - (revenuePoint(a) ?? -1);
       }
       return 0;
     });
@@ -303,6 +304,11 @@ export default function ReviewQueuePage() {
             </CardContent>
           </Card>
         )}
+
+        <div className="mt-6 space-y-6">
+          <ScoringCalibration />
+          <RecentAutoApprovals />
+        </div>
       </div>
     </div>
   );
@@ -362,8 +368,11 @@ function CompanyReviewCard({
             <div className="flex-1">
             <div className="flex items-center gap-3 mb-2">
               <CardTitle className="text-xl">{company.companyName}</CardTitle>
-              <div className={`h-10 w-10 rounded-full ${getScoreColor(company.agentScore)} flex items-center justify-center text-white font-bold`}>
-                {company.agentScore}
+              <div
+                className={`h-10 w-10 rounded-full ${company.agentScore === null ? "bg-gray-400" : getScoreColor(company.agentScore)} flex items-center justify-center text-white font-bold`}
+                title={company.agentScore === null ? "Not scored (budget-deferred)" : undefined}
+              >
+                {company.agentScore ?? "–"}
               </div>
             </div>
             {company.websiteUrl && (
@@ -417,6 +426,8 @@ function CompanyReviewCard({
           <p className="text-sm text-blue-700">{company.scoringReason}</p>
         </div>
 
+        <ScoreBreakdown breakdown={company.scoreBreakdown} />
+
         <div className="flex gap-2 pt-2">
           <Button
             onClick={onApprove}
@@ -441,12 +452,10 @@ function CompanyReviewCard({
   );
 }
 
-function parseRevenue(revenueStr: string): number {
-  if (!revenueStr) return 0;
-  const cleanStr = revenueStr.toLowerCase().replace(/[,$]/g, "");
-  const num = parseFloat(cleanStr);
-  if (cleanStr.includes("b")) return num * 1000000000;
-  if (cleanStr.includes("m")) return num * 1000000;
-  if (cleanStr.includes("k")) return num * 1000;
-  return num;
+// Point estimate in dollars; rows queued before estimates were stored parse their text
+function revenuePoint(company: any): number | null {
+  if (company.revenueEstimate?.point != null) return company.revenueEstimate.point;
+  const band = parseRevenueBand(company.estimatedRevenue);
+  if (!band) return null;
+  return band.low !== null && band.high !== null ? (band.low + band.high) / 2 : band.low ?? band.high;
 }
@@ -8,6 +8,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { CostBreakdown } from "@/components/cost-breakdown";
 import {
   ArrowLeft,
   BarChart3,
@@ -147,6 +148,9 @@ export default function WeeklyIntelligencePage() {
                     </span>
                   )}
                 </div>
+                <div className="basis-full">
+                  <CostBreakdown url={`/api/costs/weekly-scans/${trend.id}`} title="Scan Cost" />
+                </div>
               </div>
             ) : (
               <div className="text-center py-6">
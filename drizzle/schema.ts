@@ -1,4 +1,4 @@
-import { pgTable, serial, text, timestamp, boolean, integer, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, timestamp, boolean, integer, jsonb, uniqueIndex, doublePrecision, index } from "drizzle-orm/pg-core";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 
@@ -18,7 +18,10 @@ export const reports = pgTable("reports", {
   websiteUrl: text("website_url"),
   industry: text("industry"),
   revenueRange: text("revenue_range"),
+  revenueEstimate: jsonb("revenue_estimate"), // FinancialEstimate (server/financial-estimates.ts)
+  employeeEstimate: jsonb("employee_estimate"),
   geographicFocus: text("geographic_focus"),
+  strategy: text("strategy"), // 'buy-side', 'sell-side', 'dual'; what the report was researched for, reused on refresh
   report: text("report"),
   status: text("status"),
   qualityScore: integer("quality_score"),
@@ -26,13 +29,59 @@ export const reports = pgTable("reports", {
   isStarred: boolean("is_starred").default(false),
   folder: text("folder"),
   folderId: integer("folder_id").references(() => folders.id, { onDelete: "set null" }),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
   isArchived: boolean("is_archived").default(false),
+  // Typed summary fields (see server/report-sections.ts)
+  executiveSummary: text("executive_summary"),
+  recommendation: text("recommendation"), // 'buy-side', 'sell-side', 'dual', 'pass'
+  recommendationRationale: text("recommendation_rationale"),
+  confidence: text("confidence"), // 'High', 'Medium', 'Low'
+  keyFigures: jsonb("key_figures"), // { estimatedRevenue, employees, founded, headquarters, ownership, valuationRange }
+  version: integer("version").default(1).notNull(), // Bumped on each refresh; older versions live in report_versions
+  refreshStatus: text("refresh_status"), // null, 'queued', 'running', 'failed'
+  refreshedAt: timestamp("refreshed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Snapshot of a report (summary fields + sections) taken before each refresh overwrites it
+export const reportVersions = pgTable("report_versions", {
+  id: serial("id").primaryKey(),
+  reportId: integer("report_id").references(() => reports.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  report: text("report"),
+  executiveSummary: text("executive_summary"),
+  recommendation: text("recommendation"),
+  recommendationRationale: text("recommendation_rationale"),
+  confidence: text("confidence"),
+  keyFigures: jsonb("key_figures"),
+  qualityScore: integer("quality_score"),
+  contactsFound: integer("contacts_found"),
+  sections: jsonb("sections").notNull(), // [{ sectionKey, title, position, content, source, metadata }]
+  createdAt: timestamp("created_at").defaultNow().notNull(), // When this version was generated
+}, (table) => ({
+  reportVersionUnique: uniqueIndex("report_versions_report_id_version_unique")
+    .on(table.reportId, table.version),
+}));
+
+// One row per report section — the 11 canonical sections plus enhancer sections (patents, FDA)
+export const reportSections = pgTable("report_sections", {
+  id: serial("id").primaryKey(),
+  reportId: integer("report_id").references(() => reports.id, { onDelete: "cascade" }).notNull(),
+  sectionKey: text("section_key").notNull(), // 'executive_summary', ..., 'next_steps', 'patents', 'fda'
+  title: text("title").notNull(),
+  position: integer("position").notNull(),
+  content: text("content").notNull(),
+  source: text("source").notNull(), // 'claude', 'uspto', 'openfda', 'apollo', 'legacy'
+  metadata: jsonb("metadata"), // model, generatedAt, chars
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  reportSectionUnique: uniqueIndex("report_sections_report_id_section_key_unique")
+    .on(table.reportId, table.sectionKey),
+}));
+
 export const agentWorkflows = pgTable("agent_workflows", {
   id: serial("id").primaryKey(),
-  status: text("status").notNull(),
+  status: text("status").notNull(), // 'running', 'paused', 'completed', 'failed', 'cancelled'
   triggerType: text("trigger_type").notNull(),
   searchCriteria: jsonb("search_criteria").notNull(),
   companiesFound: integer("companies_found").default(0),
@@ -40,22 +89,56 @@ export const agentWorkflows = pgTable("agent_workflows", {
   companiesAutoApproved: integer("companies_auto_approved").default(0),
   companiesManualReview: integer("companies_manual_review").default(0),
   companiesResearched: integer("companies_researched").default(0),
+  companiesAlreadyKnown: integer("companies_already_known").default(0), // Found but skipped by findExistingCompany (yield decay)
+  exclusionCounts: jsonb("exclusion_counts"), // Results dropped per exclusion list, e.g. { "global:domain": 4, "config:competitor": 1 }
+  queryYield: jsonb("query_yield"), // Per discovery query: results, companies, new, auto-approved (see server/discovery-queries.ts)
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
-  parametersUnchangedCount: integer("parameters_unchanged_count").default(0),
-  lastParameterUpdate: timestamp("last_parameter_update").defaultNow(),
+  parametersUnchangedCount: integer("parameters_unchanged_count").default(0), // Runs in a row on this config version, this one included
+  lastParameterUpdate: timestamp("last_parameter_update").defaultNow(), // When that version was saved
+  configId: integer("config_id"),
+  configVersionId: integer("config_version_id").references(() => agentConfigVersions.id, { onDelete: "set null" }), // Exact config version the run used
+  currentStep: text("current_step"),
+  budget: jsonb("budget"), // Snapshot of the config's budget when the run started (see server/budget.ts)
+  budgetStatus: text("budget_status"), // null (within budget) | 'exceeded'
+  budgetExceededReason: text("budget_exceeded_reason"),
+});
+
+// Durable job queue — each workflow step is a persisted job so work survives restarts
+export const workflowJobs = pgTable("workflow_jobs", {
+  id: serial("id").primaryKey(),
+  workflowId: integer("workflow_id").references(() => agentWorkflows.id, { onDelete: "cascade" }),
+  step: text("step").notNull(), // 'discover', 'extract_names', 'score', 'approve', 'research', 'finalize', 'refresh_report'
+  jobKey: text("job_key").unique(), // Dedupe key so re-enqueueing a step is a no-op
+  status: text("status").notNull().default("queued"), // 'queued', 'running', 'completed', 'failed', 'paused', 'cancelled'
+  payload: jsonb("payload"),
+  checkpoint: jsonb("checkpoint"), // Partial progress saved mid-step (e.g. companies already scored)
+  result: jsonb("result"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  priority: integer("priority").notNull().default(0), // Higher runs first (see research-scheduler.ts)
+  lastError: text("last_error"),
+  runAfter: timestamp("run_after").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const discoveryQueue = pgTable("discovery_queue", {
   id: serial("id").primaryKey(),
   workflowId: integer("workflow_id").references(() => agentWorkflows.id),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
   companyName: text("company_name").notNull(),
   websiteUrl: text("website_url").notNull(),
   description: text("description"),
-  agentScore: integer("agent_score").notNull(),
+  foundByQueries: jsonb("found_by_queries"), // Discovery query strings that returned this company
+  agentScore: integer("agent_score"), // null when the company was budget-deferred before it could be scored
   scoringReason: text("scoring_reason"),
   confidence: text("confidence"),
   estimatedRevenue: text("estimated_revenue"),
+  revenueEstimate: jsonb("revenue_estimate"), // Numeric band parsed from estimated_revenue (server/financial-estimates.ts)
   industry: text("industry"),
   geographicFocus: text("geographic_focus"),
   recentActivity: text("recent_activity"),
@@ -64,6 +147,11 @@ export const discoveryQueue = pgTable("discovery_queue", {
   approvedAt: timestamp("approved_at"),
   researchStatus: text("research_status"),
   reportId: integer("report_id").references(() => reports.id),
+  budgetDeferred: boolean("budget_deferred").notNull().default(false), // Sent to review because the run hit a budget cap
+  scoreBreakdown: jsonb("score_breakdown"), // Rubric sub-scores, weights and weighted score (server/scoring-rubric.ts)
+  agentDecision: text("agent_decision"), // What the approval rules decided: approve, review or reject (null if never scored)
+  reviewDecision: text("review_decision"), // A reviewer's call: approved or rejected (feeds scoring calibration)
+  reviewedAt: timestamp("reviewed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -73,19 +161,52 @@ export const agentConfigurations = pgTable("agent_config", {
   searchCriteria: jsonb("search_criteria").notNull(),
   autoApprovalRules: jsonb("auto_approval_rules").notNull(),
   schedule: text("schedule"),
+  timezone: text("timezone"), // IANA zone the schedule runs in; null uses SCHEDULE_TIMEZONE
   isActive: boolean("is_active").default(true),
   alertAfterUnchangedRuns: integer("alert_after_unchanged_runs").default(3),
+  budget: jsonb("budget"), // { maxRunCostUsd, maxMonthlyCostUsd, maxResearchPerRun }, all optional
+  scoringWeights: jsonb("scoring_weights"), // Rubric weights per criterion; missing ones use the defaults
+  investmentThesis: jsonb("investment_thesis"), // { summary, strategicGoals, mustHaves, dealBreakers, priorAcquisitions }, all optional text
+  currentVersion: integer("current_version"), // Latest agent_config_versions.version
   lastRunAt: timestamp("last_run_at"),
   timesRunUnchanged: integer("times_run_unchanged").default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Immutable snapshot of a config's run settings, written on every edit (see server/config-versions.ts)
+export const agentConfigVersions = pgTable("agent_config_versions", {
+  id: serial("id").primaryKey(),
+  configId: integer("config_id").references(() => agentConfigurations.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  settings: jsonb("settings").notNull(), // { name, searchCriteria, autoApprovalRules, schedule, budget, scoringWeights, ... }
+  author: text("author").notNull(),
+  note: text("note"), // 'Created', 'Reverted to v2', or the editor's change note
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  configVersionUnique: uniqueIndex("agent_config_versions_config_id_version_unique")
+    .on(table.configId, table.version),
+}));
+
+// Discovery exclusion lists (see server/exclusions.ts); config_id null means the entry applies to every config
+export const exclusionEntries = pgTable("exclusion_entries", {
+  id: serial("id").primaryKey(),
+  configId: integer("config_id").references(() => agentConfigurations.id, { onDelete: "cascade" }),
+  list: text("list").notNull(), // 'domain' | 'company' | 'competitor' | 'pattern' | 'passed'
+  value: text("value").notNull(), // Root domain, company name (or domain), or case-insensitive regex
+  note: text("note"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  configIdx: index("exclusion_entries_config_idx").on(table.configId),
+}));
+
 export const outreachStyles = pgTable("outreach_styles", {
   id: serial("id").primaryKey(),
   originalMessage: text("original_message").notNull(),
   editedMessage: text("edited_message"),
   reportId: integer("report_id").references(() => reports.id),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
   strategy: text("strategy"),
   wasEdited: boolean("was_edited").default(false),
   wasSent: boolean("was_sent").default(false),
@@ -96,17 +217,34 @@ export const outreachStyles = pgTable("outreach_styles", {
 // Add workflows table alias for compatibility
 export const workflows = agentWorkflows;
 
-// Add companies table for storage compatibility
+// Canonical company registry (see server/company-registry.ts). Queue items, reports,
+// target contacts and outreach link here so one company has one timeline across agents.
 export const companies = pgTable("companies", {
   id: serial("id").primaryKey(),
   configId: integer("config_id").references(() => agentConfigurations.id),
   name: text("name").notNull(),
+  normalizedName: text("normalized_name"), // Legal suffixes stripped, abbreviations expanded
+  domain: text("domain").unique(), // Normalized root domain, e.g. "acme.com" — the primary key for matching
   websiteUrl: text("website_url"),
   industry: text("industry"),
   revenue: text("revenue"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Other names a company has been seen under ("Acme Mfg, Inc.", "ACME Manufacturing")
+export const companyAliases = pgTable("company_aliases", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  alias: text("alias").notNull(),
+  normalizedAlias: text("normalized_alias").notNull(),
+  source: text("source"), // 'discovery', 'direct', 'weekly_intelligence', 'manual', 'merge', 'backfill'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  companyAliasUnique: uniqueIndex("company_aliases_company_id_normalized_alias_unique")
+    .on(table.companyId, table.normalizedAlias),
+}));
+
 // Add researchReports alias for storage compatibility
 export const researchReports = reports;
 
@@ -159,12 +297,15 @@ export const sectorNewsletters = pgTable("sector_newsletters", {
 export const targetContacts = pgTable("target_contacts", {
   id: serial("id").primaryKey(),
   sectorId: integer("sector_id").references(() => hotSectors.id),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
   companyName: text("company_name").notNull(),
   contactName: text("contact_name"),
   contactEmail: text("contact_email"),
   contactPhone: text("contact_phone"),
   companyWebsite: text("company_website"),
   estimatedRevenue: text("estimated_revenue"),
+  revenueEstimate: jsonb("revenue_estimate"), // FinancialEstimate (server/financial-estimates.ts)
+  employeeEstimate: jsonb("employee_estimate"), // Apollo headcount
   ownershipType: text("ownership_type"),
   sourceWorkflow: text("source_workflow").default("weekly_intelligence"),
   enrichmentStatus: text("enrichment_status").default("pending"),
@@ -184,3 +325,42 @@ export const exaCache = pgTable("exa_cache", {
   expiresAt: timestamp("expires_at").notNull(), // When cache expires
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
+
+// One row per billable API call (see server/cost-tracker.ts). Attribution ids
+// are nulled rather than cascaded so monthly totals survive deletes.
+export const apiUsage = pgTable("api_usage", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(), // 'anthropic', 'exa', 'apollo', 'mock'
+  operation: text("operation").notNull(), // LLM step ('scoring', 'research', ...) or API endpoint ('search', 'people_search', ...)
+  model: text("model"),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  webSearches: integer("web_searches").notNull().default(0),
+  requests: integer("requests").notNull().default(1),
+  cacheHit: boolean("cache_hit").notNull().default(false),
+  costUsd: doublePrecision("cost_usd").notNull().default(0),
+  workflowId: integer("workflow_id").references(() => agentWorkflows.id, { onDelete: "set null" }),
+  reportId: integer("report_id").references(() => reports.id, { onDelete: "set null" }),
+  queueId: integer("queue_id"), // Research in progress; copied to report_id once the report exists
+  weeklyTrendId: integer("weekly_trend_id").references(() => weeklyTrends.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workflowIdx: index("api_usage_workflow_idx").on(table.workflowId),
+  reportIdx: index("api_usage_report_idx").on(table.reportId),
+  createdAtIdx: index("api_usage_created_at_idx").on(table.createdAt),
+}));
+
+// Operator alerts (budget caps hit, etc.), shown on the dashboard until acknowledged
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // 'budget_exceeded' | 'stale_parameters'
+  severity: text("severity").notNull().default("warning"), // 'info' | 'warning' | 'critical'
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  configId: integer("config_id").references(() => agentConfigurations.id, { onDelete: "set null" }),
+  workflowId: integer("workflow_id").references(() => agentWorkflows.id, { onDelete: "set null" }),
+  data: jsonb("data"),
+  dedupeKey: text("dedupe_key").unique(), // Raising the same alert twice is a no-op
+  acknowledgedAt: timestamp("acknowledged_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -1,47 +1,69 @@
-import Anthropic from "@anthropic-ai/sdk";
 import { db, discoveryQueue, reports } from "../drizzle/schema";
 import { eq } from "drizzle-orm";
 import { enrichResearchWithApollo } from "./apollo-enrichment";
 import { addPatentIntelligence, evaluatePatentUpside } from "./uspto-patents";
 import { addFDAIntelligence } from "./fda-data";
-import { cachedExaSearch } from "./exa-cache";
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  label: string,
-  maxRetries = 3,
-  baseDelayMs = 1000
-): Promise<T> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      const isRetryable =
-        error?.status === 429 ||
-        error?.status === 502 ||
-        error?.status === 503 ||
-        error?.message?.includes('ECONNRESET') ||
-        error?.message?.includes('ETIMEDOUT') ||
-        error?.message?.includes('overloaded');
-
-      if (!isRetryable || attempt === maxRetries) {
-        console.error(`[Retry] ${label} failed after ${attempt} attempt(s):`, error?.message || error);
-        throw error;
-      }
-
-      const delay = baseDelayMs * Math.pow(2, attempt - 1);
-      console.warn(`[Retry] ${label} attempt ${attempt} failed (${error?.status || error?.message}), retrying in ${delay}ms...`);
-      await new Promise(r => setTimeout(r, delay));
-    }
-  }
-  throw new Error(`${label} failed after ${maxRetries} retries`);
-}
-
-// NO exa-js import - using direct API calls
+import { cachedSearch } from "./exa-cache";
+import { getSearchProvider } from "./search-provider";
+import { budgetGuard, normalizeBudget } from "./budget";
+import { costTracker, type CostScope } from "./cost-tracker";
+import {
+  type DiscoveryPreview,
+  type PhaseSpend,
+  type PreviewCompany,
+  PREVIEW_SAMPLE_SIZE,
+  countOutcomes,
+  estimateRunCost,
+} from "./discovery-preview";
+import { llm } from "./llm-gateway";
+import { jobQueue, WorkflowHaltedError, type JobSpec, type WorkflowJob } from "./job-queue";
+import { researchScheduler, type ResearchPriority } from "./research-scheduler";
+import { workflowEvents } from "./workflow-events";
+import { companyRegistry, normalizeCompanyName, normalizeDomain } from "./company-registry";
+import { configVersions } from "./config-versions";
+import { staleParameters } from "./stale-parameters";
+import { scoringFeedback } from "./scoring-feedback";
+import { exclusions, mergeExclusionCounts, totalExcluded, type ExclusionCounts } from "./exclusions";
+import { formatThesisForPrompt, investmentTheses, normalizeInvestmentThesis, type InvestmentThesis } from "./investment-thesis";
+import {
+  type ScoringWeights,
+  computeWeightedScore,
+  describeRubric,
+  parseSubScores,
+  resolveScoringWeights,
+} from "./scoring-rubric";
+import {
+  type DiscoveryQuery,
+  type QueryTallyField,
+  type QueryYield,
+  clampVariantCount,
+  mergeAttribution,
+  mergeQueryResults,
+  parseQueryVariants,
+  resultsPerQuery,
+  tallyQueryYield,
+} from "./discovery-queries";
+import {
+  REPORT_SUMMARY_INSTRUCTIONS,
+  buildLegacySections,
+  buildReportSections,
+  extractReportSummary,
+  scoreSectionQuality,
+  summarizeExecutiveSummary,
+  type ReportSection,
+  type ReportSummary,
+} from "./report-sections";
+
+import {
+  type AutoApprovalRules,
+  evaluateApprovalRules,
+  formatDecisionReason,
+  candidateRevenue,
+  resolveApprovalRules,
+} from "./auto-approval";
+import { parseRevenueEstimate, reportEstimates, type FinancialEstimate } from "./financial-estimates";
+
+// Web search goes through the pluggable provider in search-provider.ts (Exa by default)
 
 interface SearchCriteria {
   query: string;
@@ -55,17 +77,31 @@ interface SearchCriteria {
   fundingStatus?: string[];
   growthStatus?: string[];
   peFilter?: "pe-backed" | "not-pe-backed" | "both";
+  queryVariants?: number; // Claude-generated query variants run alongside the base query (default 4)
+  scoringWeights?: Partial<ScoringWeights>; // Rubric weights, snapshotted from the config when a run starts
+  investmentThesis?: InvestmentThesis | null; // Snapshotted from the config like the weights (see investment-thesis.ts)
+}
+
+interface ScoringCheckpoint {
+  processed: number;
+  scored: any[];
 }
 
-interface AutoApprovalRules {
-  minScore: number;
-  requiredConfidence: "High" | "Medium" | "Low";
-  requiredIndustries?: string[];
-  requiredRevenueRange?: string;
+interface ResearchResult {
+  finalReport: string;
+  sections: ReportSection[];
+  summary: ReportSummary;
+  qualityScore: number;
+  contactsFound: number;
 }
 
 export class AgentOrchestrator {
-  async runDiscoveryWorkflow(configId: number): Promise<number> {
+  /**
+   * Create a workflow and enqueue its first step. Each step runs as a durable
+   * job (see job-queue.ts) and enqueues the next one when it finishes, so a
+   * restart resumes from the last completed step.
+   */
+  async runDiscoveryWorkflow(configId: number, triggerType: 'scheduled' | 'manual' = 'scheduled'): Promise<number> {
     console.log(`[Agent] Starting discovery workflow for config ${configId}`);
 
     // Import storage functions here to avoid circular dependencies
@@ -76,122 +112,691 @@ export class AgentOrchestrator {
       throw new Error(`Config ${configId} not found`);
     }
 
+    const version = await configVersions.ensureCurrent(config);
+    const unchangedRuns = await staleParameters.countUnchangedRuns(configId, version.id);
+    const criteria = {
+      ...(config.searchCriteria as SearchCriteria),
+      scoringWeights: resolveScoringWeights(config.scoringWeights),
+      investmentThesis: normalizeInvestmentThesis(config.investmentThesis),
+    };
     const workflow = await storage.createWorkflow({
       status: "running",
-      triggerType: "scheduled",
-      searchCriteria: config.searchCriteria,
+      triggerType,
+      configId,
+      configVersionId: version.id,
+      parametersUnchangedCount: unchangedRuns,
+      lastParameterUpdate: version.createdAt,
+      currentStep: "discover",
+      searchCriteria: criteria,
       companiesFound: 0,
       companiesScored: 0,
       companiesAutoApproved: 0,
       companiesManualReview: 0,
       companiesResearched: 0,
+      budget: normalizeBudget(config.budget),
+    });
+    await storage.recordConfigRun(configId, unchangedRuns);
+
+    // Snapshot criteria, scoring weights and rules so edits to the config don't change a run in flight
+    await jobQueue.enqueue("discover", {
+      criteria,
+      autoApprovalRules: config.autoApprovalRules,
+    }, {
+      workflowId: workflow.id,
+      jobKey: `wf:${workflow.id}:discover`,
     });
 
-    try {
-      const companies = await this.discoverCompanies(config.searchCriteria);
-      await storage.updateWorkflow(workflow.id, {
-        companiesFound: companies.length,
+    console.log(`[Agent] Workflow ${workflow.id} queued (config ${configId} v${version.version})`);
+    workflowEvents.emit(workflow.id, "status", `Discovery workflow started for "${config.name}" (v${version.version})`, { data: { status: "running" } });
+    return workflow.id;
+  }
+
+  /**
+   * Register a handler for every workflow step. Called once at startup before
+   * the job worker starts.
+   */
+  registerJobHandlers() {
+    const failWorkflow = async (job: WorkflowJob, error: any) => {
+      if (!job.workflowId) return;
+      const { storage } = await import("./storage");
+      const workflow = await storage.getWorkflow(job.workflowId);
+      if (workflow?.status === "cancelled") return;
+      console.error(`[Agent] Workflow ${job.workflowId} FAILED at ${job.step}:`, error?.message || error);
+      workflowEvents.emit(job.workflowId, "status", `Workflow failed at ${job.step}: ${error?.message || error}`, { data: { status: "failed" } });
+      await storage.updateWorkflow(job.workflowId, {
+        status: "failed",
+        completedAt: new Date(),
       });
+    };
 
-      const scoredCompanies = await this.scoreCompanies(companies, config.searchCriteria, workflow.id);
+    jobQueue.register("discover", {
+      run: async (job) => {
+        await this.assertWorkflowActive(job.workflowId!);
+        const { criteria, autoApprovalRules } = job.payload as any;
+        const { storage } = await import("./storage");
+        // A config already at its monthly cap doesn't search at all
+        const budget = await budgetGuard.checkSpend(job.workflowId!);
+        if (budget.exceeded) {
+          return {
+            result: { budgetExceeded: budget.reason },
+            next: [{ step: "finalize", jobKey: `wf:${job.workflowId}:finalize`, payload: {} }],
+          };
+        }
+        await this.setCurrentStep(job.workflowId!, "discover");
+        const { results, queryYield } = await this.searchCompanies(criteria, job.workflowId!);
+        await storage.updateWorkflow(job.workflowId!, { queryYield });
+        const kept = await this.applyExclusions(results, job.workflowId!, "search result");
+        return {
+          result: { resultsFound: results.length, excluded: results.length - kept.length, queries: queryYield.length },
+          next: [{
+            step: "extract_names",
+            jobKey: `wf:${job.workflowId}:extract_names`,
+            payload: { criteria, autoApprovalRules, companies: kept },
+          }],
+        };
+      },
+      onFailure: failWorkflow,
+    });
 
-      const { autoApproved, needsReview } = await this.applyAutoApproval(
-        scoredCompanies,
-        config.autoApprovalRules,
-        workflow.id,
-        config.searchCriteria.strategy || 'buy-side',
-        config.searchCriteria.peFilter
-      );
+    jobQueue.register("extract_names", {
+      run: async (job) => {
+        await this.assertWorkflowActive(job.workflowId!);
+        const { criteria, autoApprovalRules, companies } = job.payload as any;
+        const { storage } = await import("./storage");
+        await this.setCurrentStep(job.workflowId!, "extract_names");
+        const newCompanies = await this.prepareDiscoveredCompanies(companies, job.workflowId!);
+        await storage.updateWorkflow(job.workflowId!, {
+          companiesFound: newCompanies.length,
+        });
+        return {
+          result: { companiesFound: newCompanies.length },
+          next: [{
+            step: "score",
+            jobKey: `wf:${job.workflowId}:score`,
+            payload: { criteria, autoApprovalRules, companies: newCompanies },
+          }],
+        };
+      },
+      onFailure: failWorkflow,
+    });
 
-      await storage.updateWorkflow(workflow.id, {
-        companiesAutoApproved: autoApproved.length,
-        companiesManualReview: needsReview.length,
-      });
+    jobQueue.register("score", {
+      run: async (job, ctx) => {
+        await this.assertWorkflowActive(job.workflowId!);
+        const { criteria, autoApprovalRules, companies } = job.payload as any;
+        await this.setCurrentStep(job.workflowId!, "score");
+        const scoredCompanies = await this.scoreCompanies(
+          companies,
+          criteria,
+          job.workflowId!,
+          job.checkpoint as ScoringCheckpoint | null,
+          (checkpoint) => ctx.saveCheckpoint(checkpoint)
+        );
+        return {
+          result: { companiesPassed: scoredCompanies.length },
+          next: [{
+            step: "approve",
+            jobKey: `wf:${job.workflowId}:approve`,
+            payload: { criteria, autoApprovalRules, companies: scoredCompanies },
+          }],
+        };
+      },
+      onFailure: failWorkflow,
+    });
 
-      // Research in parallel batches of 3 to reduce total workflow time
-      let researched = 0;
-      const BATCH_SIZE = 3;
-      const strategy = config.searchCriteria.strategy || 'buy-side';
+    jobQueue.register("approve", {
+      run: async (job) => {
+        await this.assertWorkflowActive(job.workflowId!);
+        const { criteria, autoApprovalRules, companies } = job.payload as any;
+        const { storage } = await import("./storage");
+        await this.setCurrentStep(job.workflowId!, "approve");
+        const strategy = criteria.strategy || 'buy-side';
+
+        const { autoApproved, needsReview } = await this.applyAutoApproval(
+          companies,
+          autoApprovalRules,
+          job.workflowId!,
+          strategy,
+          criteria.peFilter
+        );
 
-      for (let i = 0; i < autoApproved.length; i += BATCH_SIZE) {
-        const batch = autoApproved.slice(i, i + BATCH_SIZE);
-        console.log(`[Agent] Research batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(autoApproved.length / BATCH_SIZE)}: ${batch.map(c => c.title).join(', ')}`);
+        await storage.updateWorkflow(job.workflowId!, {
+          companiesAutoApproved: autoApproved.length,
+          companiesManualReview: needsReview.length,
+        });
+        await this.updateQueryYield(job.workflowId!, autoApproved, "autoApproved");
+
+        return {
+          result: { autoApproved: autoApproved.length, needsReview: needsReview.length },
+          next: [
+            ...autoApproved.map(company => this.researchJobSpec(job.workflowId!, company.queueId, strategy, "auto")),
+            { step: "finalize", jobKey: `wf:${job.workflowId}:finalize`, payload: {} },
+          ],
+        };
+      },
+      onFailure: failWorkflow,
+    });
 
-        const results = await Promise.allSettled(
-          batch.map(company => this.researchCompany(company, workflow.id, strategy))
-        );
+    jobQueue.register("research", {
+      run: async (job) => {
+        const { queueId, strategy, manual } = job.payload as any;
+        // Manual approvals are explicit requests and run even if their original workflow was stopped
+        if (job.workflowId && !manual) await this.assertWorkflowActive(job.workflowId);
+        const { storage } = await import("./storage");
+
+        // A retry after a crash may find the report already written
+        const queueItem = await storage.getDiscoveryItem(queueId);
+        if (queueItem?.researchStatus === "completed" && queueItem.reportId) {
+          console.log(`[Agent] Research for queue ${queueId} already completed (report ${queueItem.reportId}), skipping`);
+          return { result: { reportId: queueItem.reportId } };
+        }
 
-        for (let j = 0; j < results.length; j++) {
-          if (results[j].status === 'fulfilled') {
-            researched++;
-          } else {
-            console.error(`[Agent] Research failed for ${batch[j].title}:`, (results[j] as PromiseRejectedResult).reason);
+        // Auto-approved companies queued before the run went over budget wait for a reviewer instead
+        if (job.workflowId && !manual) {
+          const budget = await budgetGuard.checkSpend(job.workflowId);
+          if (budget.exceeded && queueItem) {
+            await budgetGuard.deferToReview(job.workflowId, queueId, queueItem.companyName, budget.reason!);
+            return { result: { budgetDeferred: true } };
           }
         }
 
-        // Update progress after each batch
-        await storage.updateWorkflow(workflow.id, { companiesResearched: researched });
-      }
+        if (job.workflowId) await this.setCurrentStep(job.workflowId, "research");
+        await this.researchCompanyById(queueId, strategy);
+        if (job.workflowId) await this.refreshResearchedCount(job.workflowId);
 
-      await storage.updateWorkflow(workflow.id, {
-        companiesResearched: researched,
-        status: "completed",
-        completedAt: new Date(),
-      });
+        const updated = await storage.getDiscoveryItem(queueId);
+        return { result: { reportId: updated?.reportId ?? null } };
+      },
+    });
 
-      console.log(`[Agent] Workflow ${workflow.id} complete: ${researched} companies researched, ${needsReview.length} need review`);
-      return workflow.id;
-    } catch (error: any) {
-      console.error(`[Agent] Workflow ${workflow.id} FAILED:`, error?.message || error);
-      await storage.updateWorkflow(workflow.id, {
-        status: "failed",
-        completedAt: new Date(),
-      });
-      throw error;
+    jobQueue.register("finalize", {
+      run: async (job) => {
+        await this.assertWorkflowActive(job.workflowId!);
+        const { storage } = await import("./storage");
+        const outstanding = await jobQueue.countOutstandingJobs(job.workflowId!, "research");
+        if (outstanding > 0) {
+          return { deferMs: 5000 };
+        }
+
+        const researched = await this.refreshResearchedCount(job.workflowId!);
+        await storage.updateWorkflow(job.workflowId!, {
+          status: "completed",
+          currentStep: null,
+          completedAt: new Date(),
+        });
+
+        const workflow = await storage.getWorkflow(job.workflowId!);
+        const budgetNote = workflow?.budgetExceededReason ? ` (budget: ${workflow.budgetExceededReason})` : "";
+        console.log(`[Agent] Workflow ${job.workflowId} complete: ${researched} companies researched${budgetNote}`);
+        workflowEvents.emit(job.workflowId, "status", `Workflow complete: ${researched} companies researched${budgetNote}`, { data: { status: "completed" } });
+
+        // The run is done either way; a failed staleness check shouldn't fail it
+        try {
+          await staleParameters.checkAfterRun(job.workflowId!);
+        } catch (error: any) {
+          console.warn(`[Agent] Stale-parameter check for workflow ${job.workflowId} failed:`, error?.message);
+        }
+        return { result: { companiesResearched: researched } };
+      },
+      onFailure: failWorkflow,
+    });
+
+    // Report refreshes run outside any workflow
+    jobQueue.register("refresh_report", {
+      run: async (job) => {
+        const { reportId, strategy } = job.payload as any;
+        return { result: await this.refreshReport(reportId, strategy) };
+      },
+      onFailure: async (job, error) => {
+        const { storage } = await import("./storage");
+        const { reportId } = job.payload as any;
+        console.error(`[Agent] Refresh of report ${reportId} FAILED:`, error?.message || error);
+        await storage.updateReport(reportId, { refreshStatus: "failed" });
+      },
+    });
+  }
+
+  private researchJobSpec(workflowId: number, queueId: number, strategy: string, priority: ResearchPriority): JobSpec {
+    return {
+      step: "research",
+      workflowId,
+      jobKey: `wf:${workflowId}:research:${queueId}`,
+      payload: { queueId, strategy },
+      maxAttempts: 2,
+      priority: researchScheduler.priority(priority),
+    };
+  }
+
+  /**
+   * Queue research for a manually approved company. Manual approvals can be
+   * retried, so these jobs carry no dedupe key.
+   */
+  async enqueueResearch(queueId: number, strategy: 'buy-side' | 'sell-side' | 'dual' = 'buy-side'): Promise<void> {
+    const { storage } = await import("./storage");
+    const queueItem = await storage.getDiscoveryItem(queueId);
+    if (!queueItem) {
+      throw new Error(`Queue item ${queueId} not found`);
     }
+    await jobQueue.enqueue("research", { queueId, strategy, manual: true }, {
+      workflowId: queueItem.workflowId,
+      maxAttempts: 2,
+      priority: researchScheduler.priority("manual"),
+    });
   }
 
-  private async discoverCompanies(criteria: SearchCriteria): Promise<any[]> {
-    console.log("[Agent] Discovering companies with Exa (with caching)...");
+  /**
+   * Queue a re-run of the research pipeline for an existing report. The
+   * current version is archived to report_versions when the refresh lands.
+   * Without a strategy the report is refreshed for the one it was researched for.
+   */
+  async enqueueReportRefresh(reportId: number, strategy?: 'buy-side' | 'sell-side' | 'dual'): Promise<void> {
+    const { storage } = await import("./storage");
+    strategy = strategy || await this.reportStrategy(reportId);
+    await storage.updateReport(reportId, { refreshStatus: "queued" });
+    await jobQueue.enqueue("refresh_report", { reportId, strategy }, {
+      maxAttempts: 2,
+      priority: researchScheduler.priority("manual"),
+    });
+    console.log(`[Agent] Refresh queued for report ${reportId} (strategy: ${strategy})`);
+  }
+
+  // Reports saved before strategies were stored fall back to the run that discovered the company
+  private async reportStrategy(reportId: number): Promise<'buy-side' | 'sell-side' | 'dual'> {
+    const { storage } = await import("./storage");
+    const report = await storage.getReportById(reportId);
+    if (report?.strategy) return report.strategy as 'buy-side' | 'sell-side' | 'dual';
+    const queueItem = await storage.getDiscoveryItemByReportId(reportId);
+    const workflow = queueItem?.workflowId ? await storage.getWorkflow(queueItem.workflowId) : null;
+    return (workflow?.searchCriteria as SearchCriteria | null)?.strategy || 'buy-side';
+  }
 
-    const query = this.buildExaQuery(criteria);
+  async pauseWorkflow(workflowId: number): Promise<void> {
+    const { storage } = await import("./storage");
+    await storage.updateWorkflow(workflowId, { status: "paused" });
+    const parked = await jobQueue.setWorkflowJobStatus(workflowId, ["queued"], "paused");
+    console.log(`[Agent] Workflow ${workflowId} paused (${parked} queued job(s) parked)`);
+    workflowEvents.emit(workflowId, "status", "Workflow paused", { data: { status: "paused" } });
+  }
 
-    console.log("[Agent] Searching with query:", query);
+  async resumeWorkflow(workflowId: number): Promise<void> {
+    const { storage } = await import("./storage");
+    await storage.updateWorkflow(workflowId, { status: "running" });
+    const released = await jobQueue.setWorkflowJobStatus(workflowId, ["paused"], "queued");
+    console.log(`[Agent] Workflow ${workflowId} resumed (${released} job(s) requeued)`);
+    workflowEvents.emit(workflowId, "status", "Workflow resumed", { data: { status: "running" } });
+  }
 
-    // Use cached Exa search to reduce API calls
-    const data = await withRetry(
-      () => cachedExaSearch({
-        query,
-        numResults: criteria.maxResults || 35,
-        type: 'neural',
-        useAutoprompt: true,
-        contents: {
-          text: {
-            maxCharacters: 1000
-          }
+  async cancelWorkflow(workflowId: number): Promise<void> {
+    const { storage } = await import("./storage");
+    await storage.updateWorkflow(workflowId, {
+      status: "cancelled",
+      completedAt: new Date(),
+    });
+    const cancelled = await jobQueue.setWorkflowJobStatus(workflowId, ["queued", "paused"], "cancelled");
+    await this.refreshResearchedCount(workflowId);
+    console.log(`[Agent] Workflow ${workflowId} cancelled (${cancelled} pending job(s) dropped)`);
+    workflowEvents.emit(workflowId, "status", "Workflow cancelled", { data: { status: "cancelled" } });
+  }
+
+  /**
+   * Checked between companies and at the start of every step. Throws
+   * WorkflowHaltedError so the job queue parks the job instead of failing it.
+   */
+  private async assertWorkflowActive(workflowId: number) {
+    const { storage } = await import("./storage");
+    const workflow = await storage.getWorkflow(workflowId);
+    if (workflow?.status === "paused" || workflow?.status === "cancelled") {
+      throw new WorkflowHaltedError(workflowId, workflow.status);
+    }
+  }
+
+  private async setCurrentStep(workflowId: number, step: string) {
+    const { storage } = await import("./storage");
+    const workflow = await storage.getWorkflow(workflowId);
+    if (workflow?.currentStep === step) return;
+    await storage.updateWorkflow(workflowId, { currentStep: step });
+    workflowEvents.emit(workflowId, "step", `Step: ${step.replace(/_/g, " ")}`, { data: { step } });
+  }
+
+  private async refreshResearchedCount(workflowId: number): Promise<number> {
+    const { storage } = await import("./storage");
+    const items = await storage.getDiscoveryQueue(workflowId);
+    const researched = items.filter(item => item.researchStatus === "completed").length;
+    await storage.updateWorkflow(workflowId, { companiesResearched: researched });
+    return researched;
+  }
+
+  /**
+   * Dry run of a (possibly unsaved) config: expand the queries, search a small
+   * sample with the base query, then extract names, score and apply the
+   * approval rules exactly as a run would. Nothing is written to
+   * discovery_queue, reports or the company registry; the calls are still
+   * billed and recorded in api_usage, unattributed.
+   */
+  async previewDiscovery(
+    config: {
+      searchCriteria: SearchCriteria;
+      autoApprovalRules?: Partial<AutoApprovalRules>;
+      scoringWeights?: Partial<ScoringWeights>;
+      investmentThesis?: InvestmentThesis | null;
+      budget?: any;
+      configId?: number | null;
+    },
+    sampleSize: number = PREVIEW_SAMPLE_SIZE
+  ): Promise<DiscoveryPreview> {
+    const { storage } = await import("./storage");
+    const criteria = {
+      ...config.searchCriteria,
+      scoringWeights: resolveScoringWeights(config.scoringWeights),
+      investmentThesis: normalizeInvestmentThesis(config.investmentThesis),
+    };
+    const rules: Partial<AutoApprovalRules> = config.autoApprovalRules || {};
+    const strategy = criteria.strategy || "buy-side";
+
+    const spend = {
+      search: { calls: 0, costUsd: 0 },
+      queryExpansion: { calls: 0, costUsd: 0 },
+      nameExtraction: { calls: 0, costUsd: 0 },
+      scoring: { calls: 0, costUsd: 0 },
+    };
+    const measure = (phase: PhaseSpend): CostScope => ({
+      onUsage: (_event, costUsd) => {
+        phase.calls++;
+        phase.costUsd += costUsd;
+      },
+    });
+
+    const baseQuery = this.buildExaQuery(criteria);
+    const queries: DiscoveryQuery[] = [
+      { id: "q0", query: baseQuery, kind: "base" },
+      ...(await costTracker.run(measure(spend.queryExpansion), () => this.expandDiscoveryQueries(criteria, baseQuery))),
+    ];
+    console.log(`[Agent] Preview: sampling ${sampleSize} results for "${baseQuery}" (${queries.length} queries in a full run)`);
+
+    const data = await costTracker.run(measure(spend.search), () => cachedSearch({
+      query: baseQuery,
+      numResults: sampleSize,
+      type: 'neural',
+      useAutoprompt: true,
+      contents: {
+        text: {
+          maxCharacters: 1000
         }
-      }, {
-        cacheType: 'company_discovery',
-        ttlDays: 30
-      }),
-      'Cached Exa search'
-    );
-    console.log(`[Agent] Exa API returned ${data.results?.length || 0} results`);
+      }
+    }, {
+      cacheType: 'company_discovery',
+      ttlDays: 30
+    }));
+    // Exclusion lists apply as in a run: on the search result, then on the extracted name
+    const matcher = await exclusions.matcherFor(config.configId);
+    const searchPass = matcher.apply(mergeQueryResults([{ query: queries[0], results: data.results || [] }]));
+    const extracted = searchPass.kept.map(r => ({ ...r, originalTitle: r.title }));
+    await costTracker.run(measure(spend.nameExtraction), () => this.extractCompanyNames(extracted));
+    const namePass = matcher.apply(extracted);
+    const results = namePass.kept;
+    const excluded = mergeExclusionCounts(searchPass.counts, namePass.counts);
+
+    const orderedRules = resolveApprovalRules(rules, { strategy, peFilter: criteria.peFilter });
+    const defaultAction = rules.defaultAction || 'approve';
+    const feedback = await scoringFeedback.promptContext(config.configId);
+    const seen = new Set<string>();
+    const companies: PreviewCompany[] = [];
+
+    for (const company of results) {
+      // Same dedup as a run, using read-only registry and queue lookups
+      const canonical = await companyRegistry.find({ name: company.title, websiteUrl: company.url });
+      const key = canonical ? `id:${canonical.id}` : `name:${(company.title || "").toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const preview: PreviewCompany = {
+        name: company.title || "Unknown Company",
+        originalTitle: company.originalTitle,
+        url: company.url,
+        score: null,
+        confidence: null,
+        reasoning: null,
+        estimatedRevenue: null,
+        ownershipType: null,
+        ipUpside: false,
+        outcome: "known",
+        reason: "",
+      };
+      companies.push(preview);
+
+      const existing = await storage.findExistingCompany(company.title, company.url, canonical?.id);
+      if (existing) {
+        preview.reason = `Already in the discovery queue (${existing.approvalStatus}); a run would skip it`;
+        continue;
+      }
+
+      try {
+        const scored = await costTracker.run(measure(spend.scoring), async () => {
+          const c = { ...company, ...(await this.scoreCompany(company, criteria, feedback)), strategy };
+          const filterReason = c.score < 3 ? `Score ${c.score}/10 is below 3` : await this.applyRevenueFilter(c);
+          return { c, filterReason };
+        });
+        const { c, filterReason } = scored;
+        Object.assign(preview, {
+          score: c.score,
+          confidence: c.confidence,
+          reasoning: c.reasoning,
+          estimatedRevenue: c.estimatedRevenue || null,
+          ownershipType: c.ownershipType,
+          ipUpside: !!c.ipUpside,
+        });
+        if (filterReason) {
+          preview.outcome = "filtered";
+          preview.reason = filterReason;
+          continue;
+        }
+        const decision = evaluateApprovalRules(c, orderedRules, defaultAction);
+        preview.outcome = decision.action;
+        preview.reason = formatDecisionReason(decision);
+      } catch (error: any) {
+        preview.outcome = "filtered";
+        preview.reason = `Scoring failed: ${error?.message || error}`;
+      }
+    }
+
+    const counts = countOutcomes(companies);
+    const estimate = estimateRunCost({
+      queryCount: queries.length,
+      searchPricePerQuery: costTracker.prices.exa.search || 0,
+      maxResults: criteria.maxResults || 35,
+      resultsFetched: results.length,
+      counts,
+      spend,
+      averageReportCostUsd: await storage.getAverageReportCost(),
+      budget: normalizeBudget(config.budget),
+    });
+    const previewCostUsd = Object.values(spend).reduce((sum, phase) => sum + phase.costUsd, 0);
+
+    console.log(`[Agent] Preview: ${counts.approve} approve, ${counts.review} review, ${counts.reject} reject, ${counts.filtered} filtered, ${counts.known} known; full run ≈ $${estimate.totalUsd.toFixed(2)}`);
+    return {
+      baseQuery,
+      queries,
+      sampleSize,
+      resultsFetched: results.length,
+      excluded,
+      companies,
+      counts,
+      previewCostUsd,
+      estimate,
+    };
+  }
 
-    if (!data.results || data.results.length === 0) {
-      console.warn("[Agent] Exa returned no results for query:", query);
+  /**
+   * Run the base criteria query plus Claude-generated variants and merge the
+   * results, tagging each with the queries that found it (`foundBy`).
+   */
+  private async searchCompanies(
+    criteria: SearchCriteria,
+    workflowId?: number
+  ): Promise<{ results: any[]; queryYield: QueryYield[] }> {
+    console.log(`[Agent] Discovering companies via ${getSearchProvider().name} search (with caching)...`);
+
+    const baseQuery = this.buildExaQuery(criteria);
+    const queries: DiscoveryQuery[] = [
+      { id: "q0", query: baseQuery, kind: "base" },
+      ...(await this.expandDiscoveryQueries(criteria, baseQuery)),
+    ];
+    const numResults = resultsPerQuery(criteria.maxResults || 35, queries.length);
+    console.log(`[Agent] Searching ${queries.length} queries, ${numResults} results each`);
+
+    const runs: Array<{ query: DiscoveryQuery; results: any[] }> = [];
+    const queryYield: QueryYield[] = [];
+    for (const query of queries) {
+      const stat: QueryYield = { ...query, results: 0, companies: 0, newCompanies: 0, autoApproved: 0 };
+      try {
+        // Use cached search to reduce API calls
+        const data = await cachedSearch({
+          query: query.query,
+          numResults,
+          type: 'neural',
+          useAutoprompt: true,
+          contents: {
+            text: {
+              maxCharacters: 1000
+            }
+          }
+        }, {
+          cacheType: 'company_discovery',
+          ttlDays: 30
+        });
+        const results = data.results || [];
+        stat.results = results.length;
+        runs.push({ query, results });
+        console.log(`[Agent] Query ${query.id} (${query.kind}) returned ${results.length} results: ${query.query}`);
+        workflowEvents.emit(workflowId, "query", `Query ${query.id} (${query.kind.replace("_", "-")}): ${results.length} results`, {
+          data: { queryId: query.id, query: query.query, results: results.length },
+        });
+      } catch (error: any) {
+        // One bad variant shouldn't sink the run; only fail if every query does
+        stat.error = error?.message || String(error);
+        console.warn(`[Agent] Query ${query.id} failed: ${stat.error}`);
+      }
+      queryYield.push(stat);
+    }
+
+    if (runs.length === 0) {
+      throw new Error(`All ${queries.length} discovery queries failed`);
+    }
+
+    const results = mergeQueryResults(runs);
+    if (results.length === 0) {
+      console.warn("[Agent] Search returned no results for any query");
+    }
+    console.log(`[Agent] ${results.length} distinct results across ${runs.length} queries`);
+    return { results, queryYield };
+  }
+
+  /**
+   * Ask Claude for query variants that reach operating companies the base
+   * query misses. Falls back to the base query alone if this fails.
+   */
+  private async expandDiscoveryQueries(criteria: SearchCriteria, baseQuery: string): Promise<DiscoveryQuery[]> {
+    const count = clampVariantCount(criteria.queryVariants);
+    if (count === 0) return [];
+
+    const prompt = `You write search queries for a neural web search engine (Exa) that finds the websites of private operating companies for M&A origination.
+
+BASE QUERY: ${baseQuery}
+
+CRITERIA:
+- Focus: ${criteria.query}
+- Industry: ${criteria.industry || "Any"}
+- Revenue: ${criteria.revenueRange || "Any"}
+- Geography: ${criteria.geographicFocus || "Any"}
+- Ownership: ${criteria.peFilter === "not-pe-backed" ? "independent, NOT private-equity backed" : criteria.peFilter === "pe-backed" ? "private-equity backed" : "any"}
+
+Write ${count} query variants that together widen coverage:
+- "sub_niche": a specific product line, service or end market within the focus
+- "synonym": the same business described with the words a company would use on its own homepage
+- "regional": the focus narrowed to a state, metro or region inside the geography
+
+Each query should read like a description of a single company's homepage ("family-owned manufacturer of precision aluminum castings in Ohio"), NOT like a request for lists, rankings, news or articles. Keep the size and ownership constraints.
+
+Return ONLY valid JSON:
+{
+  "queries": [
+    { "query": "...", "kind": "sub_niche", "rationale": "one short sentence" }
+  ]
+}`;
+
+    try {
+      const { text } = await llm.complete("query_expansion", prompt, { label: "Claude discovery query expansion" });
+
+      const variants = parseQueryVariants(text, baseQuery, count);
+      console.log(`[Agent] Query expansion produced ${variants.length} variants`);
+      return variants;
+    } catch (error: any) {
+      console.warn(`[Agent] Query expansion failed, using base query only:`, error?.message);
       return [];
     }
+  }
+
+  // Recount one per-query yield column on the workflow (no-op for runs without query stats)
+  private async updateQueryYield(workflowId: number, companies: any[], field: QueryTallyField): Promise<void> {
+    const { storage } = await import("./storage");
+    const workflow = await storage.getWorkflow(workflowId);
+    if (!Array.isArray(workflow?.queryYield)) return;
+    await storage.updateWorkflow(workflowId, {
+      queryYield: tallyQueryYield(workflow.queryYield as QueryYield[], companies, field),
+    });
+  }
+
+  /**
+   * Drop results on the run's exclusion lists (global, built-in and the
+   * config's own) and add the drops per list to the workflow's counts.
+   */
+  private async applyExclusions(results: any[], workflowId: number, stage: string): Promise<any[]> {
+    if (results.length === 0) return results;
+    const { storage } = await import("./storage");
+    const workflow = await storage.getWorkflow(workflowId);
+    const matcher = await exclusions.matcherFor(workflow?.configId);
+    const { kept, counts } = matcher.apply(results);
+
+    const dropped = totalExcluded(counts);
+    if (dropped > 0) {
+      const summary = Object.entries(counts).map(([list, count]) => `${list} ${count}`).join(", ");
+      console.log(`[Agent] Excluded ${dropped} of ${results.length} at ${stage} stage (${summary})`);
+      workflowEvents.emit(workflowId, "excluded", `Excluded ${dropped} ${stage}${dropped === 1 ? "" : "s"} on exclusion lists (${summary})`, {
+        data: { stage, counts },
+      });
+    }
+    await storage.updateWorkflow(workflowId, {
+      exclusionCounts: mergeExclusionCounts(workflow?.exclusionCounts as ExclusionCounts, counts),
+    });
+    return kept;
+  }
+
+  private async prepareDiscoveredCompanies(results: any[], workflowId?: number): Promise<any[]> {
+    if (results.length === 0) return [];
 
     // Extract real company names from page titles using Claude
-    await this.extractCompanyNames(data.results);
-
-    // Deduplicate by company name (case-insensitive)
-    const uniqueCompanies = new Map();
-    for (const company of data.results) {
-      const normalizedName = company.title.toLowerCase().trim();
-      if (!uniqueCompanies.has(normalizedName)) {
-        uniqueCompanies.set(normalizedName, company);
+    await this.extractCompanyNames(results, workflowId);
+
+    // Names are only known now, so company-name lists get a second pass
+    if (workflowId) {
+      results = await this.applyExclusions(results, workflowId, "company");
+      if (results.length === 0) return [];
+    }
+
+    // Look each result up in the registry (root domain, then fuzzy name) without
+    // registering it, which collapses "Acme Mfg" and "ACME Manufacturing" within
+    // this batch; companies the registry doesn't know yet collapse by domain or name
+    const uniqueCompanies = new Map<string, any>();
+    for (const company of results) {
+      const canonical = await companyRegistry.find({ name: company.title, websiteUrl: company.url });
+      const key = canonical
+        ? `id:${canonical.id}`
+        : `domain:${normalizeDomain(company.url) ?? `name:${normalizeCompanyName(company.title || "")}`}`;
+      const existing = uniqueCompanies.get(key);
+      if (existing) {
+        mergeAttribution(existing, company);
+      } else {
+        uniqueCompanies.set(key, { ...company, companyId: canonical?.id ?? null });
       }
     }
     const deduped = Array.from(uniqueCompanies.values());
@@ -201,16 +806,25 @@ export class AgentOrchestrator {
     const newCompanies = [];
     let skippedCount = 0;
     for (const company of deduped) {
-      const existing = await storage.findExistingCompany(company.title, company.url);
+      const existing = await storage.findExistingCompany(company.title, company.url, company.companyId);
       if (existing) {
         skippedCount++;
         console.log(`[Agent] Skipping ${company.title} - already in queue (ID: ${existing.id}, status: ${existing.approvalStatus})`);
       } else {
         newCompanies.push(company);
+        workflowEvents.emit(workflowId, "discovered", `Discovered ${company.title}`, {
+          companyName: company.title,
+          data: { url: company.url },
+        });
       }
     }
 
-    console.log(`[Agent] Found ${data.results.length} companies, ${deduped.length} after dedup, ${newCompanies.length} new (${skippedCount} already known)`);
+    console.log(`[Agent] Found ${results.length} companies, ${deduped.length} after dedup, ${newCompanies.length} new (${skippedCount} already known)`);
+    if (workflowId) {
+      await storage.updateWorkflow(workflowId, { companiesAlreadyKnown: skippedCount });
+      await this.updateQueryYield(workflowId, deduped, "companies");
+      await this.updateQueryYield(workflowId, newCompanies, "newCompanies");
+    }
     return newCompanies;
   }
 
@@ -233,7 +847,7 @@ export class AgentOrchestrator {
     return parts.join(" ");
   }
 
-  private async extractCompanyNames(companies: any[]): Promise<void> {
+  private async extractCompanyNames(companies: any[], workflowId?: number): Promise<void> {
     if (companies.length === 0) return;
 
     // Process in batches of 15 to stay within Claude's context
@@ -264,18 +878,11 @@ Return ONLY valid JSON:
 }`;
 
       try {
-        const response = await withRetry(() => anthropic.messages.create({
-          model: "claude-haiku-4-5-20251001",
-          max_tokens: 2000,
-          messages: [{ role: "user", content: prompt }],
-        }), `Claude company name extraction batch ${Math.floor(i / BATCH_SIZE) + 1}`);
-
-        let jsonText = "";
-        for (const block of response.content) {
-          if (block.type === "text") jsonText += block.text;
-        }
+        const response = await llm.complete("name_extraction", prompt, {
+          label: `Claude company name extraction batch ${Math.floor(i / BATCH_SIZE) + 1}`,
+        });
 
-        jsonText = jsonText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+        const jsonText = response.text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
         const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
           const data = JSON.parse(jsonMatch[0]);
@@ -284,6 +891,12 @@ Return ONLY valid JSON:
             const idx = (entry.index || 0) - 1;
             if (idx >= 0 && idx < batch.length && entry.name) {
               console.log(`[Agent] Name cleanup: "${batch[idx].title}" → "${entry.name}"`);
+              if (batch[idx].title !== entry.name) {
+                workflowEvents.emit(workflowId, "name_cleaned", `"${batch[idx].title}" → ${entry.name}`, {
+                  companyName: entry.name,
+                  data: { originalTitle: batch[idx].title },
+                });
+              }
               batch[idx].title = entry.name;
             }
           }
@@ -294,19 +907,58 @@ Return ONLY valid JSON:
     }
   }
 
-  private async scoreCompanies(companies: any[], criteria: SearchCriteria, workflowId?: number): Promise<any[]> {
+  private async scoreCompanies(
+    companies: any[],
+    criteria: SearchCriteria,
+    workflowId?: number,
+    checkpoint?: ScoringCheckpoint | null,
+    onCheckpoint?: (checkpoint: ScoringCheckpoint) => Promise<void>
+  ): Promise<any[]> {
     console.log("[Agent] Scoring companies with Claude...");
     const { storage } = await import("./storage");
 
-    const scored = [];
-    let scoredCount = 0;
+    // Resume after a restart: companies already scored aren't sent to Claude again
+    const scored = [...(checkpoint?.scored || [])];
+    let scoredCount = checkpoint?.processed || 0;
+    if (scoredCount > 0) {
+      console.log(`[Agent] Resuming scoring at ${scoredCount}/${companies.length} (${scored.length} scored before restart)`);
+    }
+
+    // Companies left unscored when the run hits its budget; they go to review unscored
+    let deferred: any[] = [];
+
+    // Recent reviewer decisions on this config's companies calibrate the score
+    const workflow = workflowId ? await storage.getWorkflow(workflowId) : null;
+    const feedback = await scoringFeedback.promptContext(workflow?.configId);
+
+    for (const company of companies.slice(scoredCount)) {
+      if (workflowId) await this.assertWorkflowActive(workflowId);
+
+      if (workflowId) {
+        const budget = await budgetGuard.checkSpend(workflowId);
+        if (budget.exceeded) {
+          deferred = companies.slice(scoredCount).map(c => ({
+            ...c,
+            score: null,
+            confidence: "Low",
+            reasoning: `Not scored: ${budget.reason}`,
+            strategy: criteria.strategy,
+            budgetDeferred: true,
+          }));
+          console.log(`[Agent] Budget cap reached after scoring ${scoredCount}/${companies.length}; deferring ${deferred.length} to review`);
+          break;
+        }
+      }
 
-    for (const company of companies) {
       try {
-        const score = await this.scoreCompany(company, criteria);
+        const score = await this.scoreCompany(company, criteria, feedback);
         scored.push({ ...company, ...score, strategy: criteria.strategy });
         scoredCount++;
         console.log(`[Agent] Scored ${company.title}: ${score.score}/10 (${score.confidence}) [${scoredCount}/${companies.length}]`);
+        workflowEvents.emit(workflowId, "scored", `Scored ${company.title}: ${score.score}/10 (${score.confidence})`, {
+          companyName: company.title,
+          data: { score: score.score, confidence: score.confidence, processed: scoredCount, total: companies.length },
+        });
 
         // Update workflow progress every 5 companies
         if (workflowId && scoredCount % 5 === 0) {
@@ -315,6 +967,11 @@ Return ONLY valid JSON:
       } catch (error) {
         console.error(`[Agent] Failed to score ${company.title}, skipping:`, error);
         scoredCount++;
+        workflowEvents.emit(workflowId, "failed", `Scoring failed for ${company.title}`, { companyName: company.title });
+      }
+
+      if (onCheckpoint) {
+        await onCheckpoint({ processed: scoredCount, scored });
       }
     }
 
@@ -329,44 +986,43 @@ Return ONLY valid JSON:
     for (const c of scored) {
       if (c.score < 3) continue;
 
-      const revenue = this.parseRevenue(c.estimatedRevenue);
-
-      if (revenue > 150000000) {
-        console.log(`[Agent] Filtered out ${c.title}: Revenue too high ($${revenue/1000000}M)`);
+      const filterReason = await this.applyRevenueFilter(c);
+      if (filterReason) {
+        console.log(`[Agent] Filtered out ${c.title}: ${filterReason}`);
         continue;
       }
 
-      if (revenue < 10000000 && revenue > 0) {
-        console.log(`[Agent] ${c.title} below revenue threshold ($${revenue/1000000}M) - checking IP upside...`);
-        const hasIPUpside = await this.checkIPUpside(c.title);
-
-        if (hasIPUpside) {
-          c.ipUpside = true;
-          c.score += 1;
-          console.log(`[Agent] ✓ IP upside detected for ${c.title} - score boosted`);
-        } else {
-          console.log(`[Agent] No IP upside for ${c.title} - keeping with current score`);
-        }
-      }
-
       filtered.push(c);
     }
 
     console.log(`[Agent] ${filtered.length} companies passed filters`);
-    return filtered;
+    return [...filtered, ...deferred];
   }
 
-  private parseRevenue(revenueStr: string): number {
-    if (!revenueStr) return 0;
-    
-    const cleanStr = revenueStr.toLowerCase().replace(/[,$]/g, '');
-    const num = parseFloat(cleanStr);
-    
-    if (cleanStr.includes('b')) return num * 1000000000;
-    if (cleanStr.includes('m')) return num * 1000000;
-    if (cleanStr.includes('k')) return num * 1000;
-    
-    return num;
+  /**
+   * Drop companies too large to be targets; small ones get a score boost if
+   * they have IP upside. Returns the reason a company is filtered out, or null.
+   */
+  private async applyRevenueFilter(c: any): Promise<string | null> {
+    const revenue = candidateRevenue(c);
+
+    if (revenue > 150000000) {
+      return `Revenue too high ($${revenue/1000000}M)`;
+    }
+
+    if (revenue < 10000000 && revenue > 0) {
+      console.log(`[Agent] ${c.title} below revenue threshold ($${revenue/1000000}M) - checking IP upside...`);
+      const hasIPUpside = await this.checkIPUpside(c.title);
+
+      if (hasIPUpside) {
+        c.ipUpside = true;
+        c.score += 1;
+        console.log(`[Agent] ✓ IP upside detected for ${c.title} - score boosted`);
+      } else {
+        console.log(`[Agent] No IP upside for ${c.title} - keeping with current score`);
+      }
+    }
+    return null;
   }
 
   private async checkIPUpside(companyName: string): Promise<boolean> {
@@ -379,15 +1035,16 @@ Return ONLY valid JSON:
     }
   }
 
-  private async scoreCompany(company: any, criteria: SearchCriteria): Promise<any> {
+  private async scoreCompany(company: any, criteria: SearchCriteria, feedback: string = ""): Promise<any> {
+    const weights = resolveScoringWeights(criteria.scoringWeights);
     let peInstruction = "";
     if (criteria.peFilter === "not-pe-backed") {
-      peInstruction = "\n- PE Preference: Exclude PE-backed. If the company is PE-backed or a portfolio company, score 1/10.";
+      peInstruction = "\n- PE Preference: Exclude PE-backed. If the company is PE-backed or a portfolio company, set \"disqualified\" to \"PE-backed\".";
     } else if (criteria.peFilter === "pe-backed") {
-      peInstruction = "\n- PE Preference: Only PE-backed. If the company is NOT PE-backed, score 1/10.";
+      peInstruction = "\n- PE Preference: Only PE-backed. If the company is NOT PE-backed, set \"disqualified\" to \"Not PE-backed\".";
     }
 
-    const prompt = `Score this company for M&A target fit (1-10):
+    const prompt = `Score this company for M&A target fit against a rubric.
 
 Company: ${company.title}
 URL: ${company.url}
@@ -397,11 +1054,22 @@ Criteria:
 - Industry: ${criteria.industry || "Any"}
 - Revenue: ${criteria.revenueRange || "Any"}
 - Geography: ${criteria.geographicFocus || "Any"}
-- Strategy: ${criteria.strategy || "buy-side"}${peInstruction}
+- Strategy: ${criteria.strategy || "buy-side"}${peInstruction}${formatThesisForPrompt(criteria.investmentThesis, "score fit against this mandate; if the company clearly hits a deal-breaker, set \"disqualified\" to that deal-breaker")}${feedback}
+
+Score each rubric criterion 1-10 with a one-sentence reason (the weights show what matters most for this search):
+${describeRubric(weights)}
 
 Return JSON only with this structure:
 {
-  "score": 8,
+  "subScores": {
+    "industryFit": { "score": 8, "reason": "..." },
+    "sizeFit": { "score": 6, "reason": "..." },
+    "geographyFit": { "score": 9, "reason": "..." },
+    "ownershipFit": { "score": 7, "reason": "..." },
+    "growthSignals": { "score": 5, "reason": "..." },
+    "dataConfidence": { "score": 6, "reason": "..." }
+  },
+  "disqualified": null,
   "confidence": "High",
   "reasoning": "...",
   "estimatedRevenue": "$25M",
@@ -423,20 +1091,9 @@ Confidence levels:
 - Medium: Reasonable fit, some uncertainty
 - Low: Marginal fit or significant gaps`;
 
-    const response = await withRetry(() => anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 2000,
-      messages: [{ role: "user", content: prompt }],
-    }), `Claude scoring ${company.title}`);
+    const response = await llm.complete("scoring", prompt, { label: `Claude scoring ${company.title}` });
 
-    let jsonText = "";
-    for (const block of response.content) {
-      if (block.type === "text") {
-        jsonText += block.text;
-      }
-    }
-
-    jsonText = jsonText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+    const jsonText = response.text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
 
     // Extract JSON object even if surrounded by extra text
     const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
@@ -447,11 +1104,13 @@ Confidence levels:
         confidence: "Low",
         reasoning: "Failed to parse scoring response",
         estimatedRevenue: "",
+        revenueEstimate: null,
         industryMatch: false,
         industry: criteria.industry || "Unknown",
         geographicFocus: criteria.geographicFocus || "",
         ownershipType: "Unknown",
         ownershipNotes: "",
+        scoreBreakdown: null,
       };
     }
 
@@ -465,24 +1124,34 @@ Confidence levels:
         confidence: "Low",
         reasoning: "Failed to parse scoring response",
         estimatedRevenue: "",
+        revenueEstimate: null,
         industryMatch: false,
         industry: criteria.industry || "Unknown",
         geographicFocus: criteria.geographicFocus || "",
         ownershipType: "Unknown",
         ownershipNotes: "",
+        scoreBreakdown: null,
       };
     }
 
+    // Overall score is the weighted rubric average; a single "score" is only used if Claude skipped the rubric
+    const subScores = parseSubScores(data.subScores);
+    const weightedScore = computeWeightedScore(subScores, weights);
+    const disqualified = typeof data.disqualified === "string" && data.disqualified.trim() ? data.disqualified.trim() : null;
+    const score = disqualified ? 1 : Math.round(weightedScore ?? data.score ?? 5);
+
     return {
-      score: Math.round(data.score ?? 5),
+      score,
       confidence: data.confidence ?? "Low",
       reasoning: data.reasoning ?? "",
       estimatedRevenue: data.estimatedRevenue ?? "",
+      revenueEstimate: parseRevenueEstimate(data.estimatedRevenue, { source: "claude", confidence: data.confidence }),
       industryMatch: data.industryMatch ?? false,
       industry: data.industry || criteria.industry,
       geographicFocus: data.geographicFocus || criteria.geographicFocus,
       ownershipType: data.ownershipType || 'Unknown',
       ownershipNotes: data.ownershipNotes || '',
+      scoreBreakdown: weightedScore === null ? null : { subScores, weights, weightedScore, disqualified },
     };
   }
 
@@ -498,89 +1167,88 @@ Confidence levels:
 
     const { storage } = await import("./storage");
 
-    const minScore = 6;
-    const confidenceLevels: Record<string, number> = { "Low": 1, "Medium": 2, "High": 3 };
-    const requiredConfidenceLevel = confidenceLevels["Low"] ?? 1;
+    const orderedRules = resolveApprovalRules(rules, { strategy, peFilter });
+    const defaultAction = rules?.defaultAction || 'approve';
+
+    // Queue items left by an interrupted attempt of this step are reused, not duplicated
+    const existingItems = new Map(
+      (await storage.getDiscoveryQueue(workflowId)).map(item => [item.companyName, item])
+    );
+
+    // Budget: approvals past the research cap, or once spend is over a dollar cap, are deferred to review
+    const workflow = await storage.getWorkflow(workflowId);
+    const researchCap = budgetGuard.researchCap(workflow);
+    let budgetReason = (await budgetGuard.checkSpend(workflowId)).reason;
+    let approvedCount = [...existingItems.values()].filter(item => item.approvalStatus === "auto_approved").length;
 
     for (const company of companies) {
       try {
-        const queueItem = await storage.addToDiscoveryQueue({
+        const decision = evaluateApprovalRules(company, orderedRules, defaultAction);
+        const reason = formatDecisionReason(decision);
+
+        if (!company.companyId && !existingItems.has(company.title || "Unknown Company")) {
+          // Registered only once queued, so results dropped by exclusions, scoring or filters never reach the registry
+          company.companyId = (await companyRegistry.resolve({ name: company.title, websiteUrl: company.url }, "discovery")).id;
+        }
+        const queueItem = existingItems.get(company.title || "Unknown Company") || await storage.addToDiscoveryQueue({
           workflowId,
+          companyId: company.companyId ?? null,
           companyName: company.title || "Unknown Company",
           websiteUrl: company.url || "https://unknown",
           description: company.text || null,
-          agentScore: Math.round(company.score) || 5,
+          foundByQueries: company.foundByQueries ?? null,
+          agentScore: company.budgetDeferred ? null : Math.round(company.score) || 5,
           scoringReason: company.reasoning || "",
           confidence: company.confidence || "Low",
           estimatedRevenue: company.estimatedRevenue || null,
+          revenueEstimate: company.revenueEstimate ?? null,
           industry: company.industry || null,
           geographicFocus: company.geographicFocus || null,
+          scoreBreakdown: company.scoreBreakdown ?? null,
           approvalStatus: "pending",
+          // Unscored budget-deferred companies have no real decision to learn from
+          agentDecision: company.budgetDeferred ? null : decision.action,
         });
 
-        const companyConfidenceLevel = confidenceLevels[company.confidence] ?? 1;
-
-        const isPEBacked = company.ownershipType === 'PE-Backed';
-        // PE filter: hard reject/review based on user preference
-        const peAutoReject = peFilter === 'not-pe-backed' && isPEBacked;
-        const peManualReview = peFilter === 'pe-backed' && !isPEBacked;
-        // Legacy fallback: PE + buy-side still goes to manual review
-        const isPEBackedBuySide = isPEBacked && strategy === 'buy-side' && peFilter !== 'pe-backed';
-
-        const revenue = this.parseRevenue(company.estimatedRevenue);
-        const belowThresholdWithIP = revenue < 10000000 && company.ipUpside;
-
-        let reviewReason = '';
-        let autoReject = false;
-
-        if (peAutoReject) {
-          reviewReason = 'PE-backed company auto-rejected (PE filter: not PE-backed)';
-          autoReject = true;
-        } else if (peManualReview) {
-          reviewReason = 'Not PE-backed - requires manual review (PE filter: PE-backed only)';
-        } else if (isPEBackedBuySide) {
-          reviewReason = 'PE-backed company - requires manual review for buy-side strategy (competitive auction risk)';
-        } else if (belowThresholdWithIP) {
-          reviewReason = `Below revenue threshold ($${(revenue/1000000).toFixed(1)}M) but significant IP upside detected - manual review recommended`;
-        } else if (revenue > 150000000) {
-          reviewReason = `Above revenue threshold ($${(revenue/1000000).toFixed(0)}M) - likely too large, requires manual review`;
-        } else if (company.score < minScore) {
-          reviewReason = `Score ${company.score}/10 below threshold (${minScore})`;
-        } else if (companyConfidenceLevel < requiredConfidenceLevel) {
-          reviewReason = `Confidence ${company.confidence} below required ${rules?.requiredConfidence ?? "Medium"}`;
+        if (company.budgetDeferred || (decision.action === 'approve' && queueItem.approvalStatus !== "auto_approved")) {
+          if (!company.budgetDeferred && !budgetReason && researchCap !== null && approvedCount >= researchCap) {
+            budgetReason = `research cap of ${researchCap} ${researchCap === 1 ? "company" : "companies"} per run reached`;
+            await budgetGuard.researchCapReached(workflow, budgetReason);
+          }
+          const deferReason = company.budgetDeferred ? company.reasoning.replace(/^Not scored: /, "") : budgetReason;
+          if (deferReason) {
+            await budgetGuard.deferToReview(workflowId, queueItem.id, company.title, deferReason);
+            needsReview.push({ ...company, queueId: queueItem.id, budgetDeferred: true });
+            continue;
+          }
         }
 
-        const shouldAutoApprove =
-          !autoReject &&
-          !peManualReview &&
-          company.score >= minScore &&
-          companyConfidenceLevel >= requiredConfidenceLevel &&
-          !isPEBackedBuySide &&
-          !belowThresholdWithIP &&
-          revenue <= 150000000;
-
-        if (autoReject) {
+        if (decision.action === 'reject') {
           await storage.updateDiscoveryQueueItem(queueItem.id, {
             approvalStatus: "rejected",
-            autoApprovalReason: reviewReason,
+            autoApprovalReason: reason,
           });
           needsReview.push({ ...company, queueId: queueItem.id });
-          console.log(`[Agent] ✗ Auto-rejected: ${company.title} (${reviewReason})`);
-        } else if (shouldAutoApprove) {
+          console.log(`[Agent] ✗ Auto-rejected: ${company.title} (${reason})`);
+          workflowEvents.emit(workflowId, "rejected", `Rejected ${company.title}: ${reason}`, { companyName: company.title, queueId: queueItem.id });
+        } else if (decision.action === 'approve') {
           await storage.updateDiscoveryQueueItem(queueItem.id, {
             approvalStatus: "auto_approved",
-            autoApprovalReason: `Score ${company.score}/10, ${company.confidence} confidence${company.ownershipType && company.ownershipType !== 'Unknown' ? ', ' + company.ownershipType : ''}`,
+            autoApprovalReason: reason,
             approvedAt: new Date(),
           });
           autoApproved.push({ ...company, queueId: queueItem.id });
-          console.log(`[Agent] ✓ Auto-approved: ${company.title} (${company.score}/10)`);
+          if (queueItem.approvalStatus !== "auto_approved") approvedCount++;
+          console.log(`[Agent] ✓ Auto-approved: ${company.title} (${reason})`);
+          workflowEvents.emit(workflowId, "approved", `Approved ${company.title}: ${reason}`, { companyName: company.title, queueId: queueItem.id });
         } else {
           await storage.updateDiscoveryQueueItem(queueItem.id, {
             approvalStatus: "pending",
-            autoApprovalReason: reviewReason || `Score ${company.score}/10 or needs review`,
+            autoApprovalReason: reason,
           });
           needsReview.push({ ...company, queueId: queueItem.id });
-          console.log(`[Agent] → Manual review: ${company.title} (${reviewReason || company.score + '/10'})`);
+          console.log(`[Agent] → Manual review: ${company.title} (${reason})`);
+          workflowEvents.emit(workflowId, "review", `Sent ${company.title} to review: ${reason}`, { companyName: company.title, queueId: queueItem.id });
         }
       } catch (companyError: any) {
         console.error(`[Agent] Error processing ${company.title} in approval:`, companyError?.message || companyError);
@@ -588,7 +1256,7 @@ Confidence levels:
       }
     }
 
-    console.log(`[Agent] Auto-approval summary: ${autoApproved.length} approved, ${needsReview.length} need review (threshold: score >= ${minScore})`);
+    console.log(`[Agent] Auto-approval summary: ${autoApproved.length} approved, ${needsReview.length} need review (${orderedRules.length} rules, default: ${defaultAction})`);
     return { autoApproved, needsReview };
   }
 
@@ -606,16 +1274,27 @@ Confidence levels:
       throw new Error(`Queue item ${queueId} not found`);
     }
 
+    // Queue items from before the registry get linked on first research
+    let companyId = queueItem.companyId;
+    if (!companyId) {
+      companyId = (await companyRegistry.resolve({ name: queueItem.companyName, websiteUrl: queueItem.websiteUrl }, "backfill")).id;
+      await db.update(discoveryQueue).set({ companyId }).where(eq(discoveryQueue.id, queueId));
+    }
+
     const company = {
       title: queueItem.companyName,
       url: queueItem.websiteUrl,
       text: queueItem.description || '',
+      estimatedRevenue: queueItem.estimatedRevenue,
+      revenueEstimate: queueItem.revenueEstimate,
       industry: queueItem.industry,
       geographicFocus: queueItem.geographicFocus,
       queueId: queueItem.id,
+      companyId,
     };
 
-    await this.researchCompany(company, queueItem.workflowId, strategy);
+    // Usage is charged to the queue item until the report exists, then moved onto the report
+    await costTracker.run({ queueId }, () => this.researchCompany(company, queueItem.workflowId, strategy));
   }
 
   // Direct research: skip discovery/scoring, research known companies immediately
@@ -630,6 +1309,7 @@ Confidence levels:
     const workflow = await storage.createWorkflow({
       status: "running",
       triggerType: "direct",
+      currentStep: "research",
       searchCriteria: { companies },
       companiesFound: companies.length,
       companiesScored: companies.length,
@@ -638,67 +1318,38 @@ Confidence levels:
       companiesResearched: 0,
     });
 
-    try {
-      // Create pre-approved queue entries for each company
-      const queueIds: number[] = [];
-      for (const company of companies) {
-        const queueItem = await storage.addToDiscoveryQueue({
-          workflowId: workflow.id,
-          companyName: company.name,
-          websiteUrl: company.websiteUrl || `https://${company.name.toLowerCase().replace(/\s+/g, '')}.com`,
-          description: null,
-          agentScore: 10,
-          scoringReason: "Direct research request",
-          confidence: "High",
-          estimatedRevenue: null,
-          industry: null,
-          geographicFocus: null,
-          approvalStatus: "auto_approved",
-          autoApprovalReason: "Direct research request",
-          approvedAt: new Date(),
-        });
-        queueIds.push(queueItem.id);
-      }
-
-      // Research in parallel batches of 3
-      let researched = 0;
-      const BATCH_SIZE = 3;
-
-      for (let i = 0; i < queueIds.length; i += BATCH_SIZE) {
-        const batch = queueIds.slice(i, i + BATCH_SIZE);
-        console.log(`[Agent] Direct research batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(queueIds.length / BATCH_SIZE)}`);
-
-        const results = await Promise.allSettled(
-          batch.map(queueId => this.researchCompanyById(queueId, strategy))
-        );
-
-        for (let j = 0; j < results.length; j++) {
-          if (results[j].status === 'fulfilled') {
-            researched++;
-          } else {
-            console.error(`[Agent] Direct research failed for queue ${batch[j]}:`, (results[j] as PromiseRejectedResult).reason);
-          }
-        }
-
-        await storage.updateWorkflow(workflow.id, { companiesResearched: researched });
-      }
-
-      await storage.updateWorkflow(workflow.id, {
-        companiesResearched: researched,
-        status: "completed",
-        completedAt: new Date(),
-      });
-
-      console.log(`[Agent] Direct research workflow ${workflow.id} complete: ${researched}/${companies.length} companies researched`);
-      return workflow.id;
-    } catch (error: any) {
-      console.error(`[Agent] Direct research workflow ${workflow.id} FAILED:`, error?.message || error);
-      await storage.updateWorkflow(workflow.id, {
-        status: "failed",
-        completedAt: new Date(),
+    // Create pre-approved queue entries for each company
+    const queueIds: number[] = [];
+    for (const company of companies) {
+      // Only a URL the user gave identifies the company; the fallback below is a guess
+      const canonical = await companyRegistry.resolve({ name: company.name, websiteUrl: company.websiteUrl }, "direct");
+      const queueItem = await storage.addToDiscoveryQueue({
+        workflowId: workflow.id,
+        companyId: canonical.id,
+        companyName: company.name,
+        websiteUrl: company.websiteUrl || `https://${company.name.toLowerCase().replace(/\s+/g, '')}.com`,
+        description: null,
+        agentScore: 10,
+        scoringReason: "Direct research request",
+        confidence: "High",
+        estimatedRevenue: null,
+        industry: null,
+        geographicFocus: null,
+        approvalStatus: "auto_approved",
+        autoApprovalReason: "Direct research request",
+        approvedAt: new Date(),
       });
-      throw error;
+      queueIds.push(queueItem.id);
     }
+
+    await jobQueue.enqueueMany([
+      ...queueIds.map(queueId => this.researchJobSpec(workflow.id, queueId, strategy, "direct")),
+      { step: "finalize", workflowId: workflow.id, jobKey: `wf:${workflow.id}:finalize`, payload: {} },
+    ]);
+
+    console.log(`[Agent] Direct research workflow ${workflow.id} queued: ${queueIds.length} companies`);
+    workflowEvents.emit(workflow.id, "status", `Direct research started for ${queueIds.length} companies`, { data: { status: "running" } });
+    return workflow.id;
   }
 
   private async researchCompany(company: any, workflowId: number, strategy: 'buy-side' | 'sell-side' | 'dual'): Promise<void> {
@@ -708,68 +1359,45 @@ Confidence levels:
     console.log(`[Agent][Pipeline] ========================================`);
 
     const { storage } = await import("./storage");
+    const emitStep = (stage: string, message: string) =>
+      workflowEvents.emit(workflowId, "research_step", `${company.title}: ${message}`, {
+        companyName: company.title,
+        queueId: company.queueId,
+        data: { stage },
+      });
 
     try {
       await storage.updateDiscoveryQueueItem(company.queueId, {
         researchStatus: "in_progress",
       });
 
-      // Step 1: Generate base report with Claude
-      console.log(`[Agent][Pipeline] Step 1/3: Generating Claude research report...`);
-      const baseReport = await this.generateClaudeResearch(company);
-      console.log(`[Agent][Pipeline] Step 1 complete - base report: ${baseReport?.length || 0} chars`);
-
-      if (!baseReport || baseReport.length === 0) {
-        console.error(`[Agent][Pipeline] FAILED at Step 1: Empty base report for ${company.title}`);
-        throw new Error("Empty report generated - Claude API may have failed");
-      }
-
-      // Step 2: Enhance with public databases
-      console.log(`[Agent][Pipeline] Step 2/3: Enhancing with public databases...`);
-      const enhancedReport = await this.enhanceWithDatabases(
-        company.title,
-        company.industry || "",
-        baseReport,
-        strategy
-      );
-      console.log(`[Agent][Pipeline] Step 2 complete - enhanced report: ${enhancedReport?.length || 0} chars (added ${(enhancedReport?.length || 0) - baseReport.length} chars)`);
-
-      if (!enhancedReport || enhancedReport.length === 0) {
-        console.error(`[Agent][Pipeline] WARNING: Enhancement returned empty report, falling back to base report`);
-      }
-
-      // Step 3: Enrich with Apollo contacts
-      console.log(`[Agent][Pipeline] Step 3/3: Enriching with Apollo contacts...`);
-      const reportForApollo = enhancedReport || baseReport;
-      const finalReport = await enrichResearchWithApollo(
-        company.title,
-        reportForApollo
-      );
-      console.log(`[Agent][Pipeline] Step 3 complete - final report: ${finalReport?.length || 0} chars`);
-
-      if (!finalReport || finalReport.length === 0) {
-        console.error(`[Agent][Pipeline] CRITICAL: Final report is empty after all enrichment steps`);
-        console.error(`[Agent][Pipeline] Base: ${baseReport?.length || 0}, Enhanced: ${enhancedReport?.length || 0}, Final: ${finalReport?.length || 0}`);
-        throw new Error("Final report is empty after enrichment");
-      }
-
-      // Step 4: Score report quality
-      const { qualityScore, contactsFound } = this.scoreReportQuality(finalReport);
-      console.log(`[Agent][Pipeline] Report quality: ${qualityScore}/11 sections, ${contactsFound} contacts found`);
+      const thesis = await investmentTheses.forWorkflow(workflowId);
+      const { finalReport, sections, summary, qualityScore, contactsFound } =
+        await this.runResearchPipeline(company, strategy, emitStep, thesis);
 
       // Step 5: Save to database
       console.log(`[Agent][Pipeline] Saving report to database (${finalReport.length} chars)...`);
       const report = await storage.createReport({
+        companyId: company.companyId ?? null,
         companyName: company.title,
         websiteUrl: company.url,
         industry: company.industry,
         revenueRange: company.estimatedRevenue,
+        ...reportEstimates(summary.keyFigures, summary.confidence, company.revenueEstimate),
         geographicFocus: company.geographicFocus,
+        strategy,
         report: finalReport,
         status: "completed",
         qualityScore,
         contactsFound,
+        executiveSummary: summarizeExecutiveSummary(sections),
+        recommendation: summary.recommendation,
+        recommendationRationale: summary.recommendationRationale,
+        confidence: summary.confidence,
+        keyFigures: summary.keyFigures,
       });
+      await storage.saveReportSections(report.id, sections);
+      await storage.attachUsageToReport(company.queueId, report.id);
 
       console.log(`[Agent][Pipeline] Report saved - ID: ${report.id}, quality: ${qualityScore}/11, contacts: ${contactsFound}`);
 
@@ -786,8 +1414,17 @@ Confidence levels:
       });
 
       console.log(`[Agent][Pipeline] ✓ Research complete: ${company.title} (Report ID: ${report.id})`);
+      workflowEvents.emit(workflowId, "saved", `Report saved for ${company.title} (quality ${qualityScore}/11, ${contactsFound} contacts)`, {
+        companyName: company.title,
+        queueId: company.queueId,
+        data: { reportId: report.id, qualityScore, contactsFound },
+      });
     } catch (error) {
       console.error(`[Agent][Pipeline] FAILED for ${company.title}:`, error);
+      workflowEvents.emit(workflowId, "failed", `Research failed for ${company.title}: ${(error as any)?.message || error}`, {
+        companyName: company.title,
+        queueId: company.queueId,
+      });
       await storage.updateDiscoveryQueueItem(company.queueId, {
         researchStatus: "failed",
       });
@@ -795,7 +1432,138 @@ Confidence levels:
     }
   }
 
-  private async generateClaudeResearch(company: any): Promise<string> {
+  private async refreshReport(reportId: number, strategy: 'buy-side' | 'sell-side' | 'dual'): Promise<{ reportId: number; version: number }> {
+    const { storage } = await import("./storage");
+    const report = await storage.getReportById(reportId);
+    if (!report) {
+      throw new Error(`Report ${reportId} not found`);
+    }
+
+    await storage.updateReport(reportId, { refreshStatus: "running" });
+    const queueItem = await storage.getDiscoveryItemByReportId(reportId);
+    const company = {
+      title: report.companyName,
+      url: report.websiteUrl,
+      text: queueItem?.description || '',
+      industry: report.industry,
+      geographicFocus: report.geographicFocus,
+    };
+
+    console.log(`[Agent][Refresh] Refreshing report ${reportId} (${company.title}), currently v${report.version}`);
+    const thesis = await investmentTheses.forWorkflow(queueItem?.workflowId);
+    const { finalReport, sections, summary, qualityScore, contactsFound } =
+      await costTracker.run({ reportId }, () =>
+        this.runResearchPipeline(company, strategy, (stage, message) =>
+          console.log(`[Agent][Refresh] ${company.title} [${stage}]: ${message}`),
+          thesis
+        )
+      );
+
+    // Snapshot what's being replaced; legacy reports without sections are split first
+    let previousSections: any[] = await storage.getReportSections(reportId);
+    if (previousSections.length === 0 && report.report) {
+      previousSections = buildLegacySections(report.report);
+    }
+    const snapshot = {
+      version: report.version,
+      report: report.report,
+      executiveSummary: report.executiveSummary,
+      recommendation: report.recommendation,
+      recommendationRationale: report.recommendationRationale,
+      confidence: report.confidence,
+      keyFigures: report.keyFigures,
+      qualityScore: report.qualityScore,
+      contactsFound: report.contactsFound,
+      sections: previousSections.map(({ sectionKey, title, position, content, source, metadata }) =>
+        ({ sectionKey, title, position, content, source, metadata })
+      ),
+      createdAt: report.refreshedAt || report.createdAt,
+    };
+
+    const version = report.version + 1;
+    await storage.applyReportRefresh(reportId, snapshot, {
+      report: finalReport,
+      qualityScore,
+      contactsFound,
+      executiveSummary: summarizeExecutiveSummary(sections),
+      recommendation: summary.recommendation,
+      recommendationRationale: summary.recommendationRationale,
+      confidence: summary.confidence,
+      keyFigures: summary.keyFigures,
+      ...reportEstimates(summary.keyFigures, summary.confidence, report.revenueEstimate as FinancialEstimate | null),
+      strategy,
+      version,
+      refreshStatus: null,
+      refreshedAt: new Date(),
+    }, sections);
+
+    console.log(`[Agent][Refresh] ✓ Report ${reportId} refreshed to v${version} (quality: ${qualityScore}/11, contacts: ${contactsFound})`);
+    return { reportId, version };
+  }
+
+  /**
+   * Claude research → public database enhancers → Apollo contacts → sections.
+   * Shared by new research and report refreshes; persists nothing.
+   */
+  private async runResearchPipeline(
+    company: any,
+    strategy: 'buy-side' | 'sell-side' | 'dual',
+    emitStep: (stage: string, message: string) => void,
+    thesis: InvestmentThesis | null = null
+  ): Promise<ResearchResult> {
+    // Step 1: Generate base report with Claude
+    console.log(`[Agent][Pipeline] Step 1/3: Generating Claude research report...`);
+    emitStep("claude", "generating Claude research report");
+    const generatedAt = new Date();
+    const research = await this.generateClaudeResearch(company, thesis);
+    const { body: baseReport, summary } = extractReportSummary(research.text);
+    console.log(`[Agent][Pipeline] Step 1 complete - base report: ${baseReport?.length || 0} chars`);
+
+    if (!baseReport || baseReport.length === 0) {
+      console.error(`[Agent][Pipeline] FAILED at Step 1: Empty base report for ${company.title}`);
+      throw new Error("Empty report generated - Claude API may have failed");
+    }
+
+    // Step 2: Enhance with public databases
+    console.log(`[Agent][Pipeline] Step 2/3: Enhancing with public databases...`);
+    const enhancedReport = await this.enhanceWithDatabases(
+      company.title,
+      company.industry || "",
+      baseReport,
+      strategy,
+      emitStep
+    );
+    console.log(`[Agent][Pipeline] Step 2 complete - enhanced report: ${enhancedReport?.length || 0} chars (added ${(enhancedReport?.length || 0) - baseReport.length} chars)`);
+
+    if (!enhancedReport || enhancedReport.length === 0) {
+      console.error(`[Agent][Pipeline] WARNING: Enhancement returned empty report, falling back to base report`);
+    }
+
+    // Step 3: Enrich with Apollo contacts
+    console.log(`[Agent][Pipeline] Step 3/3: Enriching with Apollo contacts...`);
+    emitStep("apollo", "finding decision-maker contacts with Apollo");
+    const reportForApollo = enhancedReport || baseReport;
+    const finalReport = await enrichResearchWithApollo(
+      company.title,
+      reportForApollo
+    );
+    console.log(`[Agent][Pipeline] Step 3 complete - final report: ${finalReport?.length || 0} chars`);
+
+    if (!finalReport || finalReport.length === 0) {
+      console.error(`[Agent][Pipeline] CRITICAL: Final report is empty after all enrichment steps`);
+      console.error(`[Agent][Pipeline] Base: ${baseReport?.length || 0}, Enhanced: ${enhancedReport?.length || 0}, Final: ${finalReport?.length || 0}`);
+      throw new Error("Final report is empty after enrichment");
+    }
+
+    // Step 4: Split into sections and score quality from them
+    const sections = buildReportSections(finalReport, baseReport, { model: research.model, generatedAt });
+    const { qualityScore, contactsFound } = scoreSectionQuality(sections);
+    console.log(`[Agent][Pipeline] Report quality: ${qualityScore}/11 sections, ${contactsFound} contacts found (${sections.length} sections stored)`);
+
+    return { finalReport, sections, summary, qualityScore, contactsFound };
+  }
+
+  private async generateClaudeResearch(company: any, thesis: InvestmentThesis | null = null): Promise<{ text: string; model: string }> {
     console.log(`[Agent][Research] Starting Claude research for: ${company.title}`);
     console.log(`[Agent][Research] Company URL: ${company.url}`);
     console.log(`[Agent][Research] Description length: ${company.text?.length || 0} chars`);
@@ -804,7 +1572,7 @@ Confidence levels:
 
 Company: ${company.title}
 Website: ${company.url}
-Description: ${company.text}
+Description: ${company.text}${formatThesisForPrompt(thesis, "in the Executive Summary and Strategic Assessment, judge fit against this mandate: say which goals and must-haves the company meets, flag any deal-breaker it hits, and compare it to the prior acquisitions")}
 
 Create a comprehensive M&A research report with these sections:
 1. Executive Summary
@@ -839,11 +1607,11 @@ For each contact found, include:
 
 Search thoroughly - check the company website's "About Us" / "Team" / "Leadership" pages, LinkedIn company page, press releases, and news articles to find ALL key people.
 
-Use web search to find current information.`;
+Use web search to find current information.
+
+${REPORT_SUMMARY_INSTRUCTIONS}`;
 
-    const response = await withRetry(() => anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 16000,
+    const response = await llm.complete("research", {
       messages: [{ role: "user", content: prompt }],
       tools: [
         {
@@ -851,21 +1619,14 @@ Use web search to find current information.`;
           name: "web_search",
         },
       ],
-    }), `Claude research ${company.title}`);
+    }, { label: `Claude research ${company.title}` });
 
-    console.log(`[Agent][Research] Claude response - stop_reason: ${response.stop_reason}, blocks: ${response.content.length}`);
+    const { blockTypes, text: reportText } = response;
+    console.log(`[Agent][Research] ${response.model} response - stop_reason: ${response.stopReason}, blocks: ${blockTypes.length}`);
 
     // Log block types for debugging
-    const blockTypes = response.content.map((b: any) => b.type);
     console.log(`[Agent][Research] Content block types: ${JSON.stringify(blockTypes)}`);
 
-    let reportText = "";
-    for (const block of response.content) {
-      if (block.type === "text") {
-        reportText += block.text;
-      }
-    }
-
     console.log(`[Agent][Research] Extracted report length: ${reportText.length} chars`);
 
     if (!reportText || reportText.length < 100) {
@@ -875,24 +1636,26 @@ Use web search to find current information.`;
       // Fallback: try to extract any text content from the response
       if (reportText.length === 0) {
         console.error(`[Agent][Research] CRITICAL: No text blocks found in Claude response for ${company.title}`);
-        throw new Error(`Claude returned no text content for ${company.title} - response had ${response.content.length} blocks of types: ${blockTypes.join(', ')}`);
+        throw new Error(`Claude returned no text content for ${company.title} - response had ${blockTypes.length} blocks of types: ${blockTypes.join(', ')}`);
       }
     }
 
-    return reportText;
+    return { text: reportText, model: response.model };
   }
 
   private async enhanceWithDatabases(
     companyName: string,
     industry: string,
     baseReport: string,
-    strategy: 'buy-side' | 'sell-side' | 'dual'
+    strategy: 'buy-side' | 'sell-side' | 'dual',
+    onStep?: (stage: string, message: string) => void
   ): Promise<string> {
     let enhancedReport = baseReport;
 
     console.log(`[Agent] Enhancing ${companyName} with public databases...`);
 
     try {
+      onStep?.("patents", "searching USPTO patents");
       enhancedReport = await addPatentIntelligence(companyName, enhancedReport);
       console.log(`[Agent] ✓ Added patent intelligence`);
     } catch (error) {
@@ -908,6 +1671,7 @@ Use web search to find current information.`;
       industry.toLowerCase().includes("biotech")
     ) {
       try {
+        onStep?.("fda", "checking FDA records");
         enhancedReport = await addFDAIntelligence(companyName, enhancedReport);
         console.log(`[Agent] ✓ Added FDA intelligence`);
       } catch (error) {
@@ -918,33 +1682,6 @@ Use web search to find current information.`;
     return enhancedReport;
   }
 
-  private scoreReportQuality(report: string): { qualityScore: number; contactsFound: number } {
-    const expectedSections = [
-      /executive summary/i,
-      /strategic assessment/i,
-      /business overview/i,
-      /financial intelligence/i,
-      /competitive landscape/i,
-      /management team/i,
-      /growth indicators/i,
-      /key contacts|decision-maker/i,
-      /risks.*diligence/i,
-      /valuation framework/i,
-      /next steps/i,
-    ];
-
-    let qualityScore = 0;
-    for (const pattern of expectedSections) {
-      if (pattern.test(report)) qualityScore++;
-    }
-
-    // Count contacts found (pattern: **Name** - Title)
-    const contactMatches = report.match(/\*\*[^*]+\*\*\s*-\s*[^\n]+/g);
-    const contactsFound = contactMatches ? contactMatches.length : 0;
-
-    return { qualityScore, contactsFound };
-  }
-
   async generateOutreach(reportId: number, strategy: string = 'buy-side'): Promise<any> {
     const { storage } = await import("./storage");
 
@@ -953,6 +1690,7 @@ Use web search to find current information.`;
     if (!report.report) throw new Error(`Report ${reportId} has no content`);
 
     console.log(`[Agent] Generating outreach for ${report.companyName} (${strategy})`);
+    const thesis = await investmentTheses.forReport(reportId);
 
     const prompt = `Based on this M&A research report, write a personalized outreach email to the company's decision-makers.
 
@@ -961,7 +1699,7 @@ Strategy: ${strategy}
 Industry: ${report.industry || 'Unknown'}
 
 Research Report (excerpt - first 3000 chars):
-${report.report.substring(0, 3000)}
+${report.report.substring(0, 3000)}${formatThesisForPrompt(thesis, "use it to explain why this company fits what the sender is looking for; never quote it or mention deal-breakers")}
 
 Write a professional, warm outreach email that:
 1. References something SPECIFIC about their company (recent achievement, market position, or growth)
@@ -975,20 +1713,14 @@ Write a professional, warm outreach email that:
 Do NOT use generic M&A jargon. Make it feel personal and researched.
 Return ONLY the email body text, no subject line or headers.`;
 
-    const response = await withRetry(() => anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 2000,
-      messages: [{ role: "user", content: prompt }],
-    }), `Outreach generation for ${report.companyName}`);
-
-    let messageText = "";
-    for (const block of response.content) {
-      if (block.type === "text") messageText += block.text;
-    }
+    const { text: messageText } = await costTracker.run({ reportId: report.id }, () =>
+      llm.complete("outreach", prompt, { label: `Outreach generation for ${report.companyName}` })
+    );
 
     const outreach = await storage.createOutreach({
       originalMessage: messageText.trim(),
       reportId: report.id,
+      companyId: report.companyId ?? null,
       strategy,
     });
 
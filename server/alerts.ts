@@ -0,0 +1,41 @@
+import { storage } from "./storage";
+
+// Operator alerts (budget caps, stale config parameters). Stored so the
+// dashboard can show them until someone acknowledges them.
+
+export type AlertType = "budget_exceeded" | "stale_parameters";
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export interface AlertInput {
+  type: AlertType;
+  severity?: AlertSeverity;
+  title: string;
+  message: string;
+  configId?: number | null;
+  workflowId?: number | null;
+  data?: Record<string, any>;
+  // Alerts with the same key are raised once
+  dedupeKey?: string;
+}
+
+class AlertService {
+  /** Store an alert for the dashboard. Returns null if one with the same dedupeKey already exists. */
+  async raise(input: AlertInput): Promise<any | null> {
+    const alert = await storage.createAlert({
+      type: input.type,
+      severity: input.severity || "warning",
+      title: input.title,
+      message: input.message,
+      configId: input.configId ?? null,
+      workflowId: input.workflowId ?? null,
+      data: input.data ?? null,
+      dedupeKey: input.dedupeKey ?? null,
+    });
+    if (!alert) return null;
+
+    console.warn(`[Alert] ${alert.severity.toUpperCase()}: ${alert.title} — ${alert.message}`);
+    return alert;
+  }
+}
+
+export const alertService = new AlertService();
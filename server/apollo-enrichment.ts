@@ -1,5 +1,8 @@
 // server/apollo-enrichment.ts
 
+import { costTracker } from "./cost-tracker";
+import { httpClient } from "./http-client";
+
 interface DecisionMaker {
   name: string;
   title: string;
@@ -89,7 +92,7 @@ export class ApolloEnrichment {
     companyName: string;
     title?: string;
   }): Promise<any> {
-    const response = await fetch(`${this.baseUrl}/mixed_people/search`, {
+    const response = await httpClient.fetch("apollo", `${this.baseUrl}/mixed_people/search`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -107,6 +110,7 @@ export class ApolloEnrichment {
     if (!response.ok) {
       throw new Error(`Apollo API error: ${response.statusText}`);
     }
+    await costTracker.record({ provider: "apollo", operation: "people_search" });
 
     return await response.json();
   }
@@ -118,7 +122,7 @@ export class ApolloEnrichment {
     companyName: string;
     domain?: string;
   }): Promise<any> {
-    const response = await fetch(`${this.baseUrl}/organizations/enrich`, {
+    const response = await httpClient.fetch("apollo", `${this.baseUrl}/organizations/enrich`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -134,6 +138,7 @@ export class ApolloEnrichment {
     if (!response.ok) {
       throw new Error(`Apollo API error: ${response.statusText}`);
     }
+    await costTracker.record({ provider: "apollo", operation: "organization_enrich" });
 
     const data = await response.json();
     return data.organization;
@@ -0,0 +1,413 @@
+// server/auto-approval.ts
+
+import { parseRevenueBand, type FinancialEstimate } from "./financial-estimates";
+
+/**
+ * Auto-approval rule engine
+ *
+ * Each agent config carries an ordered list of rules. Rules are evaluated
+ * top-to-bottom against a scored company; the first rule whose condition
+ * matches decides the outcome (approve / review / reject). If no rule
+ * matches, the config's defaultAction applies (approve by default).
+ *
+ * Configs saved before the rule engine existed only have minScore /
+ * requiredConfidence / requiredIndustries / requiredRevenueRange — those are
+ * expanded into an equivalent rule list by resolveApprovalRules().
+ */
+
+export type ApprovalAction = "approve" | "review" | "reject";
+export type ConfidenceLevel = "High" | "Medium" | "Low";
+
+export type ApprovalRuleField =
+  | "score"
+  | "confidence"
+  | "ownershipType"
+  | "revenue"
+  | "industry"
+  | "geography"
+  | "ipUpside";
+
+export type ApprovalRuleOperator =
+  | "gte"
+  | "lt"
+  | "in"
+  | "not_in"
+  | "between"
+  | "outside"
+  | "is";
+
+export interface RevenueBand {
+  min?: number;
+  max?: number;
+}
+
+export interface ApprovalCondition {
+  field: ApprovalRuleField;
+  operator: ApprovalRuleOperator;
+  value: number | string | string[] | boolean | RevenueBand;
+}
+
+export interface ApprovalRule extends ApprovalCondition {
+  id: string;
+  action: ApprovalAction;
+  reason?: string;
+  enabled?: boolean;
+  when?: ApprovalCondition[]; // Further conditions that must all match too
+}
+
+export interface AutoApprovalRules {
+  minScore: number;
+  requiredConfidence: ConfidenceLevel;
+  requiredIndustries?: string[];
+  requiredRevenueRange?: string;
+  rules?: ApprovalRule[];
+  defaultAction?: ApprovalAction;
+}
+
+export interface ApprovalCandidate {
+  score: number;
+  confidence?: string;
+  ownershipType?: string;
+  estimatedRevenue?: string;
+  revenueEstimate?: FinancialEstimate | null; // Preferred over parsing estimatedRevenue
+  industry?: string;
+  geographicFocus?: string;
+  ipUpside?: boolean;
+}
+
+export interface ApprovalDecision {
+  action: ApprovalAction;
+  ruleId: string | null;
+  reason: string;
+}
+
+export const DEFAULT_MIN_SCORE = 6;
+export const DEFAULT_REQUIRED_CONFIDENCE: ConfidenceLevel = "Low";
+const REVENUE_CEILING = 150000000;
+const IP_UPSIDE_REVENUE_THRESHOLD = 10000000; // IP upside only rescues companies below this revenue
+
+const CONFIDENCE_RANK: Record<string, number> = { Low: 1, Medium: 2, High: 3 };
+
+const OPERATORS_BY_FIELD: Record<ApprovalRuleField, ApprovalRuleOperator[]> = {
+  score: ["gte", "lt"],
+  confidence: ["gte", "lt"],
+  ownershipType: ["in", "not_in"],
+  revenue: ["between", "outside"],
+  industry: ["in", "not_in"],
+  geography: ["in", "not_in"],
+  ipUpside: ["is"],
+};
+
+/**
+ * Parse a free-text revenue figure ("$25M", "$20M-$50M", "~30 million") into
+ * dollars: the midpoint of a range, else the stated amount. Returns 0 when
+ * the string is empty or unparseable.
+ */
+export function parseRevenue(revenueStr: string | null | undefined): number {
+  const band = parseRevenueBand(revenueStr);
+  if (!band) return 0;
+  return band.low !== null && band.high !== null ? (band.low + band.high) / 2 : band.low ?? band.high ?? 0;
+}
+
+/**
+ * Parse a revenue range string ("$20M-$100M", "$50M+", "under $10M") into a band.
+ * Returns null if no bound could be parsed.
+ */
+export function parseRevenueRange(rangeStr: string | null | undefined): RevenueBand | null {
+  const band = parseRevenueBand(rangeStr);
+  if (!band) return null;
+  const range: RevenueBand = {};
+  if (band.low !== null) range.min = band.low;
+  if (band.high !== null) range.max = band.high;
+  return range;
+}
+
+/** A candidate's revenue in dollars: the estimate's point, else parsed from the text (0 if unknown). */
+export function candidateRevenue(company: Pick<ApprovalCandidate, "estimatedRevenue" | "revenueEstimate">): number {
+  return company.revenueEstimate?.point ?? parseRevenue(company.estimatedRevenue);
+}
+
+/**
+ * Expand a config's approval settings into the ordered rule list the engine runs.
+ * Explicit `rules` win; otherwise the legacy fields plus the strategy / PE filter
+ * guards that used to be hardcoded in the orchestrator are turned into rules.
+ */
+export function resolveApprovalRules(
+  rules: Partial<AutoApprovalRules> | null | undefined,
+  criteria: { strategy?: string; peFilter?: string } = {}
+): ApprovalRule[] {
+  const guards = criteriaGuardRules(criteria);
+  if (rules?.rules && rules.rules.length > 0) {
+    // Explicit rules never replace the search criteria's PE guards; older
+    // configs saved a copy of them, which the guard itself now covers
+    const guardIds = new Set(guards.map(rule => rule.id));
+    return [...guards, ...rules.rules.filter(r => r.enabled !== false && !guardIds.has(r.id))];
+  }
+
+  const resolved: ApprovalRule[] = [...guards];
+  resolved.push({
+    id: 'ip-upside',
+    field: 'ipUpside',
+    operator: 'is',
+    value: true,
+    when: [{ field: 'revenue', operator: 'outside', value: { min: IP_UPSIDE_REVENUE_THRESHOLD } }],
+    action: 'review',
+    reason: 'Below revenue threshold but significant IP upside detected - manual review recommended',
+  });
+  resolved.push({
+    id: 'revenue-ceiling',
+    field: 'revenue',
+    operator: 'outside',
+    value: { max: REVENUE_CEILING },
+    action: 'review',
+  });
+
+  const band = parseRevenueRange(rules?.requiredRevenueRange);
+  if (band) {
+    resolved.push({
+      id: 'required-revenue',
+      field: 'revenue',
+      operator: 'outside',
+      value: band,
+      action: 'review',
+    });
+  }
+
+  if (rules?.requiredIndustries && rules.requiredIndustries.length > 0) {
+    resolved.push({
+      id: 'required-industries',
+      field: 'industry',
+      operator: 'not_in',
+      value: rules.requiredIndustries,
+      action: 'review',
+    });
+  }
+
+  resolved.push({
+    id: 'min-score',
+    field: 'score',
+    operator: 'lt',
+    value: rules?.minScore ?? DEFAULT_MIN_SCORE,
+    action: 'review',
+  });
+  resolved.push({
+    id: 'required-confidence',
+    field: 'confidence',
+    operator: 'lt',
+    value: rules?.requiredConfidence ?? DEFAULT_REQUIRED_CONFIDENCE,
+    action: 'review',
+  });
+
+  return resolved;
+}
+
+/**
+ * Rules the search criteria imply (PE filter, buy-side PE review). They run
+ * before a config's own rules, whether those are explicit or legacy.
+ */
+export function criteriaGuardRules(criteria: { strategy?: string; peFilter?: string } = {}): ApprovalRule[] {
+  const guards: ApprovalRule[] = [];
+  const { strategy = 'buy-side', peFilter } = criteria;
+
+  if (peFilter === 'not-pe-backed') {
+    guards.push({
+      id: 'pe-excluded',
+      field: 'ownershipType',
+      operator: 'in',
+      value: ['PE-Backed'],
+      action: 'reject',
+      reason: 'PE-backed company auto-rejected (PE filter: not PE-backed)',
+    });
+  }
+  if (peFilter === 'pe-backed') {
+    guards.push({
+      id: 'pe-only',
+      field: 'ownershipType',
+      operator: 'not_in',
+      value: ['PE-Backed'],
+      action: 'review',
+      reason: 'Not PE-backed - requires manual review (PE filter: PE-backed only)',
+    });
+  }
+  if (strategy === 'buy-side' && peFilter !== 'pe-backed') {
+    guards.push({
+      id: 'pe-buy-side',
+      field: 'ownershipType',
+      operator: 'in',
+      value: ['PE-Backed'],
+      action: 'review',
+      reason: 'PE-backed company - requires manual review for buy-side strategy (competitive auction risk)',
+    });
+  }
+  return guards;
+}
+
+/**
+ * Run the ordered rules against a company. First match wins.
+ */
+export function evaluateApprovalRules(
+  company: ApprovalCandidate,
+  rules: ApprovalRule[],
+  defaultAction: ApprovalAction = 'approve'
+): ApprovalDecision {
+  for (const rule of rules) {
+    if (ruleMatches(rule, company) && (rule.when || []).every(condition => ruleMatches(condition, company))) {
+      return {
+        action: rule.action,
+        ruleId: rule.id,
+        reason: rule.reason || describeRule(rule, company),
+      };
+    }
+  }
+
+  const ownership = company.ownershipType && company.ownershipType !== 'Unknown' ? `, ${company.ownershipType}` : '';
+  return {
+    action: defaultAction,
+    ruleId: null,
+    reason: `Score ${company.score}/10, ${company.confidence || 'Low'} confidence${ownership}`,
+  };
+}
+
+/**
+ * Format a decision for discovery_queue.auto_approval_reason, tagged with the rule that fired.
+ */
+export function formatDecisionReason(decision: ApprovalDecision): string {
+  return `[${decision.ruleId || 'default'}] ${decision.reason}`;
+}
+
+/**
+ * Validate an autoApprovalRules payload from the API. Returns an error message or null.
+ */
+export function validateAutoApprovalRules(rules: any): string | null {
+  if (!rules || typeof rules !== "object") return "autoApprovalRules is required";
+  if (rules.minScore !== undefined && (typeof rules.minScore !== "number" || rules.minScore < 1 || rules.minScore > 10)) {
+    return "autoApprovalRules.minScore must be a number between 1 and 10";
+  }
+  if (rules.requiredConfidence !== undefined && !(rules.requiredConfidence in CONFIDENCE_RANK)) {
+    return "autoApprovalRules.requiredConfidence must be High, Medium or Low";
+  }
+  if (rules.defaultAction !== undefined && !isAction(rules.defaultAction)) {
+    return "autoApprovalRules.defaultAction must be approve, review or reject";
+  }
+  if (rules.rules === undefined) return null;
+  if (!Array.isArray(rules.rules)) return "autoApprovalRules.rules must be an array";
+
+  const ids = new Set<string>();
+  for (const [i, rule] of rules.rules.entries()) {
+    const label = `autoApprovalRules.rules[${i}]`;
+    if (!rule || typeof rule.id !== "string" || rule.id.trim().length === 0) return `${label}.id is required`;
+    if (ids.has(rule.id)) return `${label}.id "${rule.id}" is duplicated`;
+    ids.add(rule.id);
+    if (!(rule.field in OPERATORS_BY_FIELD)) return `${label}.field is invalid`;
+    if (!OPERATORS_BY_FIELD[rule.field as ApprovalRuleField].includes(rule.operator)) {
+      return `${label}.operator "${rule.operator}" is not valid for field ${rule.field}`;
+    }
+    if (!isAction(rule.action)) return `${label}.action must be approve, review or reject`;
+    if (rule.value === undefined || rule.value === null) return `${label}.value is required`;
+    if (rule.when !== undefined) {
+      if (!Array.isArray(rule.when)) return `${label}.when must be an array`;
+      for (const [j, condition] of rule.when.entries()) {
+        if (!condition || !(condition.field in OPERATORS_BY_FIELD)) return `${label}.when[${j}].field is invalid`;
+        if (!OPERATORS_BY_FIELD[condition.field as ApprovalRuleField].includes(condition.operator)) {
+          return `${label}.when[${j}].operator "${condition.operator}" is not valid for field ${condition.field}`;
+        }
+        if (condition.value === undefined || condition.value === null) return `${label}.when[${j}].value is required`;
+      }
+    }
+  }
+  return null;
+}
+
+function isAction(value: any): value is ApprovalAction {
+  return value === "approve" || value === "review" || value === "reject";
+}
+
+function listIncludes(list: string[], value: string): boolean {
+  const needle = value.toLowerCase();
+  return list.some(item => {
+    const candidate = item.toLowerCase().trim();
+    return candidate.length > 0 && (needle.includes(candidate) || candidate.includes(needle));
+  });
+}
+
+function toList(value: ApprovalRule["value"]): string[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") return value.split(",").map(v => v.trim()).filter(Boolean);
+  return [];
+}
+
+/**
+ * A rule only matches when the company has data for its field — missing revenue,
+ * industry or geography never trips a rule.
+ */
+function ruleMatches(rule: ApprovalCondition, company: ApprovalCandidate): boolean {
+  switch (rule.field) {
+    case "score": {
+      const threshold = Number(rule.value);
+      return rule.operator === "gte" ? company.score >= threshold : company.score < threshold;
+    }
+    case "confidence": {
+      const actual = CONFIDENCE_RANK[company.confidence || "Low"] ?? 1;
+      const required = CONFIDENCE_RANK[String(rule.value)] ?? 1;
+      return rule.operator === "gte" ? actual >= required : actual < required;
+    }
+    case "ownershipType": {
+      const ownership = company.ownershipType || "Unknown";
+      const inList = toList(rule.value).some(v => v.toLowerCase() === ownership.toLowerCase());
+      return rule.operator === "in" ? inList : !inList;
+    }
+    case "industry":
+    case "geography": {
+      const actual = rule.field === "industry" ? company.industry : company.geographicFocus;
+      if (!actual) return false;
+      const inList = listIncludes(toList(rule.value), actual);
+      return rule.operator === "in" ? inList : !inList;
+    }
+    case "revenue": {
+      const revenue = candidateRevenue(company);
+      if (!revenue) return false;
+      const band = (rule.value || {}) as RevenueBand;
+      const inBand = (band.min === undefined || revenue >= band.min) && (band.max === undefined || revenue <= band.max);
+      return rule.operator === "between" ? inBand : !inBand;
+    }
+    case "ipUpside":
+      return !!company.ipUpside === (rule.value === true || rule.value === "true");
+    default:
+      return false;
+  }
+}
+
+function formatMillions(amount: number | undefined): string {
+  return amount === undefined ? "?" : `$${(amount / 1000000).toFixed(amount < 10000000 ? 1 : 0)}M`;
+}
+
+function describeRule(rule: ApprovalRule, company: ApprovalCandidate): string {
+  switch (rule.field) {
+    case "score":
+      return rule.operator === "lt"
+        ? `Score ${company.score}/10 below threshold (${rule.value})`
+        : `Score ${company.score}/10 at or above ${rule.value}`;
+    case "confidence":
+      return rule.operator === "lt"
+        ? `Confidence ${company.confidence || "Low"} below required ${rule.value}`
+        : `Confidence ${company.confidence || "Low"} meets ${rule.value}`;
+    case "ownershipType":
+      return `Ownership ${company.ownershipType || "Unknown"} ${rule.operator === "in" ? "is" : "is not"} one of ${toList(rule.value).join(", ")}`;
+    case "industry":
+      return `Industry ${company.industry} ${rule.operator === "in" ? "matches" : "outside"} ${toList(rule.value).join(", ")}`;
+    case "geography":
+      return `Geography ${company.geographicFocus} ${rule.operator === "in" ? "matches" : "outside"} ${toList(rule.value).join(", ")}`;
+    case "revenue": {
+      const band = (rule.value || {}) as RevenueBand;
+      const revenue = formatMillions(candidateRevenue(company));
+      const range = band.min === undefined ? `up to ${formatMillions(band.max)}`
+        : band.max === undefined ? `${formatMillions(band.min)}+`
+        : `${formatMillions(band.min)}-${formatMillions(band.max)}`;
+      return `Revenue ${revenue} ${rule.operator === "between" ? "within" : "outside"} ${range}`;
+    }
+    case "ipUpside":
+      return company.ipUpside ? "Significant IP upside detected" : "No IP upside detected";
+    default:
+      return `Rule ${rule.id} matched`;
+  }
+}
@@ -0,0 +1,160 @@
+import { storage } from "./storage";
+import { alertService } from "./alerts";
+import { workflowEvents } from "./workflow-events";
+
+// Spend budgets per agent config. A run snapshots its config's budget when it
+// starts; scoring, approval and research check it before each company, using
+// the spend recorded in api_usage (server/cost-tracker.ts). Once a cap is hit
+// the run stops spending: remaining companies go to the review queue marked
+// budget-deferred, and an alert fires. Manual approvals are explicit requests
+// and are never capped.
+
+export interface AgentBudget {
+  maxRunCostUsd?: number | null;      // Dollars one run may spend
+  maxMonthlyCostUsd?: number | null;  // Dollars all runs of the config may spend per calendar month (UTC)
+  maxResearchPerRun?: number | null;  // Companies one run may auto-approve for deep research
+}
+
+export interface BudgetCheck {
+  exceeded: boolean;
+  reason: string | null;
+  runSpend: number;
+  monthSpend: number | null;
+}
+
+const BUDGET_FIELDS: (keyof AgentBudget)[] = ["maxRunCostUsd", "maxMonthlyCostUsd", "maxResearchPerRun"];
+
+export function validateBudget(budget: any): string | null {
+  if (budget === undefined || budget === null) return null;
+  if (typeof budget !== "object" || Array.isArray(budget)) return "budget must be an object";
+  for (const field of BUDGET_FIELDS) {
+    const value = budget[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "number" || !isFinite(value) || value < 0) {
+      return `budget.${field} must be a non-negative number`;
+    }
+  }
+  if (budget.maxResearchPerRun != null && !Number.isInteger(budget.maxResearchPerRun)) {
+    return "budget.maxResearchPerRun must be a whole number";
+  }
+  return null;
+}
+
+/** Keep only the caps that are set; null means the config is unlimited. */
+export function normalizeBudget(budget: any): AgentBudget | null {
+  if (!budget || typeof budget !== "object") return null;
+  const normalized: AgentBudget = {};
+  for (const field of BUDGET_FIELDS) {
+    if (typeof budget[field] === "number" && budget[field] >= 0) normalized[field] = budget[field];
+  }
+  return Object.keys(normalized).length > 0 ? normalized : null;
+}
+
+function startOfMonth(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+class BudgetGuard {
+  /**
+   * Check a run's spend against its dollar caps. Once a run is marked as over
+   * budget it stays that way, so in-flight steps all stop at the same point.
+   */
+  async checkSpend(workflowId: number): Promise<BudgetCheck> {
+    const workflow = await storage.getWorkflow(workflowId);
+    const budget = normalizeBudget(workflow?.budget);
+    if (!workflow || !budget) return { exceeded: false, reason: null, runSpend: 0, monthSpend: null };
+
+    const runSpend = await storage.getWorkflowSpend(workflowId);
+    if (workflow.budgetStatus === "exceeded") {
+      return { exceeded: true, reason: workflow.budgetExceededReason, runSpend, monthSpend: null };
+    }
+
+    if (budget.maxRunCostUsd != null && runSpend >= budget.maxRunCostUsd) {
+      const reason = `run spend ${formatUsd(runSpend)} reached the ${formatUsd(budget.maxRunCostUsd)} per-run cap`;
+      await this.markExceeded(workflow, reason, { runSpend });
+      return { exceeded: true, reason, runSpend, monthSpend: null };
+    }
+
+    let monthSpend: number | null = null;
+    if (budget.maxMonthlyCostUsd != null && workflow.configId) {
+      monthSpend = await storage.getConfigSpendSince(workflow.configId, startOfMonth());
+      if (monthSpend >= budget.maxMonthlyCostUsd) {
+        const reason = `month-to-date spend ${formatUsd(monthSpend)} reached the ${formatUsd(budget.maxMonthlyCostUsd)} monthly cap`;
+        await this.markExceeded(workflow, reason, { runSpend, monthSpend });
+        return { exceeded: true, reason, runSpend, monthSpend };
+      }
+    }
+    return { exceeded: false, reason: null, runSpend, monthSpend };
+  }
+
+  /** How many more companies this run may auto-approve for research (null = no cap). */
+  researchCap(workflow: any): number | null {
+    return normalizeBudget(workflow?.budget)?.maxResearchPerRun ?? null;
+  }
+
+  /** Flag the run as over budget, tell the live feed and raise an alert (once per run). */
+  async markExceeded(workflow: any, reason: string, data: Record<string, any> = {}): Promise<void> {
+    if (workflow.budgetStatus === "exceeded") return;
+    workflow.budgetStatus = "exceeded";
+    workflow.budgetExceededReason = reason;
+    await storage.updateWorkflow(workflow.id, { budgetStatus: "exceeded", budgetExceededReason: reason });
+    await this.announce(workflow, reason, data, {
+      title: "Budget cap reached",
+      message: `Workflow ${workflow.id} stopped spending: ${reason}. Unresearched companies were sent to the review queue as budget-deferred.`,
+      dedupeKey: `budget_exceeded:workflow:${workflow.id}`,
+    });
+  }
+
+  /**
+   * The research cap only limits new approvals; companies already approved are
+   * still researched, so the run isn't marked as over budget. Its alert has its
+   * own dedupe key so a later dollar-cap breach in the same run still alerts.
+   */
+  async researchCapReached(workflow: any, reason: string): Promise<void> {
+    await storage.updateWorkflow(workflow.id, { budgetExceededReason: reason });
+    await this.announce(workflow, reason, { researchCap: this.researchCap(workflow) }, {
+      title: "Research cap reached",
+      message: `Workflow ${workflow.id} stopped auto-approving: ${reason}. Companies already approved are still researched; the rest were sent to the review queue as budget-deferred.`,
+      dedupeKey: `budget_research_cap:workflow:${workflow.id}`,
+    });
+  }
+
+  private async announce(
+    workflow: any,
+    reason: string,
+    data: Record<string, any>,
+    alert: { title: string; message: string; dedupeKey: string }
+  ): Promise<void> {
+    console.warn(`[Budget] Workflow ${workflow.id} over budget: ${reason}`);
+    workflowEvents.emit(workflow.id, "budget", `Budget cap reached: ${reason}. Remaining companies go to review.`, { data });
+
+    const config = workflow.configId ? await storage.getAgentConfig(workflow.configId) : null;
+    await alertService.raise({
+      type: "budget_exceeded",
+      severity: "warning",
+      title: `${alert.title}${config ? ` for "${config.name}"` : ""}`,
+      message: alert.message,
+      configId: workflow.configId,
+      workflowId: workflow.id,
+      data: { reason, budget: workflow.budget, ...data },
+      dedupeKey: alert.dedupeKey,
+    });
+  }
+
+  /** Send an approved-but-unresearched company back to review instead of researching it. */
+  async deferToReview(workflowId: number, queueId: number, companyName: string, reason: string): Promise<void> {
+    await storage.updateDiscoveryQueueItem(queueId, {
+      approvalStatus: "pending",
+      budgetDeferred: true,
+      autoApprovalReason: `Budget-deferred: ${reason}`,
+      approvedAt: null,
+      researchStatus: null,
+    });
+    console.log(`[Budget] Deferred ${companyName} to review (${reason})`);
+    workflowEvents.emit(workflowId, "review", `Deferred ${companyName} to review: over budget`, { companyName, queueId });
+  }
+}
+
+export const budgetGuard = new BudgetGuard();
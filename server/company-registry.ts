@@ -0,0 +1,231 @@
+import { storage } from "./storage";
+
+// Canonical company registry. Every agent resolves the companies it touches
+// through here, so "Acme Mfg, Inc." from discovery, "ACME Manufacturing" from
+// the weekly engine and acme.com from a direct request land on one row.
+// Matching order: root domain → exact normalized name/alias → fuzzy name.
+
+export type CompanySource = "discovery" | "direct" | "weekly_intelligence" | "manual" | "backfill";
+
+export interface CompanyInput {
+  name: string;
+  websiteUrl?: string | null;
+  industry?: string | null;
+  revenue?: string | null;
+  configId?: number | null;
+}
+
+// Names at or above this similarity are treated as the same company
+const FUZZY_MATCH_THRESHOLD = 0.88;
+
+// Second-level registrations where the root domain has three labels (acme.co.uk)
+const MULTI_PART_TLDS = new Set([
+  "co.uk", "org.uk", "ac.uk", "gov.uk", "com.au", "net.au", "org.au", "co.nz",
+  "co.jp", "com.br", "co.in", "com.mx", "co.za", "com.sg", "com.cn", "com.hk",
+]);
+
+// Hosts that show up as search result URLs but never identify the company itself
+const NON_COMPANY_DOMAINS = new Set([
+  "unknown", "linkedin.com", "facebook.com", "twitter.com", "x.com", "instagram.com",
+  "youtube.com", "crunchbase.com", "bloomberg.com", "zoominfo.com", "dnb.com",
+  "wikipedia.org", "google.com", "medium.com", "prnewswire.com", "businesswire.com",
+  "globenewswire.com", "yelp.com", "bbb.org", "glassdoor.com", "indeed.com",
+  "pitchbook.com", "owler.com", "manta.com", "yahoo.com", "forbes.com", "inc.com",
+]);
+
+const LEGAL_SUFFIXES = new Set([
+  "inc", "incorporated", "llc", "llp", "lp", "ltd", "limited", "corp", "corporation",
+  "co", "company", "plc", "gmbh", "ag", "sa", "pllc", "pc", "holdings", "group",
+]);
+
+const ABBREVIATIONS: Record<string, string> = {
+  mfg: "manufacturing",
+  mfr: "manufacturing",
+  intl: "international",
+  natl: "national",
+  svcs: "services",
+  svc: "services",
+  sys: "systems",
+  tech: "technologies",
+  technology: "technologies",
+  assoc: "associates",
+  bros: "brothers",
+  eng: "engineering",
+  mgmt: "management",
+  labs: "laboratories",
+  lab: "laboratories",
+  "&": "and",
+};
+
+/**
+ * Root domain of a URL or bare host: "https://www.shop.acme.co.uk/about" → "acme.co.uk".
+ * Returns null for placeholders and directory/news/social sites.
+ */
+export function normalizeDomain(url: string | null | undefined): string | null {
+  if (!url) return null;
+  let host = url.trim().toLowerCase();
+  host = host.replace(/^[a-z]+:\/\//, "").split(/[/?#]/)[0].split("@").pop()!.split(":")[0];
+  host = host.replace(/^www\d*\./, "").replace(/\.$/, "");
+  if (!host.includes(".") || /^\d+(\.\d+){3}$/.test(host)) return null;
+
+  const labels = host.split(".");
+  const lastTwo = labels.slice(-2).join(".");
+  const root = MULTI_PART_TLDS.has(lastTwo) && labels.length >= 3 ? labels.slice(-3).join(".") : lastTwo;
+  return NON_COMPANY_DOMAINS.has(root) ? null : root;
+}
+
+/** "Acme Mfg, Inc." → "acme manufacturing". */
+export function normalizeCompanyName(name: string): string {
+  const tokens = name
+    .toLowerCase()
+    .replace(/&/g, " & ")
+    .replace(/[^a-z0-9& ]+/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => ABBREVIATIONS[token] || token);
+
+  // Strip trailing legal suffixes ("Acme Holdings Group Inc"), but never the whole name
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  // A leading "the" carries no identity either
+  if (tokens.length > 1 && tokens[0] === "the") tokens.shift();
+  return tokens.join(" ");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const compact = text.replace(/\s+/g, " ");
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+/** Dice coefficient over character bigrams of two normalized names (0–1). */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // Very short names ("abc") only match exactly — bigram overlap is meaningless there
+  if (a.length < 4 || b.length < 4) return 0;
+
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+  for (const [gram, count] of gramsA) {
+    overlap += Math.min(count, gramsB.get(gram) || 0);
+    total += count;
+  }
+  for (const count of gramsB.values()) total += count;
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+class CompanyRegistry {
+  /**
+   * Find the canonical company for a name/URL without creating anything.
+   */
+  async find(input: CompanyInput): Promise<any | null> {
+    const domain = normalizeDomain(input.websiteUrl);
+    const normalizedName = normalizeCompanyName(input.name || "");
+
+    if (domain) {
+      const byDomain = await storage.getCompanyByDomain(domain);
+      if (byDomain) return byDomain;
+    }
+    if (!normalizedName) return null;
+
+    const firstToken = normalizedName.split(" ")[0];
+    const { byName, byAlias } = await storage.findCompanyCandidates(firstToken);
+    const candidates = [
+      ...byName.map(company => ({ company, normalized: company.normalizedName || "" })),
+      ...byAlias.map(row => ({ company: row.company, normalized: row.alias })),
+    ];
+
+    let best: { company: any; score: number } | null = null;
+    for (const { company, normalized } of candidates) {
+      // Two different real domains are two different companies, however alike the names
+      if (domain && company.domain && company.domain !== domain) continue;
+      const score = nameSimilarity(normalizedName, normalized);
+      if (score >= FUZZY_MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { company, score };
+      }
+    }
+    return best?.company ?? null;
+  }
+
+  /**
+   * Find or create the canonical company, recording any new spelling as an
+   * alias and filling in a domain the registry didn't have yet.
+   */
+  async resolve(input: CompanyInput, source: CompanySource): Promise<any> {
+    const domain = normalizeDomain(input.websiteUrl);
+    const normalizedName = normalizeCompanyName(input.name || "");
+    const existing = await this.find(input);
+
+    if (existing) {
+      if (input.name && normalizedName && normalizedName !== existing.normalizedName) {
+        await storage.addCompanyAlias(existing.id, input.name.trim(), normalizedName, source);
+      }
+      if (domain && !existing.domain) {
+        const updated = await storage.updateCompany(existing.id, {
+          domain,
+          websiteUrl: existing.websiteUrl || input.websiteUrl,
+        }).catch(() => null); // Another company already owns the domain; leave this one as is
+        if (updated) return updated;
+      }
+      return existing;
+    }
+
+    const company = await storage.createCompany({
+      name: input.name.trim(),
+      normalizedName,
+      domain,
+      websiteUrl: domain ? input.websiteUrl : null,
+      industry: input.industry || null,
+      revenue: input.revenue || null,
+      configId: input.configId || null,
+    });
+    console.log(`[Companies] Registered ${company.name} (ID: ${company.id}${domain ? `, ${domain}` : ""}) from ${source}`);
+    return company;
+  }
+
+  /**
+   * Link rows written before the registry existed. Each call handles a
+   * bounded batch per table; it runs on every startup until nothing is left.
+   */
+  async backfill(): Promise<number> {
+    let linked = 0;
+    const { queueItems, reports, contacts } = await storage.getUnlinkedCompanyRecords();
+    const linkedReportIds = new Set<number>();
+
+    for (const item of queueItems) {
+      const company = await this.resolve({ name: item.name, websiteUrl: item.websiteUrl }, "backfill");
+      await storage.linkCompanyRecord("discoveryQueue", item.id, company.id);
+      if (item.reportId) {
+        await storage.linkCompanyRecord("reports", item.reportId, company.id);
+        linkedReportIds.add(item.reportId);
+      }
+      linked++;
+    }
+    for (const report of reports) {
+      if (linkedReportIds.has(report.id)) continue;
+      const company = await this.resolve({ name: report.name, websiteUrl: report.websiteUrl }, "backfill");
+      await storage.linkCompanyRecord("reports", report.id, company.id);
+      linked++;
+    }
+    for (const contact of contacts) {
+      const company = await this.resolve({ name: contact.name, websiteUrl: contact.websiteUrl }, "backfill");
+      await storage.linkCompanyRecord("targetContacts", contact.id, company.id);
+      linked++;
+    }
+    linked += await storage.linkOutreachToReportCompanies();
+
+    if (linked > 0) {
+      console.log(`[Companies] Backfill linked ${linked} existing records to the registry`);
+    }
+    return linked;
+  }
+}
+
+export const companyRegistry = new CompanyRegistry();
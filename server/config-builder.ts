@@ -0,0 +1,188 @@
+import { llm } from "./llm-gateway";
+import { validateAutoApprovalRules } from "./auto-approval";
+
+// Natural-language config builder. A partner describes a thesis in a
+// sentence ("founder-owned commercial HVAC contractors in Texas and
+// Oklahoma, $15-40M revenue, owner near retirement") and Claude drafts the
+// search criteria and approval rules the dashboard form would take. The
+// draft is normalized to the values the form offers and nothing is saved:
+// every field comes back with where it came from so the partner can confirm
+// it before the config is created.
+
+export const MAX_THESIS_LENGTH = 2000;
+
+// Options offered by the dashboard form's checkboxes and selects
+export const EMPLOYEE_COUNT_OPTIONS = ["1-10", "10-50", "50-200", "200-500", "500+"];
+export const YEARS_IN_BUSINESS_OPTIONS = ["5+", "10+", "15+", "20+"];
+export const FUNDING_STATUS_OPTIONS = ["Bootstrapped", "VC-backed", "PE-backed", "Search Fund"];
+export const GROWTH_STATUS_OPTIONS = ["High growth", "Stable", "Mature"];
+const STRATEGIES = ["buy-side", "sell-side", "dual"];
+const PE_FILTERS = ["pe-backed", "not-pe-backed", "both"];
+const CONFIDENCE_LEVELS = ["High", "Medium", "Low"];
+
+const LIST_FIELDS: Record<string, string[]> = {
+  employeeCount: EMPLOYEE_COUNT_OPTIONS,
+  yearsInBusiness: YEARS_IN_BUSINESS_OPTIONS,
+  fundingStatus: FUNDING_STATUS_OPTIONS,
+  growthStatus: GROWTH_STATUS_OPTIONS,
+};
+const TEXT_FIELDS = ["query", "industry", "revenueRange", "geographicFocus"];
+
+// "thesis": stated in the thesis; "inferred": Claude's reading of it; "default": not mentioned, form default used
+export type DraftFieldSource = "thesis" | "inferred" | "default";
+
+export interface DraftField {
+  field: string; // Path in the config, e.g. searchCriteria.industry
+  value: any;
+  source: DraftFieldSource;
+  note: string;
+}
+
+export interface ConfigDraft {
+  thesis: string;
+  name: string;
+  searchCriteria: Record<string, any>;
+  autoApprovalRules: Record<string, any>;
+  fields: DraftField[];
+  warnings: string[];
+}
+
+export function validateThesis(thesis: any): string | null {
+  if (typeof thesis !== "string" || thesis.trim().length < 10) return "thesis must describe the target in at least a few words";
+  if (thesis.length > MAX_THESIS_LENGTH) return `thesis must be at most ${MAX_THESIS_LENGTH} characters`;
+  return null;
+}
+
+// Match a Claude-written option to the form's spelling ("vc backed" -> "VC-backed")
+function matchOption(value: any, options: string[]): string | null {
+  if (typeof value !== "string") return null;
+  const key = value.toLowerCase().replace(/[^a-z0-9+]/g, "");
+  return options.find(option => option.toLowerCase().replace(/[^a-z0-9+]/g, "") === key) ?? null;
+}
+
+/** Turn Claude's reply into a draft the form accepts; anything unusable is dropped with a warning. */
+export function parseConfigDraft(text: string, thesis: string): ConfigDraft {
+  const cleaned = text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) throw new Error("Claude did not return a config draft");
+  const data = JSON.parse(jsonMatch[0]);
+
+  const raw = data.searchCriteria && typeof data.searchCriteria === "object" ? data.searchCriteria : {};
+  const notes = data.fieldNotes && typeof data.fieldNotes === "object" ? data.fieldNotes : {};
+  const warnings: string[] = [];
+  const fields: DraftField[] = [];
+  const searchCriteria: Record<string, any> = {};
+
+  const addField = (field: string, key: string, value: any, fallbackSource: DraftFieldSource = "inferred") => {
+    const note = notes[key] || {};
+    const source: DraftFieldSource = ["thesis", "inferred", "default"].includes(note.source) ? note.source : fallbackSource;
+    fields.push({ field, value, source, note: typeof note.note === "string" ? note.note : "" });
+  };
+
+  for (const key of TEXT_FIELDS) {
+    const value = typeof raw[key] === "string" ? raw[key].trim() : "";
+    if (!value) continue;
+    searchCriteria[key] = value;
+    addField(`searchCriteria.${key}`, key, value);
+  }
+  if (!searchCriteria.query) {
+    searchCriteria.query = thesis.trim();
+    warnings.push("No search focus was drafted, so the thesis itself is used as the query");
+    addField("searchCriteria.query", "query", searchCriteria.query, "thesis");
+  }
+
+  const strategy = STRATEGIES.includes(raw.strategy) ? raw.strategy : "buy-side";
+  searchCriteria.strategy = strategy;
+  addField("searchCriteria.strategy", "strategy", strategy, STRATEGIES.includes(raw.strategy) ? "inferred" : "default");
+
+  const peFilter = PE_FILTERS.includes(raw.peFilter) ? raw.peFilter : "both";
+  searchCriteria.peFilter = peFilter;
+  addField("searchCriteria.peFilter", "peFilter", peFilter, PE_FILTERS.includes(raw.peFilter) ? "inferred" : "default");
+
+  for (const [key, options] of Object.entries(LIST_FIELDS)) {
+    if (!Array.isArray(raw[key]) || raw[key].length === 0) continue;
+    const matched = raw[key].map((value: any) => matchOption(value, options));
+    const dropped = raw[key].filter((_: any, i: number) => matched[i] === null);
+    if (dropped.length > 0) {
+      warnings.push(`Dropped ${key} value(s) the form doesn't offer: ${dropped.join(", ")}`);
+    }
+    const values = Array.from(new Set(matched.filter((value: string | null): value is string => value !== null)));
+    if (values.length === 0) continue;
+    searchCriteria[key] = values;
+    addField(`searchCriteria.${key}`, key, values);
+  }
+
+  const rawRules = data.autoApprovalRules && typeof data.autoApprovalRules === "object" ? data.autoApprovalRules : {};
+  const minScore = Number.isFinite(rawRules.minScore) ? Math.min(10, Math.max(1, Math.round(rawRules.minScore))) : 7;
+  const requiredConfidence = CONFIDENCE_LEVELS.includes(rawRules.requiredConfidence) ? rawRules.requiredConfidence : "High";
+  const autoApprovalRules: Record<string, any> = { minScore, requiredConfidence };
+  addField("autoApprovalRules.minScore", "minScore", minScore, Number.isFinite(rawRules.minScore) ? "inferred" : "default");
+  addField("autoApprovalRules.requiredConfidence", "requiredConfidence", requiredConfidence,
+    CONFIDENCE_LEVELS.includes(rawRules.requiredConfidence) ? "inferred" : "default");
+
+  if (Array.isArray(rawRules.rules) && rawRules.rules.length > 0) {
+    const candidate = { ...autoApprovalRules, rules: rawRules.rules, defaultAction: rawRules.defaultAction ?? "review" };
+    const rulesError = validateAutoApprovalRules(candidate);
+    if (rulesError) {
+      warnings.push(`Suggested approval rules were dropped: ${rulesError}`);
+    } else {
+      autoApprovalRules.rules = candidate.rules;
+      autoApprovalRules.defaultAction = candidate.defaultAction;
+      addField("autoApprovalRules.rules", "rules", candidate.rules);
+      addField("autoApprovalRules.defaultAction", "defaultAction", candidate.defaultAction);
+    }
+  }
+
+  const name = typeof data.name === "string" && data.name.trim() ? data.name.trim().slice(0, 80) : thesis.trim().slice(0, 60);
+  return { thesis, name, searchCriteria, autoApprovalRules, fields, warnings };
+}
+
+class ConfigBuilder {
+  async draft(thesis: string): Promise<ConfigDraft> {
+    const prompt = `You turn an M&A origination partner's investment thesis into a saved company-discovery search.
+
+THESIS:
+"""${thesis.trim()}"""
+
+Fill in only what the thesis states or clearly implies; leave other fields out.
+
+searchCriteria fields:
+- "query": the kind of company to search for, as a web search focus (required)
+- "industry": short industry label
+- "revenueRange": e.g. "$15M-$40M", "$50M+", "under $10M"
+- "geographicFocus": states, regions or countries, comma-separated
+- "strategy": "buy-side" (acquiring), "sell-side" (representing sellers) or "dual"
+- "peFilter": "not-pe-backed", "pe-backed" or "both" (founder-, family- or owner-run implies "not-pe-backed")
+- "employeeCount": any of ${EMPLOYEE_COUNT_OPTIONS.map(o => `"${o}"`).join(", ")}
+- "yearsInBusiness": any of ${YEARS_IN_BUSINESS_OPTIONS.map(o => `"${o}"`).join(", ")} (an owner near retirement implies a long-established business)
+- "fundingStatus": any of ${FUNDING_STATUS_OPTIONS.map(o => `"${o}"`).join(", ")}
+- "growthStatus": any of ${GROWTH_STATUS_OPTIONS.map(o => `"${o}"`).join(", ")}
+
+autoApprovalRules fields:
+- "minScore": 1-10, the fit score above which companies are researched automatically (7 is typical)
+- "requiredConfidence": "High", "Medium" or "Low"
+- "rules": optional ordered rules, first match wins. Each is { "id", "field", "operator", "value", "action", "reason" } where
+  field/operator/value is one of: score gte|lt number; confidence gte|lt "High"|"Medium"|"Low";
+  ownershipType in|not_in ["PE-Backed", "Founder-Led", "Family-Owned", ...]; revenue between|outside { "min": dollars, "max": dollars };
+  industry in|not_in [names]; geography in|not_in [states or regions]; ipUpside is true|false
+  and action is "approve", "review" or "reject". Only add rules for hard constraints in the thesis.
+- "defaultAction": action when no rule matches ("review" unless the thesis says otherwise)
+
+For every field you fill in, add a fieldNotes entry saying whether it was stated in the thesis ("thesis") or is your reading of it ("inferred"), with a one-line note.
+
+Return ONLY valid JSON:
+{
+  "name": "short config name",
+  "searchCriteria": { "query": "...", ... },
+  "autoApprovalRules": { "minScore": 7, "requiredConfidence": "Medium", "rules": [], "defaultAction": "review" },
+  "fieldNotes": { "industry": { "source": "thesis", "note": "..." } }
+}`;
+
+    const { text } = await llm.complete("config_builder", prompt, { label: "Claude config builder" });
+    const draft = parseConfigDraft(text, thesis);
+    console.log(`[Config] Drafted "${draft.name}" from a thesis (${draft.fields.length} fields, ${draft.warnings.length} warnings)`);
+    return draft;
+  }
+}
+
+export const configBuilder = new ConfigBuilder();
@@ -0,0 +1,128 @@
+import YAML from "yaml";
+import { validateAutoApprovalRules } from "./auto-approval";
+import { normalizeBudget, validateBudget } from "./budget";
+import { validateScoringWeights } from "./scoring-rubric";
+import { validateAlertThreshold } from "./stale-parameters";
+import { validateSchedule } from "./cron-schedule";
+import { normalizeInvestmentThesis, validateInvestmentThesis, type InvestmentThesis } from "./investment-thesis";
+
+// Portable config documents. A saved config exports as a JSON or YAML
+// document holding everything needed to recreate it elsewhere (search
+// criteria, approval rules, scoring weights, thesis, budget, schedule) but
+// nothing tied to this database: no ids, versions, run counters or active
+// flag. The same
+// format is used for the built-in template gallery (server/config-templates.ts).
+
+export const CONFIG_DOCUMENT_KIND = "cebron/agent-config";
+export const CONFIG_DOCUMENT_VERSION = 1;
+
+export type ConfigDocumentFormat = "json" | "yaml";
+
+export interface ConfigDocument {
+  kind: typeof CONFIG_DOCUMENT_KIND;
+  version: number;
+  name: string;
+  description?: string;
+  searchCriteria: Record<string, any>;
+  autoApprovalRules: Record<string, any>;
+  scoringWeights?: Record<string, number> | null;
+  investmentThesis?: InvestmentThesis | null;
+  budget?: Record<string, number> | null;
+  schedule?: string | null;
+  timezone?: string | null;
+  alertAfterUnchangedRuns?: number | null;
+}
+
+// Config columns carried by a document, in the order they're written out
+const DOCUMENT_FIELDS = [
+  "searchCriteria",
+  "autoApprovalRules",
+  "scoringWeights",
+  "investmentThesis",
+  "budget",
+  "schedule",
+  "timezone",
+  "alertAfterUnchangedRuns",
+] as const;
+
+export function parseDocumentFormat(value: any): ConfigDocumentFormat {
+  return typeof value === "string" && ["yaml", "yml"].includes(value.toLowerCase()) ? "yaml" : "json";
+}
+
+export function toConfigDocument(config: any, description?: string): ConfigDocument {
+  const document: any = {
+    kind: CONFIG_DOCUMENT_KIND,
+    version: CONFIG_DOCUMENT_VERSION,
+    name: config.name,
+  };
+  if (description) document.description = description;
+  for (const field of DOCUMENT_FIELDS) {
+    const value = config[field];
+    // Required on import, so written even when the config has no rules
+    if (field === "autoApprovalRules") {
+      document[field] = value || {};
+      continue;
+    }
+    if (value === null || value === undefined) continue;
+    if (typeof value === "object" && !Array.isArray(value) && Object.keys(value).length === 0) continue;
+    document[field] = value;
+  }
+  return document;
+}
+
+export function serializeConfigDocument(document: ConfigDocument, format: ConfigDocumentFormat): string {
+  return format === "yaml" ? YAML.stringify(document) : JSON.stringify(document, null, 2);
+}
+
+/** Parse a JSON or YAML document (JSON is valid YAML, so YAML handles both). */
+export function parseConfigDocument(content: string): any {
+  try {
+    return YAML.parse(content);
+  } catch (error: any) {
+    throw new Error(`Could not parse config document: ${error?.message || error}`);
+  }
+}
+
+/** Why a parsed document can't be imported, or null when it can. */
+export function validateConfigDocument(document: any): string | null {
+  if (!document || typeof document !== "object" || Array.isArray(document)) {
+    return "Config document must be an object";
+  }
+  if (document.kind !== undefined && document.kind !== CONFIG_DOCUMENT_KIND) {
+    return `Unsupported document kind "${document.kind}" (expected ${CONFIG_DOCUMENT_KIND})`;
+  }
+  if (document.version !== undefined && document.version > CONFIG_DOCUMENT_VERSION) {
+    return `Config document version ${document.version} is newer than this app supports (${CONFIG_DOCUMENT_VERSION})`;
+  }
+  if (!document.name || typeof document.name !== "string" || document.name.trim().length === 0) {
+    return "name is required";
+  }
+  if (!document.searchCriteria || typeof document.searchCriteria !== "object") {
+    return "searchCriteria is required";
+  }
+  if (!document.searchCriteria.query || typeof document.searchCriteria.query !== "string") {
+    return "searchCriteria.query is required";
+  }
+  return validateAutoApprovalRules(document.autoApprovalRules)
+    || validateBudget(document.budget)
+    || validateScoringWeights(document.scoringWeights)
+    || validateInvestmentThesis(document.investmentThesis)
+    || validateAlertThreshold(document.alertAfterUnchangedRuns)
+    || validateSchedule(document.schedule, document.timezone);
+}
+
+/**
+ * Settings for storage.createAgentConfig from a validated document. Imports
+ * always start inactive, so a shared setup never schedules runs or starts
+ * spending before someone has looked at it and activated it.
+ */
+export function configFromDocument(document: ConfigDocument, name?: string) {
+  const settings: any = { name: (name || document.name).trim() };
+  for (const field of DOCUMENT_FIELDS) {
+    if (document[field] !== undefined) settings[field] = document[field];
+  }
+  settings.budget = normalizeBudget(document.budget);
+  settings.investmentThesis = normalizeInvestmentThesis(document.investmentThesis);
+  settings.isActive = false;
+  return settings;
+}
@@ -0,0 +1,196 @@
+import { CONFIG_DOCUMENT_KIND, CONFIG_DOCUMENT_VERSION, type ConfigDocument } from "./config-documents";
+
+// Built-in starter configs for common lower-middle-market theses. Cloning one
+// creates an inactive saved config that can be tuned in the dashboard form;
+// the templates themselves are read-only and ship with the app.
+
+export interface ConfigTemplate {
+  id: string;
+  title: string;
+  summary: string;
+  tags: string[];
+  document: ConfigDocument;
+}
+
+const template = (
+  id: string,
+  title: string,
+  summary: string,
+  tags: string[],
+  settings: Omit<ConfigDocument, "kind" | "version" | "name" | "description">,
+): ConfigTemplate => ({
+  id,
+  title,
+  summary,
+  tags,
+  document: {
+    kind: CONFIG_DOCUMENT_KIND,
+    version: CONFIG_DOCUMENT_VERSION,
+    name: title,
+    description: summary,
+    ...settings,
+  },
+});
+
+export const CONFIG_TEMPLATES: ConfigTemplate[] = [
+  template(
+    "founder-led-hvac-southeast",
+    "Founder-led HVAC Southeast",
+    "Residential and light-commercial HVAC contractors in the Southeast still run by their founders — classic succession-driven buy-side targets.",
+    ["buy-side", "home services", "founder-led"],
+    {
+      searchCriteria: {
+        query: "founder-owned residential and commercial HVAC service and installation contractor",
+        industry: "HVAC services",
+        revenueRange: "$5M-$50M",
+        geographicFocus: "Southeast US (GA, FL, NC, SC, TN, AL)",
+        strategy: "buy-side",
+        peFilter: "not-pe-backed",
+        queryVariants: 4,
+        yearsInBusiness: ["15+"],
+      },
+      autoApprovalRules: {
+        minScore: 7,
+        requiredConfidence: "Medium",
+        rules: [
+          { id: "pe-excluded", field: "ownershipType", operator: "in", value: ["PE-Backed"], action: "reject", reason: "Already PE-backed" },
+          { id: "outside-southeast", field: "geography", operator: "not_in", value: ["GA", "FL", "NC", "SC", "TN", "AL", "Georgia", "Florida", "Carolina", "Tennessee", "Alabama"], action: "review", reason: "Outside the Southeast" },
+          { id: "strong-fit", field: "score", operator: "gte", value: 7, action: "approve", reason: "Strong fit" },
+        ],
+        defaultAction: "review",
+      },
+      scoringWeights: { ownershipFit: 3, geographyFit: 2 },
+      schedule: "0 19 * * 0,2,4",
+      timezone: "America/New_York",
+    },
+  ),
+  template(
+    "pe-backed-specialty-chemicals",
+    "PE-backed specialty chemicals",
+    "Specialty and performance chemical makers owned by PE sponsors, for sell-side and secondary-buyout coverage.",
+    ["sell-side", "industrials", "pe-backed"],
+    {
+      searchCriteria: {
+        query: "private equity backed specialty chemical manufacturer (coatings, additives, adhesives, performance chemicals)",
+        industry: "Specialty chemicals",
+        revenueRange: "$20M-$150M",
+        geographicFocus: "United States",
+        strategy: "sell-side",
+        peFilter: "pe-backed",
+        queryVariants: 4,
+        fundingStatus: ["PE-backed"],
+      },
+      autoApprovalRules: {
+        minScore: 7,
+        requiredConfidence: "High",
+        rules: [
+          { id: "pe-only", field: "ownershipType", operator: "not_in", value: ["PE-Backed"], action: "review", reason: "Not PE-backed" },
+          { id: "size-band", field: "revenue", operator: "outside", value: { min: 20000000, max: 150000000 }, action: "review", reason: "Outside the $20M-$150M band" },
+          { id: "strong-fit", field: "score", operator: "gte", value: 7, action: "approve", reason: "Strong fit" },
+        ],
+        defaultAction: "review",
+      },
+      scoringWeights: { industryFit: 4, ownershipFit: 3 },
+      schedule: "0 7 * * 1",
+      timezone: "America/Chicago",
+    },
+  ),
+  template(
+    "industrial-distribution-midwest",
+    "Industrial distribution Midwest",
+    "Family- and founder-owned MRO and industrial supply distributors across the Midwest, a common add-on thesis for platform buyers.",
+    ["buy-side", "distribution", "add-on"],
+    {
+      searchCriteria: {
+        query: "independent industrial MRO distributor (fasteners, bearings, power transmission, fluid power)",
+        industry: "Industrial distribution",
+        revenueRange: "$10M-$75M",
+        geographicFocus: "Midwest US (OH, MI, IN, IL, WI, MN)",
+        strategy: "buy-side",
+        peFilter: "not-pe-backed",
+        queryVariants: 5,
+        growthStatus: ["Stable", "Mature"],
+      },
+      autoApprovalRules: { minScore: 7, requiredConfidence: "Medium" },
+      schedule: "0 19 * * 0,2,4",
+      timezone: "America/Chicago",
+    },
+  ),
+  template(
+    "government-services-contractors",
+    "Government services contractors",
+    "Small federal IT and professional services contractors with recurring agency work, using award data to confirm revenue.",
+    ["buy-side", "government", "services"],
+    {
+      searchCriteria: {
+        query: "small business federal government IT and professional services contractor",
+        industry: "Government services",
+        revenueRange: "$10M-$60M",
+        geographicFocus: "Washington DC metro (VA, MD, DC)",
+        strategy: "buy-side",
+        peFilter: "not-pe-backed",
+        queryVariants: 4,
+        employeeCount: ["50-200", "200-500"],
+      },
+      autoApprovalRules: { minScore: 8, requiredConfidence: "Medium" },
+      scoringWeights: { growthSignals: 3 },
+      schedule: "0 7 * * 1-5",
+      timezone: "America/New_York",
+    },
+  ),
+  template(
+    "healthcare-services-roll-up",
+    "Healthcare services roll-up",
+    "Independent physical therapy, dental and veterinary practice groups sized for a first institutional partner.",
+    ["dual", "healthcare", "roll-up"],
+    {
+      searchCriteria: {
+        query: "independent multi-location physical therapy, dental or veterinary practice group",
+        industry: "Healthcare services",
+        revenueRange: "$5M-$40M",
+        geographicFocus: "United States",
+        strategy: "dual",
+        peFilter: "not-pe-backed",
+        queryVariants: 4,
+      },
+      autoApprovalRules: {
+        minScore: 7,
+        requiredConfidence: "Medium",
+        rules: [
+          { id: "pe-excluded", field: "ownershipType", operator: "in", value: ["PE-Backed"], action: "reject", reason: "Already partnered with PE" },
+          { id: "strong-fit", field: "score", operator: "gte", value: 8, action: "approve", reason: "Strong fit" },
+        ],
+        defaultAction: "review",
+      },
+      schedule: "0 6 1 * *",
+      timezone: "America/Chicago",
+    },
+  ),
+  template(
+    "vertical-software-sell-side",
+    "Vertical software sell-side",
+    "Bootstrapped vertical SaaS companies serving a single industry, for sell-side outreach ahead of a first capital raise or sale.",
+    ["sell-side", "software", "bootstrapped"],
+    {
+      searchCriteria: {
+        query: "bootstrapped vertical SaaS company serving a single industry (construction, logistics, field services, legal)",
+        industry: "Vertical software",
+        revenueRange: "$5M-$30M",
+        geographicFocus: "United States and Canada",
+        strategy: "sell-side",
+        peFilter: "not-pe-backed",
+        queryVariants: 4,
+        fundingStatus: ["Bootstrapped"],
+        growthStatus: ["High growth", "Stable"],
+      },
+      autoApprovalRules: { minScore: 7, requiredConfidence: "High" },
+      scoringWeights: { growthSignals: 3, industryFit: 2 },
+      schedule: "0 8 * * 1",
+      timezone: "America/New_York",
+    },
+  ),
+];
+
+export function getConfigTemplate(id: string): ConfigTemplate | undefined {
+  return CONFIG_TEMPLATES.find(entry => entry.id === id);
+}
@@ -0,0 +1,137 @@
+import { storage } from "./storage";
+import type { FieldChange } from "./report-diff";
+
+// Config versioning. Every edit to a saved config is kept as an immutable
+// snapshot of its run settings with who made it and when; each workflow points
+// at the version it ran, so a batch of approvals can be traced back to the
+// exact rules that produced it. Reverting writes the old settings as a new
+// version rather than rewinding history.
+
+export const VERSIONED_FIELDS = [
+  "name",
+  "searchCriteria",
+  "autoApprovalRules",
+  "scoringWeights",
+  "investmentThesis",
+  "budget",
+  "schedule",
+  "timezone",
+  "isActive",
+  "alertAfterUnchangedRuns",
+] as const;
+
+export type ConfigSettings = Partial<Record<(typeof VERSIONED_FIELDS)[number], any>>;
+
+export interface ConfigVersionEntry {
+  id: number;
+  configId: number;
+  version: number;
+  settings: ConfigSettings;
+  author: string;
+  note: string | null;
+  createdAt: Date;
+  changes: FieldChange[]; // Against the previous version; empty for v1
+}
+
+export function snapshotConfig(config: any): ConfigSettings {
+  const settings: ConfigSettings = {};
+  for (const field of VERSIONED_FIELDS) {
+    settings[field] = config[field] ?? null;
+  }
+  return settings;
+}
+
+const isPrimitive = (value: any) => value === null || typeof value !== "object";
+
+/**
+ * Flatten settings into dotted paths (searchCriteria.industry,
+ * autoApprovalRules.rules[0].action). Lists of plain values stay one leaf so
+ * adding a geography reads as one change, not a shifted index per entry.
+ */
+function flatten(value: any, path: string, out: Map<string, any>) {
+  if (value === undefined || value === null) return;
+  if (Array.isArray(value)) {
+    if (value.every(isPrimitive)) {
+      if (value.length > 0) out.set(path, value);
+      return;
+    }
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, out));
+    return;
+  }
+  if (typeof value === "object") {
+    for (const key of Object.keys(value)) {
+      flatten(value[key], path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  out.set(path, value);
+}
+
+/** Field-level changes between two snapshots; key order and null-vs-missing don't count as changes. */
+export function diffConfigSettings(before: ConfigSettings, after: ConfigSettings): FieldChange[] {
+  const a = new Map<string, any>();
+  const b = new Map<string, any>();
+  flatten(before, "", a);
+  flatten(after, "", b);
+
+  const changes: FieldChange[] = [];
+  const fields = Array.from(new Set([...Array.from(a.keys()), ...Array.from(b.keys())]));
+  for (const field of fields) {
+    const from = a.get(field) ?? null;
+    const to = b.get(field) ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, before: from, after: to });
+    }
+  }
+  return changes;
+}
+
+class ConfigVersioning {
+  /**
+   * Record the config's current settings as a new version. Returns the latest
+   * existing version instead when nothing versioned changed since it.
+   */
+  async record(config: any, author: string, note?: string | null) {
+    const settings = snapshotConfig(config);
+    const latest = await storage.getLatestConfigVersion(config.id);
+    if (latest && diffConfigSettings(latest.settings as ConfigSettings, settings).length === 0) {
+      return latest;
+    }
+    const version = await storage.createConfigVersion(config.id, settings, author, note ?? (latest ? null : "Created"));
+    console.log(`[Config] Config ${config.id} is now v${version.version} (${author})`);
+    return version;
+  }
+
+  /**
+   * The version a run should point at. Configs saved before versioning, or
+   * edited outside the API, get a version recorded on the spot.
+   */
+  async ensureCurrent(config: any) {
+    return this.record(config, "system", "Recorded at run time");
+  }
+
+  async history(configId: number): Promise<ConfigVersionEntry[]> {
+    const versions = await storage.getConfigVersions(configId); // Newest first
+    return versions.map((version, i) => {
+      const previous = versions[i + 1];
+      return {
+        ...version,
+        settings: version.settings as ConfigSettings,
+        changes: previous ? diffConfigSettings(previous.settings as ConfigSettings, version.settings as ConfigSettings) : [],
+      };
+    });
+  }
+
+  /** Restore an earlier version's settings; the restore itself becomes the newest version. */
+  async revert(configId: number, versionId: number, author: string) {
+    const target = await storage.getConfigVersion(versionId);
+    if (!target || target.configId !== configId) return null;
+
+    const config = await storage.updateAgentConfig(configId, target.settings);
+    if (!config) return null;
+    await this.record(config, author, `Reverted to v${target.version}`);
+    return config;
+  }
+}
+
+export const configVersions = new ConfigVersioning();
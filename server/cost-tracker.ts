@@ -0,0 +1,169 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// API cost accounting. Every Anthropic, Exa and Apollo call records a row in
+// api_usage against whatever workflow, report or weekly scan is running it.
+// Attribution comes from an async scope (costTracker.run) so deep call sites
+// such as Apollo enrichment don't need ids threaded through them. Dollar
+// amounts come from the price table below, overridable with API_PRICE_TABLE.
+
+export type UsageProvider = "anthropic" | "exa" | "apollo" | "mock";
+
+export interface CostScope {
+  workflowId?: number | null;
+  reportId?: number | null;
+  queueId?: number | null;
+  weeklyTrendId?: number | null;
+  // Called with each event recorded in the scope (used by dry-run previews to total their own spend)
+  onUsage?: (event: UsageEvent, costUsd: number) => void;
+}
+
+export interface UsageEvent {
+  provider: UsageProvider;
+  operation: string;        // LLM step, Exa endpoint or Apollo endpoint
+  model?: string | null;
+  inputTokens?: number;
+  outputTokens?: number;
+  webSearches?: number;
+  requests?: number;        // Billable units: calls, or pages for Exa contents
+  cacheHit?: boolean;
+}
+
+export interface ModelPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export interface PriceTable {
+  anthropic: {
+    models: Record<string, ModelPrice>; // Keyed by model id prefix; the longest matching prefix wins
+    webSearchPerRequest: number;
+  };
+  exa: Record<string, number>;          // Per request (per page for contents)
+  apollo: Record<string, number>;       // Per request
+}
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  anthropic: {
+    models: {
+      "claude-haiku-4-5": { inputPerMTok: 1, outputPerMTok: 5 },
+      "claude-3-5-haiku": { inputPerMTok: 0.8, outputPerMTok: 4 },
+      "claude-sonnet-4": { inputPerMTok: 3, outputPerMTok: 15 },
+      "claude-3-7-sonnet": { inputPerMTok: 3, outputPerMTok: 15 },
+      "claude-opus-4": { inputPerMTok: 15, outputPerMTok: 75 },
+    },
+    webSearchPerRequest: 0.01,
+  },
+  exa: {
+    search: 0.005,
+    findSimilar: 0.005,
+    contents: 0.001,
+  },
+  // Apollo bills against the existing subscription's credits, not per call
+  apollo: {
+    people_search: 0,
+    organization_enrich: 0,
+  },
+};
+
+function mergePriceTable(base: PriceTable, overrides: any): PriceTable {
+  return {
+    anthropic: {
+      models: { ...base.anthropic.models, ...overrides?.anthropic?.models },
+      webSearchPerRequest: overrides?.anthropic?.webSearchPerRequest ?? base.anthropic.webSearchPerRequest,
+    },
+    exa: { ...base.exa, ...overrides?.exa },
+    apollo: { ...base.apollo, ...overrides?.apollo },
+  };
+}
+
+function loadPriceTable(): PriceTable {
+  const raw = process.env.API_PRICE_TABLE;
+  if (!raw) return DEFAULT_PRICE_TABLE;
+  try {
+    return mergePriceTable(DEFAULT_PRICE_TABLE, JSON.parse(raw));
+  } catch (error: any) {
+    console.warn(`[Costs] API_PRICE_TABLE is not valid JSON, using default prices: ${error?.message}`);
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+/** Longest price-table key that the model id starts with ("claude-haiku-4-5-20251001" → "claude-haiku-4-5"). */
+export function findModelPrice(prices: PriceTable, model: string | null | undefined): ModelPrice | null {
+  if (!model) return null;
+  const key = Object.keys(prices.anthropic.models)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices.anthropic.models[key] : null;
+}
+
+/** Dollar cost of one usage event. Cache hits and mock calls are free. */
+export function estimateCost(prices: PriceTable, event: UsageEvent): number {
+  if (event.cacheHit) return 0;
+  switch (event.provider) {
+    case "anthropic": {
+      const price = findModelPrice(prices, event.model);
+      const tokens = price
+        ? ((event.inputTokens || 0) * price.inputPerMTok + (event.outputTokens || 0) * price.outputPerMTok) / 1_000_000
+        : 0;
+      return tokens + (event.webSearches || 0) * prices.anthropic.webSearchPerRequest;
+    }
+    case "exa":
+      return (prices.exa[event.operation] || 0) * (event.requests ?? 1);
+    case "apollo":
+      return (prices.apollo[event.operation] || 0) * (event.requests ?? 1);
+    default:
+      return 0;
+  }
+}
+
+class CostTracker {
+  private scope = new AsyncLocalStorage<CostScope>();
+  private warnedModels = new Set<string>();
+  readonly prices: PriceTable = loadPriceTable();
+
+  /** Run fn with usage attributed to the given ids (merged over any enclosing scope). */
+  run<T>(scope: CostScope, fn: () => Promise<T>): Promise<T> {
+    return this.scope.run({ ...this.scope.getStore(), ...scope }, fn);
+  }
+
+  currentScope(): CostScope {
+    return this.scope.getStore() || {};
+  }
+
+  /**
+   * Record one billable call. Never throws — losing a usage row must not fail
+   * the research it was measuring.
+   */
+  async record(event: UsageEvent): Promise<void> {
+    if (event.provider === "anthropic" && !findModelPrice(this.prices, event.model) && event.model && !this.warnedModels.has(event.model)) {
+      this.warnedModels.add(event.model);
+      console.warn(`[Costs] No price for model ${event.model}; its token cost is recorded as $0`);
+    }
+
+    const scope = this.currentScope();
+    const costUsd = estimateCost(this.prices, event);
+    scope.onUsage?.(event, costUsd);
+    try {
+      const { storage } = await import("./storage");
+      await storage.recordApiUsage({
+        provider: event.provider,
+        operation: event.operation,
+        model: event.model || null,
+        inputTokens: event.inputTokens || 0,
+        outputTokens: event.outputTokens || 0,
+        webSearches: event.webSearches || 0,
+        requests: event.requests ?? 1,
+        cacheHit: event.cacheHit || false,
+        costUsd,
+        workflowId: scope.workflowId ?? null,
+        reportId: scope.reportId ?? null,
+        queueId: scope.queueId ?? null,
+        weeklyTrendId: scope.weeklyTrendId ?? null,
+      });
+    } catch (error: any) {
+      console.warn(`[Costs] Failed to record ${event.provider} ${event.operation} usage: ${error?.message}`);
+    }
+  }
+}
+
+export const costTracker = new CostTracker();
@@ -0,0 +1,222 @@
+import cron from "node-cron";
+
+// Cron schedules for saved configs. Each config can run in its own IANA
+// timezone; configs without one (and the weekly intelligence scan) use
+// SCHEDULE_TIMEZONE, else UTC — the server time on Railway that schedules ran
+// in before timezones existed, so nothing saved earlier moves. node-cron
+// fires the jobs; this module validates schedules, lists upcoming fire times
+// and describes a schedule in words, matching node-cron's reading of the
+// expression (5 or 6 fields, names, ranges, steps; day-of-month AND
+// day-of-week must both match).
+
+export const DEFAULT_TIMEZONE = process.env.SCHEDULE_TIMEZONE || "UTC";
+export const MAX_NEXT_RUNS = 50;
+// How far ahead to look for fire times before giving up (e.g. "0 0 30 2 *" never fires)
+const SEARCH_HORIZON_DAYS = 366 * 4;
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_LABELS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+interface CronFields {
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  // Whether the field was "*" (used for the description)
+  anyDayOfMonth: boolean;
+  anyMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+export interface SchedulePreview {
+  schedule: string;
+  timezone: string;
+  description: string;
+  nextRuns: string[]; // ISO timestamps
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveTimezone(timezone: string | null | undefined): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+export function validateSchedule(schedule: any, timezone?: any): string | null {
+  if (schedule !== undefined && schedule !== null && schedule !== "") {
+    if (typeof schedule !== "string" || !cron.validate(schedule)) {
+      return `"${schedule}" is not a valid cron expression`;
+    }
+  }
+  if (timezone !== undefined && timezone !== null && timezone !== "") {
+    if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+      return `"${timezone}" is not a valid IANA timezone (e.g. America/Chicago)`;
+    }
+  }
+  return null;
+}
+
+function expandField(field: string, min: number, max: number, names?: string[]): number[] {
+  let expression = field.toLowerCase();
+  if (names) {
+    // Full names first so "sunday" isn't read as "sun" + "day"
+    names.forEach((name, i) => {
+      expression = expression.replace(new RegExp(`${name}[a-z]*`, "g"), String(i + (names === MONTH_NAMES ? 1 : 0)));
+    });
+  }
+
+  const values = new Set<number>();
+  for (const part of expression.split(",")) {
+    const [range, stepText] = part.split("/");
+    let from = min;
+    let to = max;
+    if (range !== "*") {
+      const [start, end] = range.split("-").map(n => parseInt(n, 10));
+      from = start;
+      to = end === undefined ? (stepText ? max : start) : end;
+      if (from > to) [from, to] = [to, from];
+    }
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    for (let value = from; value <= to; value++) {
+      // node-cron keeps values divisible by the step rather than counting from the range start
+      if (step > 1 && value % step !== 0) continue;
+      values.add(value);
+    }
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+function parseCron(schedule: string): CronFields {
+  const parts = schedule.trim().split(/\s+/);
+  const fields = parts.length === 5 ? ["0", ...parts] : parts;
+  const daysOfWeek = Array.from(new Set(expandField(fields[5], 0, 7, DAY_NAMES).map(day => day % 7))).sort((a, b) => a - b);
+  return {
+    seconds: expandField(fields[0], 0, 59),
+    minutes: expandField(fields[1], 0, 59),
+    hours: expandField(fields[2], 0, 23),
+    daysOfMonth: expandField(fields[3], 1, 31),
+    months: expandField(fields[4], 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    anyDayOfMonth: fields[3] === "*",
+    anyMonth: fields[4] === "*",
+    anyDayOfWeek: fields[5] === "*",
+  };
+}
+
+// Wall-clock parts of an instant in a timezone
+function zonedParts(instant: number, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+// The instant a wall-clock time in the timezone corresponds to
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, second: number, timezone: string): number {
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  let instant = wall;
+  // Two passes settle the offset, including across a DST change
+  for (let i = 0; i < 2; i++) {
+    const p = zonedParts(instant, timezone);
+    const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - instant;
+    instant = wall - offset;
+  }
+  return instant;
+}
+
+/** The next `count` times the schedule fires after `from`, in the given timezone. */
+export function nextFireTimes(schedule: string, timezone: string, count: number = 5, from: Date = new Date()): Date[] {
+  const fields = parseCron(schedule);
+  const limit = Math.min(Math.max(1, count), MAX_NEXT_RUNS);
+  const start = zonedParts(from.getTime(), timezone);
+  const times: Date[] = [];
+
+  for (let offset = 0; offset < SEARCH_HORIZON_DAYS && times.length < limit; offset++) {
+    // Walk calendar days in the config's timezone; a UTC date is used only as a calendar here
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!fields.months.includes(month) || !fields.daysOfMonth.includes(day) || !fields.daysOfWeek.includes(date.getUTCDay())) {
+      continue;
+    }
+    for (const hour of fields.hours) {
+      for (const minute of fields.minutes) {
+        for (const second of fields.seconds) {
+          const instant = zonedTimeToUtc(date.getUTCFullYear(), month, day, hour, minute, second, timezone);
+          if (instant > from.getTime()) times.push(new Date(instant));
+          if (times.length >= limit) return times;
+        }
+      }
+    }
+  }
+  return times;
+}
+
+const formatList = (items: string[]) =>
+  items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+const formatTime = (hour: number, minute: number) =>
+  `${hour % 12 === 0 ? 12 : hour % 12}:${String(minute).padStart(2, "0")} ${hour < 12 ? "AM" : "PM"}`;
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+  return `${n}${suffix}`;
+};
+
+/** Plain-English reading of a schedule, e.g. "At 7:00 PM on Sunday, Tuesday and Thursday (America/Chicago)". */
+export function describeSchedule(schedule: string, timezone: string): string {
+  const fields = parseCron(schedule);
+
+  let time: string;
+  if (fields.hours.length * fields.minutes.length <= 4) {
+    time = `At ${formatList(fields.hours.flatMap(hour => fields.minutes.map(minute => formatTime(hour, minute))))}`;
+  } else if (fields.hours.length === 24 && fields.minutes.length === 1) {
+    time = `Every hour at :${String(fields.minutes[0]).padStart(2, "0")}`;
+  } else if (fields.hours.length === 24 && fields.minutes.length > 1 && fields.minutes.every((minute, i) => minute === i * (60 / fields.minutes.length))) {
+    time = `Every ${60 / fields.minutes.length} minutes`;
+  } else if (fields.hours.length === 24) {
+    time = `${fields.minutes.length} times an hour`;
+  } else {
+    time = `${fields.hours.length * fields.minutes.length} times a day`;
+  }
+
+  const days: string[] = [];
+  if (!fields.anyDayOfWeek) {
+    const weekdays = [1, 2, 3, 4, 5];
+    days.push(fields.daysOfWeek.length === 5 && weekdays.every(d => fields.daysOfWeek.includes(d))
+      ? "on weekdays"
+      : `on ${formatList(fields.daysOfWeek.map(d => DAY_LABELS[d]))}`);
+  }
+  if (!fields.anyDayOfMonth) days.push(`on the ${formatList(fields.daysOfMonth.map(ordinal))} of the month`);
+  if (!fields.anyMonth) days.push(`in ${formatList(fields.months.map(m => MONTH_LABELS[m - 1]))}`);
+  if (days.length === 0) days.push("every day");
+
+  return `${time} ${days.join(", ")} (${timezone})`;
+}
+
+export function previewSchedule(schedule: string, timezone: string, count: number = 5): SchedulePreview {
+  return {
+    schedule,
+    timezone,
+    description: describeSchedule(schedule, timezone),
+    nextRuns: nextFireTimes(schedule, timezone, count).map(date => date.toISOString()),
+  };
+}
@@ -0,0 +1,123 @@
+import type { DiscoveryQuery } from "./discovery-queries";
+
+// Dry-run preview of a discovery config. The orchestrator runs the real
+// search, name extraction, scoring and approval rules over a small sample
+// without writing to discovery_queue or reports; this module holds the result
+// shapes and the extrapolation from the sample to a full run's cost.
+
+export const PREVIEW_SAMPLE_SIZE = 10;
+const MAX_PREVIEW_SAMPLE_SIZE = 25;
+
+// approve/review/reject come from the approval rules; "filtered" companies fail
+// the score or revenue filters, "known" ones are already in the discovery queue
+export type PreviewOutcome = "approve" | "review" | "reject" | "filtered" | "known";
+
+export interface PreviewCompany {
+  name: string;
+  originalTitle: string;
+  url: string;
+  score: number | null;
+  confidence: string | null;
+  reasoning: string | null;
+  estimatedRevenue: string | null;
+  ownershipType: string | null;
+  ipUpside: boolean;
+  outcome: PreviewOutcome;
+  reason: string;
+}
+
+// Measured spend of one preview phase
+export interface PhaseSpend {
+  calls: number;
+  costUsd: number;
+}
+
+export interface RunCostEstimate {
+  searchUsd: number;
+  queryExpansionUsd: number;
+  nameExtractionUsd: number;
+  scoringUsd: number;
+  researchUsd: number | null;          // null until at least one report has recorded usage
+  totalUsd: number;                    // Excludes research when its cost is unknown
+  researchPerCompanyUsd: number | null;
+  expectedResults: number;
+  expectedCompanies: number;           // New companies a full run would score
+  expectedResearched: number;          // Auto-approvals a full run would research
+  maxRunCostUsd: number | null;        // The config's per-run budget, for comparison
+}
+
+export interface DiscoveryPreview {
+  baseQuery: string;
+  queries: DiscoveryQuery[];
+  sampleSize: number;
+  resultsFetched: number;
+  excluded: Record<string, number>;    // Sample results dropped per exclusion list ("<scope>:<list>")
+  companies: PreviewCompany[];
+  counts: Record<PreviewOutcome, number>;
+  previewCostUsd: number;
+  estimate: RunCostEstimate;
+}
+
+export function clampSampleSize(requested: any): number {
+  const size = parseInt(requested);
+  if (isNaN(size) || size <= 0) return PREVIEW_SAMPLE_SIZE;
+  return Math.min(MAX_PREVIEW_SAMPLE_SIZE, size);
+}
+
+export function countOutcomes(companies: PreviewCompany[]): Record<PreviewOutcome, number> {
+  const counts: Record<PreviewOutcome, number> = { approve: 0, review: 0, reject: 0, filtered: 0, known: 0 };
+  for (const company of companies) counts[company.outcome]++;
+  return counts;
+}
+
+const perUnit = (spend: PhaseSpend, units: number) => (units > 0 ? spend.costUsd / units : 0);
+
+/**
+ * Scale the sample up to a full run: search is priced per query, name
+ * extraction per result, scoring per new company, and research from the
+ * average recorded cost of recent reports.
+ */
+export function estimateRunCost(input: {
+  queryCount: number;
+  searchPricePerQuery: number;
+  maxResults: number;
+  resultsFetched: number;
+  counts: Record<PreviewOutcome, number>;
+  spend: { queryExpansion: PhaseSpend; nameExtraction: PhaseSpend; scoring: PhaseSpend };
+  averageReportCostUsd: number | null;
+  budget: { maxRunCostUsd?: number | null; maxResearchPerRun?: number | null } | null;
+}): RunCostEstimate {
+  const { counts, spend } = input;
+  const sampleCompanies = counts.approve + counts.review + counts.reject + counts.filtered + counts.known;
+  const scored = sampleCompanies - counts.known;
+
+  const expectedResults = input.maxResults;
+  // Share of raw results that turn into a new, distinct company
+  const newRate = input.resultsFetched > 0 ? scored / input.resultsFetched : 0;
+  const expectedCompanies = Math.round(expectedResults * newRate);
+  const approveRate = scored > 0 ? counts.approve / scored : 0;
+  let expectedResearched = Math.round(expectedCompanies * approveRate);
+  if (input.budget?.maxResearchPerRun != null) {
+    expectedResearched = Math.min(expectedResearched, input.budget.maxResearchPerRun);
+  }
+
+  const searchUsd = input.queryCount * input.searchPricePerQuery;
+  const queryExpansionUsd = spend.queryExpansion.costUsd;
+  const nameExtractionUsd = perUnit(spend.nameExtraction, input.resultsFetched) * expectedResults;
+  const scoringUsd = perUnit(spend.scoring, scored) * expectedCompanies;
+  const researchUsd = input.averageReportCostUsd === null ? null : input.averageReportCostUsd * expectedResearched;
+
+  return {
+    searchUsd,
+    queryExpansionUsd,
+    nameExtractionUsd,
+    scoringUsd,
+    researchUsd,
+    totalUsd: searchUsd + queryExpansionUsd + nameExtractionUsd + scoringUsd + (researchUsd ?? 0),
+    researchPerCompanyUsd: input.averageReportCostUsd,
+    expectedResults,
+    expectedCompanies,
+    expectedResearched,
+    maxRunCostUsd: input.budget?.maxRunCostUsd ?? null,
+  };
+}
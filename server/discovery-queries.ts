@@ -0,0 +1,122 @@
+// Multi-query discovery: the base criteria query plus Claude-generated variants
+// (sub-niches, synonyms, regional variants). Results are merged with per-query
+// attribution so each workflow can report which queries actually yield companies.
+
+export type QueryKind = "base" | "sub_niche" | "synonym" | "regional";
+
+export interface DiscoveryQuery {
+  id: string; // "q0" is always the base query
+  query: string;
+  kind: QueryKind;
+  rationale?: string;
+}
+
+// Stored on agent_workflows.query_yield, one entry per query
+export interface QueryYield extends DiscoveryQuery {
+  results: number;        // Raw search results returned
+  companies: number;      // Distinct companies it contributed after name cleanup and dedup
+  newCompanies: number;   // Of those, companies not already in the queue
+  autoApproved: number;
+  error?: string;         // Set when the search for this query failed
+}
+
+export type QueryTallyField = "companies" | "newCompanies" | "autoApproved";
+
+export const DEFAULT_QUERY_VARIANTS = 4;
+const MAX_QUERY_VARIANTS = 8;
+const MIN_RESULTS_PER_QUERY = 10;
+
+const QUERY_KINDS: QueryKind[] = ["sub_niche", "synonym", "regional"];
+
+export function clampVariantCount(requested: number | undefined): number {
+  if (requested === undefined || requested === null || isNaN(requested)) return DEFAULT_QUERY_VARIANTS;
+  return Math.max(0, Math.min(MAX_QUERY_VARIANTS, Math.round(requested)));
+}
+
+/** Split the result budget across queries so fan-out doesn't multiply search cost. */
+export function resultsPerQuery(maxResults: number, queryCount: number): number {
+  return Math.max(MIN_RESULTS_PER_QUERY, Math.ceil(maxResults / Math.max(1, queryCount)));
+}
+
+/**
+ * Parse Claude's `{ "queries": [...] }` response into variants, dropping
+ * blanks and anything that repeats the base query or an earlier variant.
+ */
+export function parseQueryVariants(text: string, baseQuery: string, maxVariants: number): DiscoveryQuery[] {
+  const cleaned = text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return [];
+
+  const data = JSON.parse(jsonMatch[0]);
+  const seen = new Set([baseQuery.toLowerCase().trim()]);
+  const variants: DiscoveryQuery[] = [];
+
+  for (const entry of Array.isArray(data.queries) ? data.queries : []) {
+    const query = typeof entry?.query === "string" ? entry.query.replace(/\s+/g, " ").trim() : "";
+    if (!query || seen.has(query.toLowerCase())) continue;
+    seen.add(query.toLowerCase());
+    variants.push({
+      id: `q${variants.length + 1}`,
+      query,
+      kind: QUERY_KINDS.includes(entry.kind) ? entry.kind : "synonym",
+      rationale: typeof entry.rationale === "string" ? entry.rationale : undefined,
+    });
+    if (variants.length >= maxVariants) break;
+  }
+  return variants;
+}
+
+function resultKey(result: any): string {
+  const url = String(result.url || "").toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\/+$/, "");
+  return url || String(result.title || "").toLowerCase().trim();
+}
+
+/**
+ * Merge per-query result lists. The first query to return a page keeps it;
+ * later queries returning the same page are added to its attribution.
+ */
+export function mergeQueryResults(runs: Array<{ query: DiscoveryQuery; results: any[] }>): any[] {
+  const merged = new Map<string, any>();
+  for (const { query, results } of runs) {
+    for (const result of results) {
+      const key = resultKey(result);
+      const existing = merged.get(key);
+      if (existing) {
+        if (!existing.foundBy.includes(query.id)) {
+          existing.foundBy.push(query.id);
+          existing.foundByQueries.push(query.query);
+        }
+      } else {
+        merged.set(key, { ...result, foundBy: [query.id], foundByQueries: [query.query] });
+      }
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/** Combine the attribution of two results that turned out to be the same company. */
+export function mergeAttribution(target: any, other: any): void {
+  target.foundBy = target.foundBy || [];
+  target.foundByQueries = target.foundByQueries || [];
+  (other.foundBy || []).forEach((id: string, index: number) => {
+    if (!target.foundBy.includes(id)) {
+      target.foundBy.push(id);
+      target.foundByQueries.push(other.foundByQueries?.[index]);
+    }
+  });
+}
+
+/**
+ * Recount one yield column from the companies that reached a stage. Counts
+ * are recomputed, not incremented, so a retried step doesn't double count.
+ */
+export function tallyQueryYield(stats: QueryYield[], companies: any[], field: QueryTallyField): QueryYield[] {
+  return stats.map(stat => ({
+    ...stat,
+    [field]: companies.filter(c => (c.foundBy || []).includes(stat.id)).length,
+  }));
+}
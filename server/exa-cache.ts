@@ -2,18 +2,11 @@ import crypto from "crypto";
 import { db } from "./storage";
 import { exaCache } from "../drizzle/schema";
 import { eq, lt } from "drizzle-orm";
+import { getSearchProvider, type SearchOptions, type SearchResponse } from "./search-provider";
+import { costTracker } from "./cost-tracker";
 
-interface ExaSearchParams {
+interface ExaSearchParams extends SearchOptions {
   query: string;
-  numResults?: number;
-  type?: "neural" | "keyword";
-  useAutoprompt?: boolean;
-  includeDomains?: string[];
-  contents?: {
-    text?: {
-      maxCharacters?: number;
-    };
-  };
 }
 
 interface ExaCacheConfig {
@@ -26,12 +19,15 @@ interface ExaCacheConfig {
  * This is used as the cache key
  */
 function generateCacheKey(query: string, params: Partial<ExaSearchParams>): string {
+  const provider = getSearchProvider().name;
   const cacheString = JSON.stringify({
     query,
     numResults: params.numResults || 10,
     type: params.type || "neural",
     useAutoprompt: params.useAutoprompt !== undefined ? params.useAutoprompt : true,
     includeDomains: params.includeDomains || [],
+    // Exa keys predate pluggable providers; other providers get their own entries
+    ...(provider !== "exa" && { provider }),
   });
   return crypto.createHash("sha256").update(cacheString).digest("hex");
 }
@@ -145,9 +141,10 @@ export async function cleanupExpiredCache() {
 }
 
 /**
- * Wrapper for Exa API calls with caching
+ * Search through the configured provider (see search-provider.ts) with caching.
+ * Providers that must see every call (fixture replay, recording) bypass the cache.
  * Usage:
- *   const results = await cachedExaSearch({
+ *   const results = await cachedSearch({
  *     query: "M&A deals",
  *     numResults: 10,
  *     type: "neural"
@@ -156,45 +153,28 @@ export async function cleanupExpiredCache() {
  *     ttlDays: 7
  *   });
  */
-export async function cachedExaSearch(
+export async function cachedSearch(
   params: ExaSearchParams,
   config: ExaCacheConfig,
-) {
-  // Check cache first
-  const cached = await getCachedExaResults(params.query, params);
-  if (cached) {
-    return cached;
+): Promise<SearchResponse> {
+  const provider = getSearchProvider();
+  const { query, ...options } = params;
+  if (!provider.cacheable) {
+    return provider.search(query, options);
   }
 
-  // Call Exa API
-  console.log(`[ExaCache] MISS: Calling Exa API for query: ${params.query.substring(0, 50)}...`);
-
-  const response = await fetch("https://api.exa.ai/search", {
-    method: "POST",
-    headers: {
-      "x-api-key": process.env.EXA_API_KEY || "",
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      query: params.query,
-      numResults: params.numResults || 10,
-      type: params.type || "neural",
-      useAutoprompt: params.useAutoprompt !== undefined ? params.useAutoprompt : true,
-      ...(params.includeDomains && { includeDomains: params.includeDomains }),
-      contents: params.contents || {
-        text: { maxCharacters: 1000 },
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Exa API error: ${response.statusText}`);
+  // Check cache first
+  const cached = await getCachedExaResults(query, params);
+  if (cached) {
+    await costTracker.record({ provider: "exa", operation: "search", cacheHit: true });
+    return cached as SearchResponse;
   }
 
-  const results = await response.json();
+  console.log(`[ExaCache] MISS: Calling ${provider.name} for query: ${query.substring(0, 50)}...`);
+  const results = await provider.search(query, options);
 
   // Cache the results
-  await cacheExaResults(params.query, params, results, config);
+  await cacheExaResults(query, params, results, config);
 
   return results;
 }
@@ -0,0 +1,190 @@
+import { storage } from "./storage";
+import { normalizeCompanyName } from "./company-registry";
+
+// Discovery exclusion lists. Search keeps surfacing directories, trade
+// publications, the client's competitors and companies already passed on;
+// these lists drop them before name extraction, scoring and research spend
+// anything on them. Entries are global (config_id null) or belong to one
+// config, and a built-in list covers common directories and publications.
+// Results are checked twice: on the raw search result (page title and URL),
+// then again on the company name Claude extracted from it. Each run records
+// how many results every list dropped (agent_workflows.exclusion_counts).
+
+export type ExclusionList = "domain" | "company" | "competitor" | "pattern" | "passed";
+export type ExclusionScope = "builtin" | "global" | "config";
+
+export const EXCLUSION_LISTS: Array<{ list: ExclusionList; label: string }> = [
+  { list: "passed", label: "Already passed" },
+  { list: "competitor", label: "Competitors" },
+  { list: "company", label: "Companies" },
+  { list: "domain", label: "Domains" },
+  { list: "pattern", label: "Patterns" },
+];
+
+// Directories, marketplaces and trade/business publications that rank for
+// company-style queries but are never the company itself
+export const BUILTIN_EXCLUDED_DOMAINS = [
+  "yelp.com", "bbb.org", "manta.com", "yellowpages.com", "angi.com", "homeadvisor.com",
+  "thumbtack.com", "houzz.com", "mapquest.com", "thomasnet.com", "zoominfo.com",
+  "dnb.com", "crunchbase.com", "owler.com", "pitchbook.com", "cbinsights.com",
+  "linkedin.com", "facebook.com", "glassdoor.com", "indeed.com", "ziprecruiter.com",
+  "bizjournals.com", "inc.com", "forbes.com", "entrepreneur.com", "prnewswire.com",
+  "businesswire.com", "globenewswire.com", "industryweek.com", "achrnews.com",
+  "wikipedia.org", "reddit.com", "clutch.co", "g2.com", "capterra.com",
+];
+
+// Company names shorter than this only match exactly, not inside a longer page title
+const MIN_CONTAINED_NAME_LENGTH = 4;
+
+export interface ExclusionEntryInput {
+  list: ExclusionList;
+  value: string;
+}
+
+export type ExclusionCounts = Record<string, number>; // "<scope>:<list>" → results dropped
+
+interface CompiledEntry {
+  key: string;
+  list: ExclusionList;
+  domain: string | null;
+  name: string | null;
+  pattern: RegExp | null;
+}
+
+// "acme.com" or "https://www.acme.com/about": a name-list entry that is really a website
+const isDomainLike = (value: string) => /^[^\s/]+\.[a-z]{2,}$/i.test(value.replace(/^[a-z]+:\/\//i, "").split("/")[0]);
+
+/** Lowercase host without scheme, path or "www.": "https://www.acme.com/about" → "acme.com". */
+export function hostOf(url: string | null | undefined): string | null {
+  if (!url) return null;
+  const host = url.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .split(/[/?#]/)[0]
+    .split(":")[0]
+    .replace(/^www\d*\./, "")
+    .replace(/\.$/, "");
+  return host.includes(".") ? host : null;
+}
+
+function hostMatches(host: string | null, domain: string): boolean {
+  return !!host && (host === domain || host.endsWith(`.${domain}`));
+}
+
+export function normalizeExclusionValue(list: ExclusionList, value: string): string {
+  const trimmed = value.trim();
+  if (list === "pattern") return trimmed;
+  if (list === "domain" || isDomainLike(trimmed)) {
+    return hostOf(trimmed) || trimmed.toLowerCase();
+  }
+  return trimmed;
+}
+
+export function validateExclusionEntry(entry: any): string | null {
+  if (!entry || typeof entry !== "object") return "Exclusion entry must be an object";
+  if (!EXCLUSION_LISTS.some(({ list }) => list === entry.list)) {
+    return `list must be one of ${EXCLUSION_LISTS.map(({ list }) => list).join(", ")}`;
+  }
+  if (typeof entry.value !== "string" || !entry.value.trim()) return "value is required";
+  if (entry.value.length > 300) return "value must be at most 300 characters";
+  if (entry.list === "domain" && !hostOf(entry.value)) return `"${entry.value}" is not a domain`;
+  if (entry.list === "pattern") {
+    try {
+      new RegExp(entry.value, "i");
+    } catch (error: any) {
+      return `"${entry.value}" is not a valid pattern: ${error?.message}`;
+    }
+  }
+  return null;
+}
+
+function compile(scope: ExclusionScope, list: ExclusionList, value: string): CompiledEntry {
+  const entry: CompiledEntry = { key: `${scope}:${list}`, list, domain: null, name: null, pattern: null };
+  if (list === "pattern") {
+    try {
+      entry.pattern = new RegExp(value, "i");
+    } catch {
+      // Validated on save; an entry that no longer compiles just never matches
+    }
+  } else if (list === "domain" || isDomainLike(value)) {
+    entry.domain = hostOf(value);
+  } else {
+    entry.name = normalizeCompanyName(value);
+  }
+  return entry;
+}
+
+// Config entries are checked before global ones so a result counts against the most specific list
+const SCOPE_ORDER: ExclusionScope[] = ["config", "global", "builtin"];
+const LIST_ORDER = EXCLUSION_LISTS.map(({ list }) => list);
+
+export class ExclusionMatcher {
+  private entries: CompiledEntry[];
+
+  constructor(entries: Array<{ configId: number | null; list: string; value: string }>, builtinDomains: string[] = BUILTIN_EXCLUDED_DOMAINS) {
+    this.entries = [
+      ...entries.map(entry => compile(entry.configId === null ? "global" : "config", entry.list as ExclusionList, entry.value)),
+      ...builtinDomains.map(domain => compile("builtin", "domain", domain)),
+    ].sort((a, b) =>
+      SCOPE_ORDER.indexOf(a.key.split(":")[0] as ExclusionScope) - SCOPE_ORDER.indexOf(b.key.split(":")[0] as ExclusionScope)
+      || LIST_ORDER.indexOf(a.list) - LIST_ORDER.indexOf(b.list)
+    );
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** The "<scope>:<list>" key of the first entry the result hits, or null. */
+  match(result: { title?: string | null; url?: string | null }): string | null {
+    const host = hostOf(result.url);
+    const title = result.title ? ` ${normalizeCompanyName(result.title)} ` : "";
+    for (const entry of this.entries) {
+      if (entry.domain && hostMatches(host, entry.domain)) return entry.key;
+      if (entry.pattern && (entry.pattern.test(result.title || "") || entry.pattern.test(result.url || ""))) return entry.key;
+      if (entry.name && title) {
+        if (title.trim() === entry.name) return entry.key;
+        if (entry.name.length >= MIN_CONTAINED_NAME_LENGTH && title.includes(` ${entry.name} `)) return entry.key;
+      }
+    }
+    return null;
+  }
+
+  /** Split results into kept and dropped, counting drops per list. */
+  apply<T extends { title?: string | null; url?: string | null }>(results: T[]): { kept: T[]; counts: ExclusionCounts } {
+    const kept: T[] = [];
+    const counts: ExclusionCounts = {};
+    for (const result of results) {
+      const key = this.match(result);
+      if (key) {
+        counts[key] = (counts[key] || 0) + 1;
+      } else {
+        kept.push(result);
+      }
+    }
+    return { kept, counts };
+  }
+}
+
+export function mergeExclusionCounts(...all: Array<ExclusionCounts | null | undefined>): ExclusionCounts {
+  const merged: ExclusionCounts = {};
+  for (const counts of all) {
+    for (const [key, count] of Object.entries(counts || {})) {
+      merged[key] = (merged[key] || 0) + count;
+    }
+  }
+  return merged;
+}
+
+export function totalExcluded(counts: ExclusionCounts | null | undefined): number {
+  return Object.values(counts || {}).reduce((sum, count) => sum + count, 0);
+}
+
+class Exclusions {
+  /** Global, built-in and (when given) the config's own entries, as they stand now. */
+  async matcherFor(configId: number | null | undefined): Promise<ExclusionMatcher> {
+    const entries = await storage.getExclusionEntries(configId ?? null);
+    return new ExclusionMatcher(entries);
+  }
+}
+
+export const exclusions = new Exclusions();
@@ -5,9 +5,11 @@
  * 
  * API: https://open.fda.gov
  * Cost: FREE (no API key required)
- * Rate limit: 240 requests per minute, 120,000 per day
+ * Rate limit: 240 requests per minute, 120,000 per day (enforced by http-client)
  */
 
+import { httpClient } from "./http-client";
+
 interface FDADevice {
   deviceName: string;
   productCode: string;
@@ -96,7 +98,7 @@ export class FDADataService {
       const searchTerm = encodeURIComponent(companyName);
       const url = `${this.baseUrl}/device/registrationlisting.json?search=firm_name:"${searchTerm}"&limit=100`;
 
-      const response = await fetch(url);
+      const response = await httpClient.fetch("openfda", url);
       if (!response.ok) return [];
 
       const data = await response.json();
@@ -124,7 +126,7 @@ export class FDADataService {
       const searchTerm = encodeURIComponent(companyName);
       const url = `${this.baseUrl}/device/510k.json?search=applicant:"${searchTerm}"&limit=100`;
 
-      const response = await fetch(url);
+      const response = await httpClient.fetch("openfda", url);
       if (!response.ok) return [];
 
       const data = await response.json();
@@ -153,7 +155,7 @@ export class FDADataService {
       const searchTerm = encodeURIComponent(companyName);
       const url = `${this.baseUrl}/device/recall.json?search=firm_name:"${searchTerm}"&limit=100`;
 
-      const response = await fetch(url);
+      const response = await httpClient.fetch("openfda", url);
       if (!response.ok) return [];
 
       const data = await response.json();
@@ -182,7 +184,7 @@ export class FDADataService {
       const searchTerm = encodeURIComponent(companyName);
       const url = `${this.baseUrl}/device/event.json?search=manufacturer_name:"${searchTerm}"&count=date_received`;
 
-      const response = await fetch(url);
+      const response = await httpClient.fetch("openfda", url);
       if (!response.ok) return 0;
 
       const data = await response.json();
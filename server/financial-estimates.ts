@@ -0,0 +1,188 @@
+// Numeric revenue and headcount estimates. Producers (Claude scoring and
+// research, Apollo headcount, filings) write free text like "$25M",
+// "$20M-$50M", "under $10M" or "~30 million"; this module turns it into a
+// low/high band with a point estimate so approval rules, library filters and
+// sorting compare numbers instead of the first digits in a string. The text
+// columns stay as written for display.
+
+export type EstimateSource = "claude" | "apollo_headcount" | "filing";
+export type EstimateConfidence = "High" | "Medium" | "Low";
+
+export interface RangeEstimate {
+  low: number | null;    // null for "under $10M"
+  high: number | null;   // null for "$50M+"
+  point: number | null;  // Midpoint of a closed band, else the one stated bound
+  source: EstimateSource;
+  confidence: EstimateConfidence | null;
+  text: string | null;   // What the producer wrote
+}
+
+export interface FinancialEstimate extends RangeEstimate {
+  currency: string;      // ISO code, "USD" unless the text says otherwise
+}
+
+export type EmployeeEstimate = RangeEstimate;
+
+interface EstimateOptions {
+  source: EstimateSource;
+  confidence?: string | null;
+}
+
+const UNIT_MULTIPLIERS: Array<[RegExp, number]> = [
+  [/^(b|bn|billion)\b/, 1e9],
+  [/^(mm|mn|m|mil|million)\b/, 1e6],
+  [/^(k|thousand)\b/, 1e3],
+];
+
+const CURRENCIES: Array<[RegExp, string]> = [
+  [/€|\beur\b/i, "EUR"],
+  [/£|\bgbp\b/i, "GBP"],
+  [/\bcad\b|c\$/i, "CAD"],
+];
+
+const CONFIDENCES: EstimateConfidence[] = ["High", "Medium", "Low"];
+
+function normalizeConfidence(value: string | null | undefined): EstimateConfidence | null {
+  if (typeof value !== "string") return null;
+  return CONFIDENCES.find(c => c.toLowerCase() === value.trim().toLowerCase()) || null;
+}
+
+interface Amount {
+  value: number;
+  multiplier: number | null;
+  start: number;
+  end: number; // After the unit when there is one
+}
+
+// Numbers with their (optional) unit, in order: "$20-50M" → [{20, null}, {50, 1e6}]
+function readAmounts(text: string): Amount[] {
+  const amounts: Amount[] = [];
+  for (const match of Array.from(text.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]*)/g))) {
+    const multiplier = UNIT_MULTIPLIERS.find(([pattern]) => pattern.test(match[2]))?.[1] ?? null;
+    const start = match.index ?? 0;
+    amounts.push({
+      value: parseFloat(match[1]),
+      multiplier,
+      start,
+      end: multiplier === null ? start + match[1].length : start + match[0].length,
+    });
+  }
+  return amounts;
+}
+
+const RANGE_SEPARATOR = /^\s*(?:-|–|—|to|and)\s*$/;
+
+/**
+ * Parse a free-text range into a band. Within a range the upper bound's unit
+ * carries to a bare lower bound ("$20-50M"); a single amount only uses its
+ * own unit, so "2023 revenue of $25M" is $25M. `defaultMultiplier` applies
+ * when no number has a unit.
+ */
+function parseBand(text: string, defaultMultiplier: number): { low: number | null; high: number | null } | null {
+  const cleaned = text.toLowerCase().replace(/[,$€£~≈]/g, "").replace(/\b(usd|eur|gbp|cad|c)\b/g, " ");
+  const amounts = readAmounts(cleaned);
+  if (amounts.length === 0) return null;
+
+  for (let i = 0; i + 1 < amounts.length; i++) {
+    const [lower, upper] = [amounts[i], amounts[i + 1]];
+    if (!RANGE_SEPARATOR.test(cleaned.slice(lower.end, upper.start))) continue;
+    const unit = upper.multiplier ?? lower.multiplier ?? defaultMultiplier;
+    const values = [lower.value * (lower.multiplier ?? unit), upper.value * unit];
+    return { low: Math.min(...values), high: Math.max(...values) };
+  }
+
+  const single = amounts.find(a => a.multiplier !== null) ?? amounts[0];
+  const amount = single.value * (single.multiplier ?? defaultMultiplier);
+  if (/under|below|less than|<|up to/.test(cleaned)) return { low: null, high: amount };
+  if (/\+|over|above|more than|>|at least/.test(cleaned)) return { low: amount, high: null };
+  return { low: amount, high: amount };
+}
+
+function toEstimate(band: { low: number | null; high: number | null }, text: string, options: EstimateOptions): RangeEstimate {
+  const point = band.low !== null && band.high !== null ? (band.low + band.high) / 2 : band.low ?? band.high;
+  return {
+    low: band.low,
+    high: band.high,
+    point,
+    source: options.source,
+    confidence: normalizeConfidence(options.confidence),
+    text: text.trim(),
+  };
+}
+
+/**
+ * Dollar band for revenue text ("$20M-$50M", "under $10M", "$50M+"), or null
+ * when it has no figure. Bare small numbers are read as millions ("25-50").
+ */
+export function parseRevenueBand(text: string | null | undefined): { low: number | null; high: number | null } | null {
+  if (!text || !/\d/.test(text)) return null;
+  const band = parseBand(text, 1);
+  if (!band) return null;
+  if ((band.high ?? band.low ?? 0) < 10000 && !/[kmb]|thousand|million|billion/i.test(text)) {
+    band.low = band.low === null ? null : band.low * 1e6;
+    band.high = band.high === null ? null : band.high * 1e6;
+  }
+  return band;
+}
+
+/** "$20M-$50M" → { low: 20e6, high: 50e6, point: 35e6, ... }; null for "Unknown" or empty text. */
+export function parseRevenueEstimate(text: string | null | undefined, options: EstimateOptions): FinancialEstimate | null {
+  const band = parseRevenueBand(text);
+  if (!band) return null;
+  const currency = CURRENCIES.find(([pattern]) => pattern.test(text!))?.[1] || "USD";
+  return { ...toEstimate(band, text!, options), currency };
+}
+
+/** "50-200", "500+", "~120 employees" or a count → an employee band. */
+export function parseEmployeeEstimate(value: string | number | null | undefined, options: EstimateOptions): EmployeeEstimate | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? toEstimate({ low: value, high: value }, String(value), options) : null;
+  }
+  if (!value || !/\d/.test(value)) return null;
+  const band = parseBand(value, 1);
+  return band ? toEstimate(band, value, options) : null;
+}
+
+/**
+ * Revenue band from an Apollo headcount. Rough heuristic: ~$200K revenue per
+ * employee for mid-market services/manufacturing.
+ */
+export function revenueFromHeadcount(employeeCount: number | null | undefined): FinancialEstimate | null {
+  if (!employeeCount) return null;
+  const [low, high] = employeeCount <= 100 ? [10e6, 25e6]
+    : employeeCount <= 250 ? [25e6, 50e6]
+    : employeeCount <= 500 ? [50e6, 75e6]
+    : [75e6, 100e6];
+  return {
+    low,
+    high,
+    point: (low + high) / 2,
+    currency: "USD",
+    source: "apollo_headcount",
+    confidence: "Low",
+    text: `${formatAmount(low)}-${formatAmount(high)}`,
+  };
+}
+
+/** 25000000 → "$25M", 1200000000 → "$1.2B" */
+export function formatAmount(amount: number): string {
+  if (amount >= 1e9) return `$${+(amount / 1e9).toFixed(1)}B`;
+  if (amount >= 1e6) return `$${+(amount / 1e6).toFixed(amount < 1e7 ? 1 : 0)}M`;
+  if (amount >= 1e3) return `$${Math.round(amount / 1e3)}K`;
+  return `$${Math.round(amount)}`;
+}
+
+/**
+ * Estimates for a report: the research summary's key figures (Claude, with
+ * the report's confidence) win over the estimate made when it was scored.
+ */
+export function reportEstimates(
+  keyFigures: { estimatedRevenue?: string | null; employees?: string | null } | null | undefined,
+  confidence: string | null | undefined,
+  scoredRevenue: FinancialEstimate | null | undefined,
+): { revenueEstimate: FinancialEstimate | null; employeeEstimate: EmployeeEstimate | null } {
+  return {
+    revenueEstimate: parseRevenueEstimate(keyFigures?.estimatedRevenue, { source: "claude", confidence }) ?? scoredRevenue ?? null,
+    employeeEstimate: parseEmployeeEstimate(keyFigures?.employees, { source: "claude", confidence }),
+  };
+}
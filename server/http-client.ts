@@ -0,0 +1,255 @@
+// Outbound HTTP for every external data provider (Exa, Apollo, openFDA,
+// USPTO, USASpending). Each provider gets a token-bucket rate limit, a request
+// timeout, retries that honour Retry-After, and a circuit breaker: after
+// repeated failures calls fail fast for a cooldown instead of piling up on a
+// provider that is down. Provider health is exposed for /api/health and the
+// dashboard. Policies can be overridden with HTTP_PROVIDER_POLICIES (JSON,
+// merged per provider over the defaults below).
+
+export type HttpProvider = "exa" | "apollo" | "openfda" | "uspto" | "usaspending";
+
+export interface ProviderPolicy {
+  requestsPerMinute: number;
+  burst: number;             // Requests allowed back to back before throttling kicks in
+  timeoutMs: number;
+  maxRetries: number;        // Attempts after the first
+  baseDelayMs: number;       // Exponential backoff base when there is no Retry-After
+  failureThreshold: number;  // Consecutive failures that open the circuit
+  cooldownMs: number;        // How long an open circuit fails fast before a trial request
+}
+
+export const DEFAULT_PROVIDER_POLICIES: Record<HttpProvider, ProviderPolicy> = {
+  exa: { requestsPerMinute: 300, burst: 5, timeoutMs: 30000, maxRetries: 2, baseDelayMs: 1000, failureThreshold: 5, cooldownMs: 60000 },
+  apollo: { requestsPerMinute: 50, burst: 5, timeoutMs: 20000, maxRetries: 2, baseDelayMs: 2000, failureThreshold: 5, cooldownMs: 120000 },
+  // openFDA documents 240 requests per minute without an API key
+  openfda: { requestsPerMinute: 240, burst: 4, timeoutMs: 15000, maxRetries: 2, baseDelayMs: 1000, failureThreshold: 5, cooldownMs: 60000 },
+  // PatentsView allows 45 requests per minute
+  uspto: { requestsPerMinute: 45, burst: 3, timeoutMs: 20000, maxRetries: 2, baseDelayMs: 2000, failureThreshold: 5, cooldownMs: 120000 },
+  usaspending: { requestsPerMinute: 60, burst: 3, timeoutMs: 30000, maxRetries: 2, baseDelayMs: 2000, failureThreshold: 5, cooldownMs: 120000 },
+};
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface ProviderHealth {
+  provider: HttpProvider;
+  state: CircuitState;
+  consecutiveFailures: number;
+  requests: number;
+  failures: number;
+  retries: number;
+  throttledMs: number;       // Total time spent waiting on the rate limit
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  openUntil: string | null;
+}
+
+/** Thrown without calling the provider while its circuit is open. */
+export class CircuitOpenError extends Error {
+  constructor(public provider: HttpProvider, public retryAt: Date) {
+    super(`${provider} is unavailable (circuit open until ${retryAt.toISOString()})`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504, 529]);
+
+/** Retry-After as milliseconds: either delta-seconds or an HTTP date. */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function loadPolicies(): Record<HttpProvider, ProviderPolicy> {
+  const raw = process.env.HTTP_PROVIDER_POLICIES;
+  if (!raw) return DEFAULT_PROVIDER_POLICIES;
+  try {
+    const overrides = JSON.parse(raw);
+    const policies = { ...DEFAULT_PROVIDER_POLICIES };
+    for (const provider of Object.keys(policies) as HttpProvider[]) {
+      policies[provider] = { ...policies[provider], ...overrides[provider] };
+    }
+    return policies;
+  } catch (error: any) {
+    console.warn(`[Http] HTTP_PROVIDER_POLICIES is not valid JSON, using defaults: ${error?.message}`);
+    return DEFAULT_PROVIDER_POLICIES;
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly perMs: number;
+
+  constructor(private capacity: number, requestsPerMinute: number) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+    this.perMs = requestsPerMinute / 60000;
+  }
+
+  /** Wait until a request may go out; resolves with the time spent waiting. */
+  async take(): Promise<number> {
+    let waited = 0;
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.perMs);
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return waited;
+      }
+      const wait = Math.ceil((1 - this.tokens) / this.perMs);
+      waited += wait;
+      await sleep(wait);
+    }
+  }
+}
+
+export class CircuitBreaker {
+  state: CircuitState = "closed";
+  consecutiveFailures = 0;
+  openedAt = 0;
+
+  constructor(private failureThreshold: number, private cooldownMs: number) {}
+
+  /** Whether a request may go out; an open circuit lets one trial through after the cooldown. */
+  allowRequest(now = Date.now()): boolean {
+    if (this.state !== "open") return true;
+    if (now - this.openedAt >= this.cooldownMs) {
+      this.state = "half_open";
+      return true;
+    }
+    return false;
+  }
+
+  openUntil(): Date | null {
+    return this.state === "open" ? new Date(this.openedAt + this.cooldownMs) : null;
+  }
+
+  recordSuccess() {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+  }
+
+  /** Returns true if this failure opened the circuit. */
+  recordFailure(now = Date.now()): boolean {
+    this.consecutiveFailures++;
+    if (this.state === "half_open" || (this.state === "closed" && this.consecutiveFailures >= this.failureThreshold)) {
+      this.state = "open";
+      this.openedAt = now;
+      return true;
+    }
+    return false;
+  }
+}
+
+interface ProviderState {
+  policy: ProviderPolicy;
+  bucket: TokenBucket;
+  breaker: CircuitBreaker;
+  stats: Omit<ProviderHealth, "provider" | "state" | "consecutiveFailures" | "openUntil">;
+}
+
+class ResilientHttpClient {
+  private providers = new Map<HttpProvider, ProviderState>();
+  readonly policies = loadPolicies();
+
+  private state(provider: HttpProvider): ProviderState {
+    let state = this.providers.get(provider);
+    if (!state) {
+      const policy = this.policies[provider];
+      state = {
+        policy,
+        bucket: new TokenBucket(policy.burst, policy.requestsPerMinute),
+        breaker: new CircuitBreaker(policy.failureThreshold, policy.cooldownMs),
+        stats: { requests: 0, failures: 0, retries: 0, throttledMs: 0, lastSuccessAt: null, lastFailureAt: null, lastError: null },
+      };
+      this.providers.set(provider, state);
+    }
+    return state;
+  }
+
+  /**
+   * fetch() through the provider's rate limit, timeout, retries and circuit
+   * breaker. Returns the last response once retries are used up, so callers
+   * keep their own `response.ok` handling; throws CircuitOpenError when the
+   * provider is short-circuited, or the network error after the last attempt
+   * (or the one that opened the circuit).
+   */
+  async fetch(provider: HttpProvider, url: string, init: RequestInit = {}): Promise<Response> {
+    const state = this.state(provider);
+    const { policy, breaker, stats } = state;
+
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.allowRequest()) {
+        throw new CircuitOpenError(provider, breaker.openUntil()!);
+      }
+      stats.throttledMs += await state.bucket.take();
+      stats.requests++;
+
+      let response: Response | null = null;
+      let failure: string;
+      let retryAfterMs: number | null = null;
+      try {
+        response = await fetch(url, { ...init, signal: AbortSignal.timeout(policy.timeoutMs) });
+        if (!RETRYABLE_STATUSES.has(response.status)) {
+          // Any non-retryable answer, including a 4xx, means the provider is up
+          breaker.recordSuccess();
+          stats.lastSuccessAt = new Date().toISOString();
+          return response;
+        }
+        failure = `HTTP ${response.status}`;
+        retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      } catch (error: any) {
+        failure = error?.name === "TimeoutError" ? `timeout after ${policy.timeoutMs}ms` : error?.message || String(error);
+        this.recordFailure(provider, state, failure);
+        // No response to hand back once retries are used up or this failure opened the circuit
+        if (attempt >= policy.maxRetries || breaker.state === "open") throw error;
+      }
+
+      if (response) {
+        // Throttling says nothing about the provider being down, so 429s don't trip the breaker
+        if (response.status !== 429) this.recordFailure(provider, state, failure);
+        if (attempt >= policy.maxRetries || breaker.state === "open") return response;
+      }
+
+      const delay = retryAfterMs ?? policy.baseDelayMs * Math.pow(2, attempt);
+      stats.retries++;
+      console.warn(`[Http] ${provider} ${failure}, retrying in ${delay}ms (attempt ${attempt + 1}/${policy.maxRetries})`);
+      await sleep(delay);
+    }
+  }
+
+  private recordFailure(provider: HttpProvider, state: ProviderState, failure: string) {
+    state.stats.failures++;
+    state.stats.lastFailureAt = new Date().toISOString();
+    state.stats.lastError = failure;
+    if (state.breaker.recordFailure()) {
+      console.error(`[Http] ${provider} circuit OPEN after ${state.breaker.consecutiveFailures} consecutive failures (${failure}); failing fast for ${state.policy.cooldownMs / 1000}s`);
+    }
+  }
+
+  health(): ProviderHealth[] {
+    return (Object.keys(this.policies) as HttpProvider[]).map(provider => {
+      const { breaker, stats } = this.state(provider);
+      // Report an open circuit whose cooldown has passed as half-open without letting a request through
+      const state = breaker.state === "open" && Date.now() - breaker.openedAt >= this.policies[provider].cooldownMs
+        ? "half_open"
+        : breaker.state;
+      return {
+        provider,
+        state,
+        consecutiveFailures: breaker.consecutiveFailures,
+        ...stats,
+        openUntil: state === "open" ? breaker.openUntil()!.toISOString() : null,
+      };
+    });
+  }
+}
+
+export const httpClient = new ResilientHttpClient();
@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+
+// Investment thesis per agent config: the buyer's mandate in their own words.
+// A run snapshots it into its search criteria (like the scoring weights) so
+// scoring, research and outreach judge "fit" against this mandate instead of
+// in general. Reports find it through the discovery run that produced them;
+// direct research and reports without a run have no thesis.
+
+export interface InvestmentThesis {
+  summary?: string;            // The mandate in a few sentences
+  strategicGoals?: string;     // What the buyer wants an acquisition to achieve
+  mustHaves?: string;
+  dealBreakers?: string;
+  priorAcquisitions?: string;  // Deals already done, as examples of fit
+}
+
+export const THESIS_SECTIONS: Array<{ key: keyof InvestmentThesis; label: string }> = [
+  { key: "summary", label: "Mandate" },
+  { key: "strategicGoals", label: "Strategic goals" },
+  { key: "mustHaves", label: "Must-haves" },
+  { key: "dealBreakers", label: "Deal-breakers" },
+  { key: "priorAcquisitions", label: "Prior acquisitions" },
+];
+
+const MAX_SECTION_LENGTH = 4000;
+
+export function validateInvestmentThesis(thesis: any): string | null {
+  if (thesis === undefined || thesis === null) return null;
+  if (typeof thesis !== "object" || Array.isArray(thesis)) return "investmentThesis must be an object";
+  for (const key of Object.keys(thesis)) {
+    if (!THESIS_SECTIONS.some(section => section.key === key)) {
+      return `investmentThesis.${key} is not a thesis section`;
+    }
+    const value = thesis[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "string") return `investmentThesis.${key} must be text`;
+    if (value.length > MAX_SECTION_LENGTH) return `investmentThesis.${key} must be at most ${MAX_SECTION_LENGTH} characters`;
+  }
+  return null;
+}
+
+/** Keep only the sections with text; null when the thesis is empty. */
+export function normalizeInvestmentThesis(thesis: any): InvestmentThesis | null {
+  if (!thesis || typeof thesis !== "object") return null;
+  const normalized: InvestmentThesis = {};
+  for (const { key } of THESIS_SECTIONS) {
+    if (typeof thesis[key] === "string" && thesis[key].trim()) normalized[key] = thesis[key].trim();
+  }
+  return Object.keys(normalized).length > 0 ? normalized : null;
+}
+
+/**
+ * Prompt block for a thesis, or "" when there is none. `instruction` says how
+ * the step should use it (score against it, assess fit, reference it).
+ */
+export function formatThesisForPrompt(thesis: InvestmentThesis | null | undefined, instruction: string): string {
+  if (!thesis) return "";
+  const lines = THESIS_SECTIONS
+    .filter(({ key }) => thesis[key])
+    .map(({ key, label }) => `${label}: ${thesis[key]}`);
+  if (lines.length === 0) return "";
+  return `\n\nOUR INVESTMENT THESIS (${instruction}):\n${lines.join("\n")}`;
+}
+
+class InvestmentTheses {
+  /** The thesis a run snapshotted when it started. */
+  async forWorkflow(workflowId: number | null | undefined): Promise<InvestmentThesis | null> {
+    if (!workflowId) return null;
+    const workflow = await storage.getWorkflow(workflowId);
+    return normalizeInvestmentThesis((workflow?.searchCriteria as any)?.investmentThesis);
+  }
+
+  /** The thesis of the run that discovered the report's company. */
+  async forReport(reportId: number): Promise<InvestmentThesis | null> {
+    const queueItem = await storage.getDiscoveryItemByReportId(reportId);
+    return this.forWorkflow(queueItem?.workflowId);
+  }
+}
+
+export const investmentTheses = new InvestmentTheses();
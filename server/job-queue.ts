@@ -0,0 +1,463 @@
+import os from "os";
+import { db } from "./storage";
+import { workflowJobs } from "../drizzle/schema";
+import { costTracker } from "./cost-tracker";
+import { and, asc, desc, eq, inArray, lt, lte, ne, notInArray, sql } from "drizzle-orm";
+
+export type WorkflowJob = typeof workflowJobs.$inferSelect;
+
+export interface EnqueueOptions {
+  workflowId?: number | null;
+  jobKey?: string | null;
+  maxAttempts?: number;
+  runAfter?: Date;
+  priority?: number;
+}
+
+export interface JobSpec extends EnqueueOptions {
+  step: string;
+  payload?: any;
+}
+
+/**
+ * What a handler returns when it finishes.
+ * - result: stored on the job for inspection
+ * - next: follow-up jobs, enqueued together with marking this one completed
+ * - deferMs: not ready yet — put the job back without spending an attempt
+ */
+export interface JobOutcome {
+  result?: any;
+  next?: JobSpec[];
+  deferMs?: number;
+}
+
+/** A cap on how many jobs of these steps run at once, across every worker process. */
+export interface ConcurrencyGroup {
+  steps: string[];
+  limit: number;
+}
+
+export interface ConcurrencyGroupStatus {
+  name: string;
+  limit: number;
+  running: number;
+  queued: number;
+  queuedByPriority: Array<{ priority: number; count: number }>;
+  runningByWorkflow: Array<{ workflowId: number | null; count: number }>;
+}
+
+export interface JobContext {
+  saveCheckpoint(checkpoint: any): Promise<void>;
+}
+
+export interface JobHandler {
+  run(job: WorkflowJob, ctx: JobContext): Promise<JobOutcome | void>;
+  // Called once the job has exhausted its attempts
+  onFailure?(job: WorkflowJob, error: any): Promise<void>;
+}
+
+/**
+ * Thrown by a handler when its workflow was paused or cancelled. The job is
+ * parked in that status (checkpoint kept, attempt not counted) instead of failing.
+ */
+export class WorkflowHaltedError extends Error {
+  constructor(public workflowId: number, public haltStatus: "paused" | "cancelled") {
+    super(`Workflow ${workflowId} is ${haltStatus}`);
+    this.name = "WorkflowHaltedError";
+  }
+}
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// A running job whose heartbeat is older than this is assumed to belong to a dead process
+const LEASE_MS = 2 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 5000;
+// Advisory lock held while claiming, so two workers can't both take the last slot of a concurrency group
+const CLAIM_LOCK_KEY = 7400117;
+
+class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private workerId = `${os.hostname()}:${process.pid}:${Date.now()}`;
+  // Leaves a slot for pipeline steps when research (3 at a time by default) is saturated
+  private concurrency = parseInt(process.env.JOB_CONCURRENCY || "4") || 4;
+  private groups = new Map<string, ConcurrencyGroup>();
+  private active = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+  private ticking = false;
+  private tickRequested = false;
+
+  register(step: string, handler: JobHandler) {
+    this.handlers.set(step, handler);
+  }
+
+  /** Cap concurrent jobs of the given steps globally (all workers share the limit). */
+  limitConcurrency(name: string, steps: string[], limit: number) {
+    this.groups.set(name, { steps, limit: Math.max(1, limit) });
+    console.log(`[JobQueue] Concurrency group "${name}": at most ${limit} of ${steps.join(", ")} at once`);
+  }
+
+  async enqueue(step: string, payload: any = {}, options: EnqueueOptions = {}): Promise<WorkflowJob | null> {
+    const [job] = await this.enqueueMany([{ step, payload, ...options }]);
+    return job || null;
+  }
+
+  /**
+   * Insert jobs, skipping any whose jobKey already exists. Returns the newly created rows.
+   */
+  async enqueueMany(specs: JobSpec[], tx: any = db): Promise<WorkflowJob[]> {
+    if (specs.length === 0) return [];
+    const rows = await tx
+      .insert(workflowJobs)
+      .values(specs.map(spec => ({
+        workflowId: spec.workflowId ?? null,
+        step: spec.step,
+        jobKey: spec.jobKey ?? null,
+        payload: spec.payload ?? {},
+        maxAttempts: spec.maxAttempts ?? 3,
+        runAfter: spec.runAfter ?? new Date(),
+        priority: spec.priority ?? 0,
+      })))
+      .onConflictDoNothing({ target: workflowJobs.jobKey })
+      .returning();
+    this.poke();
+    return rows;
+  }
+
+  async getJobsForWorkflow(workflowId: number): Promise<WorkflowJob[]> {
+    return db
+      .select()
+      .from(workflowJobs)
+      .where(eq(workflowJobs.workflowId, workflowId))
+      .orderBy(asc(workflowJobs.id));
+  }
+
+  async countOutstandingJobs(workflowId: number, step?: string): Promise<number> {
+    const conditions = [
+      eq(workflowJobs.workflowId, workflowId),
+      inArray(workflowJobs.status, ["queued", "running"]),
+    ];
+    if (step) conditions.push(eq(workflowJobs.step, step));
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(workflowJobs)
+      .where(and(...conditions));
+    return row?.count || 0;
+  }
+
+  /**
+   * Move a workflow's jobs between statuses — used to park and release them on
+   * pause/resume/cancel. Running jobs are left alone; they halt at their next check.
+   * Manual-approval research jobs are never moved.
+   */
+  async setWorkflowJobStatus(workflowId: number, fromStatuses: string[], toStatus: string): Promise<number> {
+    const updated = await db
+      .update(workflowJobs)
+      .set({
+        status: toStatus,
+        ...(toStatus === "queued" ? { runAfter: new Date() } : {}),
+        ...(toStatus === "cancelled" ? { completedAt: new Date() } : {}),
+      })
+      .where(and(
+        eq(workflowJobs.workflowId, workflowId),
+        inArray(workflowJobs.status, fromStatuses),
+        // Research a reviewer approved by hand runs even on a paused or cancelled workflow
+        sql`coalesce(${workflowJobs.payload}->>'manual', 'false') <> 'true'`,
+      ))
+      .returning({ id: workflowJobs.id });
+    if (toStatus === "queued") this.poke();
+    return updated.length;
+  }
+
+  /**
+   * Put jobs whose worker stopped heartbeating back in the queue. Their
+   * checkpoints are kept, so the step picks up where it left off.
+   */
+  async recoverStaleJobs(): Promise<number> {
+    const staleBefore = new Date(Date.now() - LEASE_MS);
+    const recovered = await db
+      .update(workflowJobs)
+      .set({ status: "queued", lockedAt: null, lockedBy: null, runAfter: new Date() })
+      .where(and(
+        eq(workflowJobs.status, "running"),
+        ne(workflowJobs.lockedBy, this.workerId),
+        lt(workflowJobs.lockedAt, staleBefore),
+      ))
+      .returning({ id: workflowJobs.id, step: workflowJobs.step, workflowId: workflowJobs.workflowId });
+
+    for (const job of recovered) {
+      console.log(`[JobQueue] Recovered stale job ${job.id} (${job.step}, workflow ${job.workflowId})`);
+    }
+    return recovered.length;
+  }
+
+  /**
+   * Jobs claimed by a previous process of this server are always stale on startup,
+   * regardless of how recently they heartbeated.
+   */
+  async recoverJobsFromPreviousRun(): Promise<number> {
+    const recovered = await db
+      .update(workflowJobs)
+      .set({ status: "queued", lockedAt: null, lockedBy: null, runAfter: new Date() })
+      .where(and(
+        eq(workflowJobs.status, "running"),
+        sql`${workflowJobs.lockedBy} LIKE ${`${os.hostname()}:%`}`,
+        ne(workflowJobs.lockedBy, this.workerId),
+      ))
+      .returning({ id: workflowJobs.id });
+    if (recovered.length > 0) {
+      console.log(`[JobQueue] Requeued ${recovered.length} job(s) interrupted by restart`);
+    }
+    return recovered.length;
+  }
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+    console.log(`[JobQueue] Worker ${this.workerId} started (concurrency ${this.concurrency})`);
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.started = false;
+  }
+
+  // Wake the worker right away instead of waiting for the next poll
+  private poke() {
+    if (this.started) setImmediate(() => this.tick());
+  }
+
+  private async tick() {
+    // Overlapping ticks could claim past the concurrency limit — coalesce them
+    if (this.ticking) {
+      this.tickRequested = true;
+      return;
+    }
+    this.ticking = true;
+    try {
+      await this.recoverStaleJobs();
+      while (this.active < this.concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+        this.active++;
+        this.execute(job).finally(() => {
+          this.active--;
+          this.poke();
+        });
+      }
+    } catch (error: any) {
+      console.error("[JobQueue] Poll failed:", error?.message || error);
+    } finally {
+      this.ticking = false;
+      if (this.tickRequested) {
+        this.tickRequested = false;
+        this.poke();
+      }
+    }
+  }
+
+  /**
+   * Claim the next runnable job: highest priority first, then the workflow with
+   * the fewest jobs running (so concurrent workflows share the workers instead
+   * of one draining its whole backlog first), then oldest. Steps whose
+   * concurrency group is full are skipped until a slot frees up.
+   */
+  private async claimNext(): Promise<WorkflowJob | null> {
+    return db.transaction(async (tx) => {
+      if (this.groups.size > 0) {
+        await tx.execute(sql`select pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`);
+      }
+      const saturated = await this.saturatedSteps(tx);
+
+      const conditions = [
+        eq(workflowJobs.status, "queued"),
+        lte(workflowJobs.runAfter, new Date()),
+      ];
+      if (saturated.length > 0) conditions.push(notInArray(workflowJobs.step, saturated));
+
+      const runningInWorkflow = sql`(
+        select count(*) from workflow_jobs running
+        where running.workflow_id = ${workflowJobs.workflowId} and running.status = 'running'
+      )`;
+
+      const [candidate] = await tx
+        .select({ id: workflowJobs.id })
+        .from(workflowJobs)
+        .where(and(...conditions))
+        .orderBy(desc(workflowJobs.priority), asc(runningInWorkflow), asc(workflowJobs.runAfter), asc(workflowJobs.id))
+        .limit(1)
+        .for("update", { skipLocked: true });
+
+      if (!candidate) return null;
+
+      const [claimed] = await tx
+        .update(workflowJobs)
+        .set({
+          status: "running",
+          attempts: sql`${workflowJobs.attempts} + 1`,
+          lockedAt: new Date(),
+          lockedBy: this.workerId,
+          startedAt: sql`coalesce(${workflowJobs.startedAt}, now())`,
+        })
+        .where(eq(workflowJobs.id, candidate.id))
+        .returning();
+      return claimed || null;
+    });
+  }
+
+  private async saturatedSteps(tx: any): Promise<string[]> {
+    const saturated: string[] = [];
+    for (const group of Array.from(this.groups.values())) {
+      const [row] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(workflowJobs)
+        .where(and(eq(workflowJobs.status, "running"), inArray(workflowJobs.step, group.steps)));
+      if ((row?.count || 0) >= group.limit) saturated.push(...group.steps);
+    }
+    return saturated;
+  }
+
+  async getConcurrencyGroupStatus(name: string): Promise<ConcurrencyGroupStatus | null> {
+    const group = this.groups.get(name);
+    if (!group) return null;
+
+    const inGroup = inArray(workflowJobs.step, group.steps);
+    const queuedByPriority = await db
+      .select({ priority: workflowJobs.priority, count: sql<number>`count(*)::int` })
+      .from(workflowJobs)
+      .where(and(eq(workflowJobs.status, "queued"), inGroup))
+      .groupBy(workflowJobs.priority)
+      .orderBy(desc(workflowJobs.priority));
+    const runningByWorkflow = await db
+      .select({ workflowId: workflowJobs.workflowId, count: sql<number>`count(*)::int` })
+      .from(workflowJobs)
+      .where(and(eq(workflowJobs.status, "running"), inGroup))
+      .groupBy(workflowJobs.workflowId);
+
+    return {
+      name,
+      limit: group.limit,
+      running: runningByWorkflow.reduce((sum, row) => sum + row.count, 0),
+      queued: queuedByPriority.reduce((sum, row) => sum + row.count, 0),
+      queuedByPriority,
+      runningByWorkflow,
+    };
+  }
+
+  private async execute(job: WorkflowJob) {
+    const handler = this.handlers.get(job.step);
+    if (!handler) {
+      console.error(`[JobQueue] No handler registered for step "${job.step}" (job ${job.id})`);
+      await this.finish(job.id, { status: "failed", lastError: `No handler for step ${job.step}` });
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      db.update(workflowJobs)
+        .set({ lockedAt: new Date() })
+        .where(and(eq(workflowJobs.id, job.id), eq(workflowJobs.lockedBy, this.workerId)))
+        .catch((error: any) => console.warn(`[JobQueue] Heartbeat failed for job ${job.id}:`, error?.message));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const ctx: JobContext = {
+      saveCheckpoint: async (checkpoint: any) => {
+        job.checkpoint = checkpoint;
+        await db
+          .update(workflowJobs)
+          .set({ checkpoint, lockedAt: new Date() })
+          .where(eq(workflowJobs.id, job.id));
+      },
+    };
+
+    console.log(`[JobQueue] Running job ${job.id}: ${job.step} (workflow ${job.workflowId}, attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      // API usage during the job is charged to its workflow
+      const outcome = (await costTracker.run({ workflowId: job.workflowId }, () => handler.run(job, ctx))) || {};
+
+      if (outcome.deferMs !== undefined) {
+        await db
+          .update(workflowJobs)
+          .set({
+            status: "queued",
+            // Deferral is not a failed attempt
+            attempts: sql`greatest(${workflowJobs.attempts} - 1, 0)`,
+            runAfter: new Date(Date.now() + outcome.deferMs),
+            lockedAt: null,
+            lockedBy: null,
+          })
+          .where(eq(workflowJobs.id, job.id));
+        return;
+      }
+
+      await db.transaction(async (tx) => {
+        await this.enqueueMany(
+          (outcome.next || []).map(spec => ({ workflowId: job.workflowId, ...spec })),
+          tx
+        );
+        await tx
+          .update(workflowJobs)
+          .set({
+            status: "completed",
+            result: outcome.result ?? null,
+            lastError: null,
+            completedAt: new Date(),
+            lockedAt: null,
+            lockedBy: null,
+          })
+          .where(eq(workflowJobs.id, job.id));
+      });
+      console.log(`[JobQueue] Job ${job.id} (${job.step}) completed`);
+    } catch (error: any) {
+      if (error instanceof WorkflowHaltedError) {
+        console.log(`[JobQueue] Job ${job.id} (${job.step}) ${error.haltStatus} with its workflow`);
+        await db
+          .update(workflowJobs)
+          .set({
+            status: error.haltStatus,
+            attempts: sql`greatest(${workflowJobs.attempts} - 1, 0)`,
+            ...(error.haltStatus === "cancelled" ? { completedAt: new Date() } : {}),
+            lockedAt: null,
+            lockedBy: null,
+          })
+          .where(eq(workflowJobs.id, job.id));
+        return;
+      }
+
+      const message = error?.message || String(error);
+
+      if (job.attempts < job.maxAttempts) {
+        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+        console.warn(`[JobQueue] Job ${job.id} (${job.step}) attempt ${job.attempts} failed: ${message} — retrying in ${delay}ms`);
+        await this.finish(job.id, {
+          status: "queued",
+          lastError: message,
+          runAfter: new Date(Date.now() + delay),
+        });
+        return;
+      }
+
+      console.error(`[JobQueue] Job ${job.id} (${job.step}) failed permanently after ${job.attempts} attempt(s): ${message}`);
+      await this.finish(job.id, { status: "failed", lastError: message, completedAt: new Date() });
+      try {
+        await handler.onFailure?.(job, error);
+      } catch (hookError: any) {
+        console.error(`[JobQueue] onFailure hook for job ${job.id} threw:`, hookError?.message || hookError);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async finish(jobId: number, data: Partial<WorkflowJob>) {
+    await db
+      .update(workflowJobs)
+      .set({ ...data, lockedAt: null, lockedBy: null })
+      .where(eq(workflowJobs.id, jobId));
+  }
+}
+
+export const jobQueue = new JobQueue();
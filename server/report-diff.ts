@@ -0,0 +1,164 @@
+// Section-by-section comparison of two report versions, used by the library's
+// history view to show what changed on refresh (executives, revenue, patents...).
+
+export interface VersionSnapshot {
+  version: number;
+  createdAt: Date | string;
+  recommendation: string | null;
+  confidence: string | null;
+  qualityScore: number | null;
+  contactsFound: number | null;
+  keyFigures: unknown; // jsonb KeyFigures object
+  sections: Array<{ sectionKey: string; title: string; content: string; source?: string }>;
+}
+
+export type LineChange = { type: "same" | "added" | "removed"; text: string };
+
+export interface SectionDiff {
+  sectionKey: string;
+  title: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  addedLines: number;
+  removedLines: number;
+  lines: LineChange[]; // Empty for unchanged sections
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface ReportDiff {
+  fromVersion: number;
+  toVersion: number;
+  fieldChanges: FieldChange[];
+  keyFigureChanges: FieldChange[];
+  contacts: { added: string[]; removed: string[] };
+  sections: SectionDiff[];
+}
+
+// Above this many lines per side, fall back to a set comparison instead of a full LCS table
+const MAX_LCS_LINES = 2000;
+
+/**
+ * Line diff via longest common subsequence. Blank lines are ignored so
+ * reflowed spacing doesn't show up as churn.
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before.split("\n").map(l => l.trimEnd()).filter(l => l.trim() !== "");
+  const b = after.split("\n").map(l => l.trimEnd()).filter(l => l.trim() !== "");
+
+  if (a.length > MAX_LCS_LINES || b.length > MAX_LCS_LINES) {
+    const inA = new Set(a);
+    const inB = new Set(b);
+    return [
+      ...a.filter(l => !inB.has(l)).map(text => ({ type: "removed" as const, text })),
+      ...b.map(text => ({ type: inA.has(text) ? "same" as const : "added" as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: "removed", text: a[i++] });
+    } else {
+      changes.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ type: "removed", text: a[i++] });
+  while (j < b.length) changes.push({ type: "added", text: b[j++] });
+  return changes;
+}
+
+/** Names from "**Name** - Title" lines in the contacts section. */
+export function extractContactNames(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(/\*\*([^*]+)\*\*\s*-\s*[^\n]+/g)) {
+    names.add(match[1].trim());
+  }
+  return Array.from(names);
+}
+
+function compareFields(fields: string[], before: Record<string, any>, after: Record<string, any>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const a = before[field] ?? null;
+    const b = after[field] ?? null;
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+export function diffReportVersions(from: VersionSnapshot, to: VersionSnapshot): ReportDiff {
+  const fromSections = new Map(from.sections.map(s => [s.sectionKey, s]));
+  const toSections = new Map(to.sections.map(s => [s.sectionKey, s]));
+
+  // Keep the newer version's order, then anything that was dropped
+  const keys = [
+    ...to.sections.map(s => s.sectionKey),
+    ...from.sections.map(s => s.sectionKey).filter(k => !toSections.has(k)),
+  ];
+
+  const sections: SectionDiff[] = keys.map(key => {
+    const before = fromSections.get(key);
+    const after = toSections.get(key);
+    const title = after?.title || before?.title || key;
+
+    if (!before) {
+      const lines = diffLines("", after!.content);
+      return { sectionKey: key, title, status: "added", addedLines: lines.length, removedLines: 0, lines };
+    }
+    if (!after) {
+      const lines = diffLines(before.content, "");
+      return { sectionKey: key, title, status: "removed", addedLines: 0, removedLines: lines.length, lines };
+    }
+
+    const lines = diffLines(before.content, after.content);
+    const addedLines = lines.filter(l => l.type === "added").length;
+    const removedLines = lines.filter(l => l.type === "removed").length;
+    if (addedLines === 0 && removedLines === 0) {
+      return { sectionKey: key, title, status: "unchanged", addedLines: 0, removedLines: 0, lines: [] };
+    }
+    return { sectionKey: key, title, status: "changed", addedLines, removedLines, lines };
+  });
+
+  const contactsBefore = extractContactNames(fromSections.get("key_contacts")?.content || "");
+  const contactsAfter = extractContactNames(toSections.get("key_contacts")?.content || "");
+
+  const figuresBefore = (from.keyFigures || {}) as Record<string, any>;
+  const figuresAfter = (to.keyFigures || {}) as Record<string, any>;
+  const keyFigureFields = Array.from(new Set([...Object.keys(figuresBefore), ...Object.keys(figuresAfter)]));
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    fieldChanges: compareFields(
+      ["recommendation", "confidence", "qualityScore", "contactsFound"],
+      from as any,
+      to as any
+    ),
+    keyFigureChanges: compareFields(keyFigureFields, figuresBefore, figuresAfter),
+    contacts: {
+      added: contactsAfter.filter(name => !contactsBefore.includes(name)),
+      removed: contactsBefore.filter(name => !contactsAfter.includes(name)),
+    },
+    sections,
+  };
+}
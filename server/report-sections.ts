@@ -0,0 +1,342 @@
+// Structured research reports: canonical sections, typed summary fields and
+// quality scoring. Claude still writes markdown; this module splits it into
+// sections with a source attached so the library and exports don't re-parse text.
+
+export type ReportSectionKey =
+  | "executive_summary"
+  | "strategic_assessment"
+  | "business_overview"
+  | "financial_intelligence"
+  | "competitive_landscape"
+  | "management_team"
+  | "growth_indicators"
+  | "key_contacts"
+  | "risks_diligence"
+  | "valuation_framework"
+  | "next_steps"
+  | "patents"
+  | "fda"
+  | "preamble";
+
+export type ReportSectionSource = "claude" | "uspto" | "openfda" | "apollo" | "legacy";
+
+export type Recommendation = "buy-side" | "sell-side" | "dual" | "pass";
+export type ReportConfidence = "High" | "Medium" | "Low";
+
+export interface KeyFigures {
+  estimatedRevenue?: string | null;
+  employees?: string | null;
+  founded?: string | null;
+  headquarters?: string | null;
+  ownership?: string | null;
+  valuationRange?: string | null;
+}
+
+export interface ReportSummary {
+  recommendation: Recommendation | null;
+  recommendationRationale: string | null;
+  confidence: ReportConfidence | null;
+  keyFigures: KeyFigures;
+}
+
+export interface ReportSection {
+  sectionKey: ReportSectionKey;
+  title: string;
+  position: number;
+  content: string;
+  source: ReportSectionSource;
+  metadata: Record<string, any>;
+}
+
+// The 11 sections the research prompt asks for, in order, plus enhancer sections
+export const REPORT_SECTIONS: { key: ReportSectionKey; title: string; pattern: RegExp; canonical: boolean }[] = [
+  { key: "executive_summary", title: "Executive Summary", pattern: /executive summary/i, canonical: true },
+  { key: "strategic_assessment", title: "Strategic Assessment", pattern: /strategic assessment/i, canonical: true },
+  { key: "business_overview", title: "Business Overview", pattern: /business overview/i, canonical: true },
+  { key: "financial_intelligence", title: "Financial Intelligence", pattern: /financial intelligence/i, canonical: true },
+  { key: "competitive_landscape", title: "Competitive Landscape", pattern: /competitive landscape/i, canonical: true },
+  { key: "management_team", title: "Management Team", pattern: /management team/i, canonical: true },
+  { key: "growth_indicators", title: "Growth Indicators", pattern: /growth indicators/i, canonical: true },
+  { key: "key_contacts", title: "Key Contacts & Decision-Maker Intelligence", pattern: /key contacts|decision-maker/i, canonical: true },
+  { key: "risks_diligence", title: "Risks & Diligence Priorities", pattern: /risks.*diligence/i, canonical: true },
+  { key: "valuation_framework", title: "Valuation Framework", pattern: /valuation framework/i, canonical: true },
+  { key: "next_steps", title: "Next Steps", pattern: /next steps/i, canonical: true },
+  { key: "patents", title: "Patent & IP Intelligence (USPTO)", pattern: /patent & ip intelligence/i, canonical: false },
+  { key: "fda", title: "FDA Regulatory Intelligence", pattern: /fda regulatory intelligence/i, canonical: false },
+];
+
+export const CANONICAL_SECTION_COUNT = REPORT_SECTIONS.filter(s => s.canonical).length;
+
+// A section needs at least this much text to count toward quality
+const MIN_SECTION_CHARS = 50;
+
+const RECOMMENDATIONS: Recommendation[] = ["buy-side", "sell-side", "dual", "pass"];
+const CONFIDENCES: ReportConfidence[] = ["High", "Medium", "Low"];
+
+/**
+ * Instructions appended to the research prompt so Claude returns the typed
+ * summary fields alongside the markdown.
+ */
+export const REPORT_SUMMARY_INSTRUCTIONS = `At the very end of the report, add a fenced \`\`\`json block with this exact shape (use null for anything you could not find):
+{
+  "recommendation": "buy-side" | "sell-side" | "dual" | "pass",
+  "recommendationRationale": "One sentence explaining the recommendation",
+  "confidence": "High" | "Medium" | "Low",
+  "keyFigures": {
+    "estimatedRevenue": "$25M",
+    "employees": "120",
+    "founded": "2009",
+    "headquarters": "Columbus, OH",
+    "ownership": "Founder-Led",
+    "valuationRange": "$40M-$60M"
+  }
+}`;
+
+const emptySummary = (): ReportSummary => ({
+  recommendation: null,
+  recommendationRationale: null,
+  confidence: null,
+  keyFigures: {},
+});
+
+function normalizeRecommendation(value: any): Recommendation | null {
+  if (typeof value !== "string") return null;
+  const lower = value.toLowerCase().trim();
+  if (RECOMMENDATIONS.includes(lower as Recommendation)) return lower as Recommendation;
+  if (lower.includes("dual")) return "dual";
+  if (lower.includes("sell")) return "sell-side";
+  if (lower.includes("buy")) return "buy-side";
+  if (lower.includes("pass")) return "pass";
+  return null;
+}
+
+function normalizeConfidence(value: any): ReportConfidence | null {
+  if (typeof value !== "string") return null;
+  return CONFIDENCES.find(c => c.toLowerCase() === value.toLowerCase().trim()) || null;
+}
+
+function normalizeKeyFigures(value: any): KeyFigures {
+  if (!value || typeof value !== "object") return {};
+  const figures: KeyFigures = {};
+  for (const key of ["estimatedRevenue", "employees", "founded", "headquarters", "ownership", "valuationRange"] as const) {
+    const raw = value[key];
+    if (raw !== null && raw !== undefined && String(raw).trim() !== "") {
+      figures[key] = String(raw).trim();
+    }
+  }
+  return figures;
+}
+
+/**
+ * Pull the trailing JSON summary block out of Claude's report. Returns the
+ * report without the block plus the typed fields (nulls if missing or invalid).
+ */
+export function extractReportSummary(markdown: string): { body: string; summary: ReportSummary } {
+  const blocks = Array.from(markdown.matchAll(/```json\s*([\s\S]*?)```/g));
+  const last = blocks[blocks.length - 1];
+  if (!last || last.index === undefined) {
+    return { body: markdown, summary: emptySummary() };
+  }
+
+  try {
+    const data = JSON.parse(last[1]);
+    if (!data || typeof data !== "object" || !("recommendation" in data || "confidence" in data)) {
+      return { body: markdown, summary: emptySummary() };
+    }
+    const body = (markdown.slice(0, last.index) + markdown.slice(last.index + last[0].length)).trim();
+    return {
+      body,
+      summary: {
+        recommendation: normalizeRecommendation(data.recommendation),
+        recommendationRationale: typeof data.recommendationRationale === "string" ? data.recommendationRationale : null,
+        confidence: normalizeConfidence(data.confidence),
+        keyFigures: normalizeKeyFigures(data.keyFigures),
+      },
+    };
+  } catch {
+    return { body: markdown, summary: emptySummary() };
+  }
+}
+
+interface HeadingMatch {
+  level: number;
+  text: string;
+}
+
+function matchHeading(line: string): HeadingMatch | null {
+  const hash = line.match(/^(#{1,4})\s+(.+?)\s*#*\s*$/);
+  if (hash) return { level: hash[1].length, text: hash[2] };
+  // Claude sometimes uses bold numbered lines instead of markdown headings
+  const bold = line.match(/^\*\*(\d+\.\s*.+?)\*\*\s*$/);
+  if (bold) return { level: 0, text: bold[1] };
+  return null;
+}
+
+function sectionForHeading(text: string): (typeof REPORT_SECTIONS)[number] | undefined {
+  const cleaned = text.replace(/^\d+\.\s*/, "").replace(/\*\*/g, "");
+  return REPORT_SECTIONS.find(s => s.pattern.test(cleaned));
+}
+
+/**
+ * Split a markdown report into known sections. Only headings at the level of
+ * the first recognized canonical section start a new one, so sub-headings such
+ * as "### Next Steps for Diligence" stay inside their parent section.
+ */
+export function parseReportSections(markdown: string): Array<{ sectionKey: ReportSectionKey; title: string; content: string }> {
+  const lines = markdown.split("\n");
+  const sections: Array<{ sectionKey: ReportSectionKey; title: string; lines: string[] }> = [];
+  const seen = new Set<ReportSectionKey>();
+  let sectionLevel: number | null = null;
+  let current: { sectionKey: ReportSectionKey; title: string; lines: string[] } = {
+    sectionKey: "preamble",
+    title: "",
+    lines: [],
+  };
+
+  for (const line of lines) {
+    const heading = matchHeading(line);
+    const known = heading ? sectionForHeading(heading.text) : undefined;
+
+    // Enhancer sections are appended as "## ..." whatever heading style Claude used
+    if (heading && known && !seen.has(known.key) && (sectionLevel === null || heading.level === sectionLevel || !known.canonical)) {
+      if (known.canonical) sectionLevel = heading.level;
+      sections.push(current);
+      seen.add(known.key);
+      current = {
+        sectionKey: known.key,
+        title: heading.text.replace(/^\d+\.\s*/, "").replace(/\*\*/g, "").trim() || known.title,
+        lines: [],
+      };
+      continue;
+    }
+
+    current.lines.push(line);
+  }
+  sections.push(current);
+
+  return sections
+    .map(s => ({ sectionKey: s.sectionKey, title: s.title, content: s.lines.join("\n").trim() }))
+    .filter(s => s.sectionKey !== "preamble" || s.content.length > 0);
+}
+
+/**
+ * Build the stored sections for a freshly researched report. Sections are
+ * attributed by comparing the final (enriched) report with Claude's original
+ * output: enhancer sections come from their databases, and a contacts section
+ * that changed was rewritten by Apollo.
+ */
+export function buildReportSections(
+  finalReport: string,
+  claudeReport: string,
+  metadata: { model: string; generatedAt: Date }
+): ReportSection[] {
+  const claudeSections = new Map(parseReportSections(claudeReport).map(s => [s.sectionKey, s.content]));
+
+  return parseReportSections(finalReport).map((section, index) => {
+    let source: ReportSectionSource = "claude";
+    if (section.sectionKey === "patents") source = "uspto";
+    else if (section.sectionKey === "fda") source = "openfda";
+    else if (section.sectionKey === "key_contacts" && claudeSections.get("key_contacts") !== section.content) source = "apollo";
+
+    return {
+      ...section,
+      position: index,
+      source,
+      metadata: {
+        generatedAt: metadata.generatedAt.toISOString(),
+        chars: section.content.length,
+        ...(source === "claude" || source === "apollo" ? { model: metadata.model } : {}),
+      },
+    };
+  });
+}
+
+/** Split a report written before sections existed; every section is attributed to "legacy". */
+export function buildLegacySections(markdown: string): ReportSection[] {
+  return parseReportSections(markdown).map((section, index) => ({
+    ...section,
+    position: index,
+    source: "legacy" as const,
+    metadata: { backfilledAt: new Date().toISOString(), chars: section.content.length },
+  }));
+}
+
+/** Reassemble sections into markdown (exports and the legacy `reports.report` column). */
+export function renderReportSections(sections: Array<{ title: string; content: string; sectionKey: string }>): string {
+  return sections
+    .map(s => (s.sectionKey === "preamble" ? s.content : `## ${s.title}\n\n${s.content}`))
+    .join("\n\n");
+}
+
+/**
+ * Quality = how many of the 11 canonical sections have real content.
+ * Contacts are counted only inside the contacts section (pattern: **Name** - Title).
+ */
+export function scoreSectionQuality(sections: Array<{ sectionKey: string; content: string }>): { qualityScore: number; contactsFound: number } {
+  const qualityScore = sections.filter(s => {
+    const def = REPORT_SECTIONS.find(d => d.key === s.sectionKey);
+    return def?.canonical && s.content.length >= MIN_SECTION_CHARS;
+  }).length;
+
+  const contacts = sections.find(s => s.sectionKey === "key_contacts");
+  const contactMatches = contacts?.content.match(/\*\*[^*]+\*\*\s*-\s*[^\n]+/g);
+
+  return { qualityScore, contactsFound: contactMatches ? contactMatches.length : 0 };
+}
+
+/** Plain-text opening of the executive summary, for library cards. */
+export function summarizeExecutiveSummary(sections: Array<{ sectionKey: string; content: string }>, maxLength = 300): string | null {
+  const summary = sections.find(s => s.sectionKey === "executive_summary");
+  if (!summary) return null;
+  const text = summary.content
+    .replace(/[#*_>`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text ? text.substring(0, maxLength) : null;
+}
+
+/**
+ * Best-effort summary for reports written before typed fields existed.
+ * Mirrors the line heuristics the library used to run on every request.
+ */
+export function inferReportSummary(markdown: string): {
+  executiveSummary: string | null;
+  recommendation: Recommendation | null;
+  recommendationRationale: string | null;
+  confidence: ReportConfidence | null;
+} {
+  const lines = markdown.split("\n");
+
+  let executiveSummary: string | null = null;
+  const summaryStart = lines.findIndex(l => l.toLowerCase().includes("executive summary"));
+  if (summaryStart !== -1) {
+    const summaryLines = lines.slice(summaryStart + 1, summaryStart + 5).filter(l => l.trim().length > 0);
+    executiveSummary = summaryLines.join(" ").substring(0, 200) || null;
+  }
+
+  let recommendationRationale: string | null = null;
+  const recStart = lines.findIndex(l =>
+    l.toLowerCase().includes("recommendation") || l.toLowerCase().includes("strategic assessment")
+  );
+  if (recStart !== -1) {
+    const recLine = lines[recStart + 1];
+    if (recLine && recLine.trim().length > 0) {
+      recommendationRationale = recLine.substring(0, 100);
+    }
+  }
+
+  let confidence: ReportConfidence | null = null;
+  const confLine = lines.find(l => l.toLowerCase().includes("confidence"));
+  if (confLine) {
+    if (confLine.toLowerCase().includes("high")) confidence = "High";
+    else if (confLine.toLowerCase().includes("medium")) confidence = "Medium";
+    else if (confLine.toLowerCase().includes("low")) confidence = "Low";
+  }
+
+  return {
+    executiveSummary,
+    recommendation: normalizeRecommendation(recommendationRationale),
+    recommendationRationale,
+    confidence,
+  };
+}
@@ -0,0 +1,50 @@
+import { jobQueue, type ConcurrencyGroupStatus } from "./job-queue";
+
+// Research is the expensive step (a dozen Claude calls per company), so every
+// research job — from any workflow, on any worker — shares one concurrency
+// limit (RESEARCH_CONCURRENCY). Queued research runs by priority: a direct
+// research request jumps ahead of a reviewer's manual approvals, which jump
+// ahead of a scheduled run's auto-approvals. Within a priority, workflows take
+// turns (see JobQueue.claimNext), so a cron run and a manual run progress side
+// by side instead of one waiting for the other to finish.
+
+export const RESEARCH_STEPS = ["research", "refresh_report"];
+
+export type ResearchPriority = "direct" | "manual" | "auto";
+
+export const RESEARCH_PRIORITIES: Record<ResearchPriority, number> = {
+  direct: 30,   // Companies named in a direct research request
+  manual: 20,   // Reviewer approvals from the queue, and report refreshes
+  auto: 10,     // Auto-approved companies from discovery runs
+};
+
+export interface ResearchSchedulerStatus extends Omit<ConcurrencyGroupStatus, "queuedByPriority"> {
+  queuedByPriority: Array<{ priority: ResearchPriority | "other"; count: number }>;
+}
+
+const priorityName = (value: number): ResearchPriority | "other" =>
+  (Object.keys(RESEARCH_PRIORITIES) as ResearchPriority[]).find(name => RESEARCH_PRIORITIES[name] === value) || "other";
+
+class ResearchScheduler {
+  readonly concurrency = parseInt(process.env.RESEARCH_CONCURRENCY || "3") || 3;
+
+  /** Register the global research limit with the job queue; call before jobQueue.start(). */
+  install() {
+    jobQueue.limitConcurrency("research", RESEARCH_STEPS, this.concurrency);
+  }
+
+  priority(kind: ResearchPriority): number {
+    return RESEARCH_PRIORITIES[kind];
+  }
+
+  async status(): Promise<ResearchSchedulerStatus | null> {
+    const status = await jobQueue.getConcurrencyGroupStatus("research");
+    if (!status) return null;
+    return {
+      ...status,
+      queuedByPriority: status.queuedByPriority.map(row => ({ priority: priorityName(row.priority), count: row.count })),
+    };
+  }
+}
+
+export const researchScheduler = new ResearchScheduler();
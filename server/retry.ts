@@ -0,0 +1,38 @@
+// Retry with exponential backoff for transient API failures (rate limits,
+// overloaded models, dropped connections) in the LLM gateway. Outbound HTTP to
+// data providers retries in http-client.ts instead.
+
+export function isRetryableError(error: any): boolean {
+  return (
+    error?.status === 429 ||
+    error?.status === 502 ||
+    error?.status === 503 ||
+    error?.status === 529 ||
+    error?.message?.includes('ECONNRESET') ||
+    error?.message?.includes('ETIMEDOUT') ||
+    error?.message?.includes('overloaded')
+  );
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  label: string,
+  maxRetries = 3,
+  baseDelayMs = 1000
+): Promise<T> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (!isRetryableError(error) || attempt === maxRetries) {
+        console.error(`[Retry] ${label} failed after ${attempt} attempt(s):`, error?.message || error);
+        throw error;
+      }
+
+      const delay = baseDelayMs * Math.pow(2, attempt - 1);
+      console.warn(`[Retry] ${label} attempt ${attempt} failed (${error?.status || error?.message}), retrying in ${delay}ms...`);
+      await new Promise(r => setTimeout(r, delay));
+    }
+  }
+  throw new Error(`${label} failed after ${maxRetries} retries`);
+}
@@ -1,11 +1,40 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage, db } from "./storage";
 import { agentOrchestrator } from "./agent-orchestrator";
 import { weeklyIntelligenceEngine } from "./weekly-intelligence-engine";
+import { criteriaGuardRules, resolveApprovalRules, validateAutoApprovalRules } from "./auto-approval";
+import { normalizeBudget, validateBudget } from "./budget";
+import { configVersions } from "./config-versions";
+import { configFromDocument, parseConfigDocument, parseDocumentFormat, serializeConfigDocument, toConfigDocument, validateConfigDocument } from "./config-documents";
+import { CONFIG_TEMPLATES, getConfigTemplate } from "./config-templates";
+import { configBuilder, validateThesis } from "./config-builder";
+import { normalizeInvestmentThesis, validateInvestmentThesis } from "./investment-thesis";
+import { BUILTIN_EXCLUDED_DOMAINS, EXCLUSION_LISTS, normalizeExclusionValue, validateExclusionEntry } from "./exclusions";
+import { staleParameters, validateAlertThreshold } from "./stale-parameters";
+import { researchScheduler } from "./research-scheduler";
+import { reloadConfigSchedule } from "./scheduler";
+import { MAX_NEXT_RUNS, previewSchedule, resolveTimezone, validateSchedule } from "./cron-schedule";
+import { clampSampleSize } from "./discovery-preview";
+import { scoringFeedback } from "./scoring-feedback";
+import { RUBRIC_CRITERIA, DEFAULT_SCORING_WEIGHTS, validateScoringWeights } from "./scoring-rubric";
+import { workflowEvents } from "./workflow-events";
+import { buildLegacySections, inferReportSummary } from "./report-sections";
+import { parseRevenueEstimate, reportEstimates } from "./financial-estimates";
+import { diffReportVersions } from "./report-diff";
+import { companyRegistry, normalizeCompanyName, normalizeDomain } from "./company-registry";
+import { costTracker } from "./cost-tracker";
+import { httpClient } from "./http-client";
+import { llm } from "./llm-gateway";
 import { eq, desc } from "drizzle-orm";
 import * as schema from "../drizzle/schema";
 
+// Who made a config change: an auth proxy's X-Author header, else the name the dashboard sends
+function requestAuthor(req: Request): string {
+  const author = req.get("x-author") || req.body?.author;
+  return typeof author === "string" && author.trim() ? author.trim().substring(0, 100) : "unknown";
+}
+
 export function registerRoutes(app: Express): Server {
   // Get all agent configurations
   app.get("/api/agent-configs", async (req, res) => {
@@ -31,11 +60,26 @@ export function registerRoutes(app: Express): Server {
       if (!searchCriteria.query || typeof searchCriteria.query !== "string") {
         return res.status(400).json({ error: "searchCriteria.query is required" });
       }
-      if (!autoApprovalRules || typeof autoApprovalRules !== "object") {
-        return res.status(400).json({ error: "autoApprovalRules is required" });
+      const rulesError = validateAutoApprovalRules(autoApprovalRules);
+      if (rulesError) {
+        return res.status(400).json({ error: rulesError });
       }
-      const config = await storage.createAgentConfig(req.body);
-      res.json(config);
+      const settingsError = validateBudget(req.body.budget) || validateScoringWeights(req.body.scoringWeights)
+        || validateAlertThreshold(req.body.alertAfterUnchangedRuns)
+        || validateSchedule(req.body.schedule, req.body.timezone)
+        || validateInvestmentThesis(req.body.investmentThesis);
+      if (settingsError) {
+        return res.status(400).json({ error: settingsError });
+      }
+      const { author: _author, changeNote, ...settings } = req.body;
+      const config = await storage.createAgentConfig({
+        ...settings,
+        budget: normalizeBudget(req.body.budget),
+        investmentThesis: normalizeInvestmentThesis(req.body.investmentThesis),
+      });
+      const version = await configVersions.record(config, requestAuthor(req), typeof changeNote === "string" && changeNote.trim() ? changeNote.trim() : "Created");
+      await reloadConfigSchedule(config.id);
+      res.json({ ...config, currentVersion: version.version });
     } catch (error) {
       console.error("Error saving config:", error);
       res.status(500).json({ error: "Failed to save config" });
@@ -46,19 +90,371 @@ export function registerRoutes(app: Express): Server {
   app.put("/api/agent-configs/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const config = await storage.updateAgentConfig(id, req.body);
-      res.json(config);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid config ID" });
+      }
+      if (req.body.autoApprovalRules !== undefined) {
+        const rulesError = validateAutoApprovalRules(req.body.autoApprovalRules);
+        if (rulesError) {
+          return res.status(400).json({ error: rulesError });
+        }
+      }
+      const { author: _author, changeNote, ...updates } = req.body;
+      if (updates.budget !== undefined) {
+        const budgetError = validateBudget(updates.budget);
+        if (budgetError) {
+          return res.status(400).json({ error: budgetError });
+        }
+        updates.budget = normalizeBudget(updates.budget);
+      }
+      if (updates.scoringWeights !== undefined) {
+        const weightsError = validateScoringWeights(updates.scoringWeights);
+        if (weightsError) {
+          return res.status(400).json({ error: weightsError });
+        }
+      }
+      if (updates.investmentThesis !== undefined) {
+        const thesisError = validateInvestmentThesis(updates.investmentThesis);
+        if (thesisError) {
+          return res.status(400).json({ error: thesisError });
+        }
+        updates.investmentThesis = normalizeInvestmentThesis(updates.investmentThesis);
+      }
+      const thresholdError = validateAlertThreshold(updates.alertAfterUnchangedRuns)
+        || validateSchedule(updates.schedule, updates.timezone);
+      if (thresholdError) {
+        return res.status(400).json({ error: thresholdError });
+      }
+      const config = await storage.updateAgentConfig(id, updates);
+      if (!config) {
+        return res.status(404).json({ error: "Config not found" });
+      }
+      const version = await configVersions.record(config, requestAuthor(req), typeof changeNote === "string" && changeNote.trim() ? changeNote.trim() : null);
+      await reloadConfigSchedule(config.id);
+      res.json({ ...config, currentVersion: version.version });
     } catch (error) {
       console.error("Error updating config:", error);
       res.status(500).json({ error: "Failed to update config" });
     }
   });
 
+  // Runs on the current version, the alert threshold and the already-known trend
+  app.get("/api/agent-configs/:id/staleness", async (req, res) => {
+    try {
+      const config = await storage.getAgentConfig(parseInt(req.params.id));
+      if (!config) {
+        return res.status(404).json({ error: "Config not found" });
+      }
+      res.json(await staleParameters.status(config));
+    } catch (error) {
+      console.error("Error fetching config staleness:", error);
+      res.status(500).json({ error: "Failed to fetch config staleness" });
+    }
+  });
+
+  // Next fire times of a saved config's schedule in its timezone
+  app.get("/api/agent-configs/:id/next-runs", async (req, res) => {
+    try {
+      const config = await storage.getAgentConfig(parseInt(req.params.id));
+      if (!config) {
+        return res.status(404).json({ error: "Config not found" });
+      }
+      if (!config.schedule) {
+        return res.status(400).json({ error: "Config has no schedule" });
+      }
+      const count = Math.min(parseInt(req.query.count as string) || 5, MAX_NEXT_RUNS);
+      res.json({ ...previewSchedule(config.schedule, resolveTimezone(config.timezone), count), active: !!config.isActive });
+    } catch (error) {
+      console.error("Error fetching next runs:", error);
+      res.status(500).json({ error: "Failed to fetch next runs" });
+    }
+  });
+
+  // Validate and describe an unsaved schedule for the schedule editor
+  app.get("/api/schedules/preview", async (req, res) => {
+    try {
+      const schedule = typeof req.query.schedule === "string" ? req.query.schedule.trim() : "";
+      const timezone = resolveTimezone(typeof req.query.timezone === "string" ? req.query.timezone : null);
+      const count = Math.min(parseInt(req.query.count as string) || 5, MAX_NEXT_RUNS);
+      if (!schedule) {
+        return res.status(400).json({ error: "schedule is required" });
+      }
+      const error = validateSchedule(schedule, req.query.timezone || undefined);
+      if (error) {
+        return res.json({ valid: false, error, schedule, timezone, description: null, nextRuns: [] });
+      }
+      res.json({ valid: true, ...previewSchedule(schedule, timezone, count) });
+    } catch (error) {
+      console.error("Error previewing schedule:", error);
+      res.status(500).json({ error: "Failed to preview schedule" });
+    }
+  });
+
+  // Every saved version of a config, newest first, each with its changes from the one before
+  app.get("/api/agent-configs/:id/versions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid config ID" });
+      }
+      res.json(await configVersions.history(id));
+    } catch (error) {
+      console.error("Error fetching config versions:", error);
+      res.status(500).json({ error: "Failed to fetch config versions" });
+    }
+  });
+
+  app.get("/api/config-versions/:versionId", async (req, res) => {
+    try {
+      const version = await storage.getConfigVersion(parseInt(req.params.versionId));
+      if (!version) {
+        return res.status(404).json({ error: "Config version not found" });
+      }
+      res.json(version);
+    } catch (error) {
+      console.error("Error fetching config version:", error);
+      res.status(500).json({ error: "Failed to fetch config version" });
+    }
+  });
+
+  // Restore an earlier version's settings (recorded as a new version)
+  app.post("/api/agent-configs/:id/versions/:versionId/revert", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(id) || isNaN(versionId)) {
+        return res.status(400).json({ error: "Invalid config or version ID" });
+      }
+      const config = await configVersions.revert(id, versionId, requestAuthor(req));
+      if (!config) {
+        return res.status(404).json({ error: "Config version not found" });
+      }
+      await reloadConfigSchedule(config.id);
+      res.json(config);
+    } catch (error) {
+      console.error("Error reverting config:", error);
+      res.status(500).json({ error: "Failed to revert config" });
+    }
+  });
+
+  // Download a saved config as a JSON or YAML document (?format=json|yaml)
+  app.get("/api/agent-configs/:id/export", async (req, res) => {
+    try {
+      const config = await storage.getAgentConfig(parseInt(req.params.id));
+      if (!config) {
+        return res.status(404).json({ error: "Config not found" });
+      }
+      const format = parseDocumentFormat(req.query.format);
+      const filename = `${config.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "config"}.${format}`;
+      res.setHeader("Content-Type", format === "yaml" ? "application/yaml" : "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(serializeConfigDocument(toConfigDocument(config), format));
+    } catch (error) {
+      console.error("Error exporting config:", error);
+      res.status(500).json({ error: "Failed to export config" });
+    }
+  });
+
+  // Create a config from an exported JSON or YAML document ({ content, name? })
+  app.post("/api/agent-configs/import", async (req, res) => {
+    try {
+      const { content, name } = req.body || {};
+      if (!content || typeof content !== "string") {
+        return res.status(400).json({ error: "content is required" });
+      }
+      let document: any;
+      try {
+        document = parseConfigDocument(content);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (typeof name === "string" && name.trim() && document && typeof document === "object") {
+        document.name = name.trim();
+      }
+      const documentError = validateConfigDocument(document);
+      if (documentError) {
+        return res.status(400).json({ error: documentError });
+      }
+      const config = await storage.createAgentConfig(configFromDocument(document));
+      const version = await configVersions.record(config, requestAuthor(req), "Imported");
+      await reloadConfigSchedule(config.id);
+      console.log(`[Config] Imported "${config.name}" as config ${config.id}`);
+      res.json({ ...config, currentVersion: version.version });
+    } catch (error) {
+      console.error("Error importing config:", error);
+      res.status(500).json({ error: "Failed to import config" });
+    }
+  });
+
+  // Draft search criteria and approval rules from a plain-English thesis; nothing is saved
+  app.post("/api/agent-configs/draft", async (req, res) => {
+    try {
+      const { thesis } = req.body || {};
+      const thesisError = validateThesis(thesis);
+      if (thesisError) {
+        return res.status(400).json({ error: thesisError });
+      }
+      res.json(await configBuilder.draft(thesis));
+    } catch (error: any) {
+      console.error("Error drafting config:", error);
+      res.status(500).json({ error: error.message || "Failed to draft config" });
+    }
+  });
+
+  // Built-in starter configs
+  app.get("/api/config-templates", async (_req, res) => {
+    res.json(CONFIG_TEMPLATES);
+  });
+
+  app.get("/api/config-templates/:templateId/export", async (req, res) => {
+    const entry = getConfigTemplate(req.params.templateId);
+    if (!entry) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+    const format = parseDocumentFormat(req.query.format);
+    res.setHeader("Content-Type", format === "yaml" ? "application/yaml" : "application/json");
+    res.setHeader("Content-Disposition", `attachment; filename="${entry.id}.${format}"`);
+    res.send(serializeConfigDocument(entry.document, format));
+  });
+
+  // Save a template as a new (inactive) config to customize ({ name? })
+  app.post("/api/config-templates/:templateId/clone", async (req, res) => {
+    try {
+      const entry = getConfigTemplate(req.params.templateId);
+      if (!entry) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      const name = typeof req.body?.name === "string" && req.body.name.trim() ? req.body.name : undefined;
+      const config = await storage.createAgentConfig(configFromDocument(entry.document, name));
+      const version = await configVersions.record(config, requestAuthor(req), `Cloned from template "${entry.title}"`);
+      res.json({ ...config, currentVersion: version.version });
+    } catch (error) {
+      console.error("Error cloning config template:", error);
+      res.status(500).json({ error: "Failed to clone config template" });
+    }
+  });
+
+  // Exclusion lists: global entries, plus the config's own when ?configId= is given
+  app.get("/api/exclusions", async (req, res) => {
+    try {
+      const configId = req.query.configId ? parseInt(req.query.configId as string) : null;
+      if (configId !== null && isNaN(configId)) {
+        return res.status(400).json({ error: "Invalid config ID" });
+      }
+      const entries = await storage.getExclusionEntries(configId);
+      res.json({ entries, lists: EXCLUSION_LISTS, builtinDomains: BUILTIN_EXCLUDED_DOMAINS });
+    } catch (error) {
+      console.error("Error fetching exclusions:", error);
+      res.status(500).json({ error: "Failed to fetch exclusions" });
+    }
+  });
+
+  // Add entries to one list ({ configId?, list, values: [...] | value, note? }); no configId means global
+  app.post("/api/exclusions", async (req, res) => {
+    try {
+      const { configId, list, value, values, note } = req.body || {};
+      if (configId !== undefined && configId !== null) {
+        if (!Number.isInteger(configId)) {
+          return res.status(400).json({ error: "Invalid config ID" });
+        }
+        if (!(await storage.getAgentConfig(configId))) {
+          return res.status(404).json({ error: "Config not found" });
+        }
+      }
+      const rawValues: any[] = Array.isArray(values) ? values : [value];
+      const entries = [];
+      for (const raw of rawValues) {
+        const error = validateExclusionEntry({ list, value: raw });
+        if (error) {
+          return res.status(400).json({ error });
+        }
+        entries.push({
+          configId: configId ?? null,
+          list,
+          value: normalizeExclusionValue(list, raw),
+          note: typeof note === "string" && note.trim() ? note.trim() : null,
+          createdBy: requestAuthor(req),
+        });
+      }
+      const created = await storage.createExclusionEntries(entries);
+      console.log(`[Exclusions] Added ${created.length} ${list} entr${created.length === 1 ? "y" : "ies"} (${configId ? `config ${configId}` : "global"})`);
+      res.json(created);
+    } catch (error) {
+      console.error("Error adding exclusions:", error);
+      res.status(500).json({ error: "Failed to add exclusions" });
+    }
+  });
+
+  app.delete("/api/exclusions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid exclusion ID" });
+      }
+      const entry = await storage.deleteExclusionEntry(id);
+      if (!entry) {
+        return res.status(404).json({ error: "Exclusion not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting exclusion:", error);
+      res.status(500).json({ error: "Failed to delete exclusion" });
+    }
+  });
+
+  // Dry run of a (possibly unsaved) config over a small sample; writes nothing to the queue or library
+  app.post("/api/agent-configs/preview", async (req, res) => {
+    try {
+      const { searchCriteria, autoApprovalRules, scoringWeights, investmentThesis, budget, configId } = req.body || {};
+      if (!searchCriteria || typeof searchCriteria !== "object") {
+        return res.status(400).json({ error: "searchCriteria is required" });
+      }
+      if (!searchCriteria.query || typeof searchCriteria.query !== "string") {
+        return res.status(400).json({ error: "searchCriteria.query is required" });
+      }
+      const rulesError = validateAutoApprovalRules(autoApprovalRules) || validateScoringWeights(scoringWeights)
+        || validateInvestmentThesis(investmentThesis) || validateBudget(budget);
+      if (rulesError) {
+        return res.status(400).json({ error: rulesError });
+      }
+      const preview = await agentOrchestrator.previewDiscovery(
+        { searchCriteria, autoApprovalRules, scoringWeights, investmentThesis, budget, configId: typeof configId === "number" ? configId : null },
+        clampSampleSize(req.body.sampleSize)
+      );
+      res.json(preview);
+    } catch (error: any) {
+      console.error("Error previewing config:", error);
+      res.status(500).json({ error: error?.message || "Failed to preview config" });
+    }
+  });
+
+  // Rubric criteria and default weights (used by the weight editor)
+  app.get("/api/scoring/rubric", async (_req, res) => {
+    res.json({ criteria: RUBRIC_CRITERIA, defaultWeights: DEFAULT_SCORING_WEIGHTS });
+  });
+
+  // Expand legacy approval settings into the equivalent ordered rule list (used by the rule editor).
+  // The search criteria's PE guards come back separately: they always run first and aren't editable rules.
+  app.post("/api/auto-approval/default-rules", async (req, res) => {
+    try {
+      const { autoApprovalRules, searchCriteria } = req.body || {};
+      const criteria = { strategy: searchCriteria?.strategy, peFilter: searchCriteria?.peFilter };
+      const guards = criteriaGuardRules(criteria);
+      const rules = resolveApprovalRules({ ...(autoApprovalRules || {}), rules: undefined }, criteria)
+        .slice(guards.length);
+      res.json({ rules, guards });
+    } catch (error) {
+      console.error("Error building default rules:", error);
+      res.status(500).json({ error: "Failed to build default rules" });
+    }
+  });
+
   // Delete agent configuration
   app.delete("/api/agent-configs/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteAgentConfig(id);
+      await reloadConfigSchedule(id);
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting config:", error);
@@ -75,16 +471,10 @@ export function registerRoutes(app: Express): Server {
       }
       console.log(`[API] Starting discovery workflow for config ${configId}`);
       
-      // Run workflow asynchronously
-      agentOrchestrator.runDiscoveryWorkflow(configId)
-        .then(workflowId => {
-          console.log(`[API] Discovery workflow ${workflowId} completed`);
-        })
-        .catch(error => {
-          console.error(`[API] Discovery workflow ${configId} failed:`, error);
-        });
+      // Steps run on the job queue; this returns as soon as the workflow is queued
+      const workflowId = await agentOrchestrator.runDiscoveryWorkflow(configId, "manual");
       
-      res.json({ message: "Discovery workflow started" });
+      res.json({ message: "Discovery workflow started", workflowId });
     } catch (error) {
       console.error("Error running discovery:", error);
       res.status(500).json({ error: "Failed to run discovery" });
@@ -117,6 +507,75 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Live progress stream (Server-Sent Events). Replays recent events, then pushes new ones.
+  app.get("/api/workflows/:id/events", async (req, res) => {
+    const workflowId = parseInt(req.params.id);
+    if (isNaN(workflowId)) {
+      return res.status(400).json({ error: "Invalid workflow ID" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const send = (event: { id: number; type: string }) => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // EventSource sends Last-Event-ID on reconnect — skip what the client already has
+    const lastEventId = parseInt((req.headers["last-event-id"] as string) || "0") || 0;
+    for (const event of workflowEvents.getRecent(workflowId)) {
+      if (event.id > lastEventId) send(event);
+    }
+
+    const unsubscribe = workflowEvents.subscribe(workflowId, send);
+    // Comment line keeps proxies (Railway) from closing an idle connection
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+
+    req.on("close", () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  });
+
+  // Cancel, pause or resume a workflow. Scoring and research check between companies,
+  // so a company already in progress finishes before the workflow stops.
+  const workflowControl = (
+    action: "cancel" | "pause" | "resume",
+    allowedFrom: string[],
+    run: (id: number) => Promise<void>
+  ) => async (req: Request<{ id: string }>, res: Response) => {
+    try {
+      const workflowId = parseInt(req.params.id);
+      if (isNaN(workflowId)) {
+        return res.status(400).json({ error: "Invalid workflow ID" });
+      }
+
+      const workflow = await storage.getWorkflow(workflowId);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!allowedFrom.includes(workflow.status)) {
+        return res.status(409).json({ error: `Cannot ${action} a workflow that is ${workflow.status}` });
+      }
+
+      console.log(`[API] ${action} workflow ${workflowId}`);
+      await run(workflowId);
+
+      res.json(await storage.getWorkflow(workflowId));
+    } catch (error) {
+      console.error(`Error updating workflow (${action}):`, error);
+      res.status(500).json({ error: `Failed to ${action} workflow` });
+    }
+  };
+
+  app.post("/api/workflows/:id/cancel", workflowControl("cancel", ["running", "paused"], (id) => agentOrchestrator.cancelWorkflow(id)));
+  app.post("/api/workflows/:id/pause", workflowControl("pause", ["running"], (id) => agentOrchestrator.pauseWorkflow(id)));
+  app.post("/api/workflows/:id/resume", workflowControl("resume", ["paused"], (id) => agentOrchestrator.resumeWorkflow(id)));
+
   // Get companies in discovery queue (pending approval)
   app.get("/api/discovery-queue/pending", async (req, res) => {
     try {
@@ -139,16 +598,12 @@ export function registerRoutes(app: Express): Server {
         approvalStatus: "auto_approved",
         autoApprovalReason: "Manually approved",
         approvedAt: new Date(),
+        reviewDecision: "approved",
+        reviewedAt: new Date(),
       });
       
-      // Trigger research asynchronously
-      agentOrchestrator.researchCompanyById(id)
-        .then(() => {
-          console.log(`[API] Research completed for company ${id}`);
-        })
-        .catch(error => {
-          console.error(`[API] Research failed for company ${id}:`, error);
-        });
+      // Queue research
+      await agentOrchestrator.enqueueResearch(id);
       
       res.json({ message: "Company approved, research started" });
     } catch (error) {
@@ -157,12 +612,40 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Auto-approved companies no reviewer has judged yet; rejecting one marks it a false positive
+  app.get("/api/discovery-queue/auto-approved", async (_req, res) => {
+    try {
+      const items = await storage.getUnreviewedAutoApprovals();
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching auto-approvals:", error);
+      res.status(500).json({ error: "Failed to fetch auto-approvals" });
+    }
+  });
+
+  // How well agent scores predicted reviewer decisions (?configId= for one config)
+  app.get("/api/scoring/calibration", async (req, res) => {
+    try {
+      const configId = req.query.configId ? parseInt(req.query.configId as string) : null;
+      if (configId !== null && isNaN(configId)) {
+        return res.status(400).json({ error: "Invalid config ID" });
+      }
+      const stats = await scoringFeedback.calibration(configId);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error computing scoring calibration:", error);
+      res.status(500).json({ error: "Failed to compute scoring calibration" });
+    }
+  });
+
   // Reject company
   app.post("/api/discovery-queue/:id/reject", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.updateDiscoveryQueueItem(id, {
         approvalStatus: "rejected",
+        reviewDecision: "rejected",
+        reviewedAt: new Date(),
       });
       res.json({ message: "Company rejected" });
     } catch (error) {
@@ -176,54 +659,27 @@ export function registerRoutes(app: Express): Server {
     try {
       const reports = await storage.getReports({ status: "completed" });
       
-      // Parse report snippets for display
+      // Typed summary fields are stored at research time; older reports fall back to text heuristics
       const reportsWithSnippets = reports.map((report: any) => {
-        let executiveSummary = "";
-        let recommendation = "";
-        let confidence = "";
-        
-        if (report.report) {
-          const lines = report.report.split('\n');
-          
-          // Extract executive summary (first few paragraphs)
-          const summaryStart = lines.findIndex((l: string) => 
-            l.toLowerCase().includes('executive summary')
-          );
-          if (summaryStart !== -1) {
-            const summaryLines = lines.slice(summaryStart + 1, summaryStart + 5)
-              .filter((l: string) => l.trim().length > 0);
-            executiveSummary = summaryLines.join(' ').substring(0, 200);
-          }
-          
-          // Extract recommendation
-          const recStart = lines.findIndex((l: string) => 
-            l.toLowerCase().includes('recommendation') || 
-            l.toLowerCase().includes('strategic assessment')
-          );
-          if (recStart !== -1) {
-            const recLine = lines[recStart + 1];
-            if (recLine && recLine.length > 0) {
-              recommendation = recLine.substring(0, 100);
-            }
-          }
-          
-          // Extract confidence
-          const confStart = lines.findIndex((l: string) => 
-            l.toLowerCase().includes('confidence')
-          );
-          if (confStart !== -1) {
-            const confLine = lines[confStart];
-            if (confLine.toLowerCase().includes('high')) confidence = 'High';
-            else if (confLine.toLowerCase().includes('medium')) confidence = 'Medium';
-            else if (confLine.toLowerCase().includes('low')) confidence = 'Low';
-          }
+        if (!report.revenueEstimate) {
+          // Reports written before numeric estimates: parse the stored text so filters and sorting still see them
+          const estimates = reportEstimates(report.keyFigures, report.confidence, null);
+          report = {
+            ...report,
+            revenueEstimate: estimates.revenueEstimate ?? parseRevenueEstimate(report.revenueRange, { source: "claude" }),
+            employeeEstimate: report.employeeEstimate ?? estimates.employeeEstimate,
+          };
+        }
+        if (report.recommendation || report.confidence || report.executiveSummary || !report.report) {
+          return report;
         }
-        
+        const inferred = inferReportSummary(report.report);
         return {
           ...report,
-          executiveSummary,
-          recommendation,
-          confidence,
+          executiveSummary: inferred.executiveSummary,
+          recommendation: inferred.recommendation,
+          recommendationRationale: inferred.recommendationRationale,
+          confidence: inferred.confidence,
         };
       });
       
@@ -243,14 +699,118 @@ export function registerRoutes(app: Express): Server {
       if (!report) {
         return res.status(404).json({ error: "Report not found" });
       }
+
+      let sections = await storage.getReportSections(id);
+      // Reports written before sections existed are split on first view
+      if (sections.length === 0 && report.report) {
+        sections = await storage.saveReportSections(id, buildLegacySections(report.report));
+      }
       
-      res.json(report);
+      res.json({ ...report, sections });
     } catch (error) {
       console.error("Error fetching report:", error);
       res.status(500).json({ error: "Failed to fetch report" });
     }
   });
 
+  // Re-run the research pipeline for a report; the current version is kept in history
+  app.post("/api/reports/:id/refresh", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // Defaults to the strategy the report was researched for
+      const { strategy } = req.body || {};
+      if (strategy !== undefined && !["buy-side", "sell-side", "dual"].includes(strategy)) {
+        return res.status(400).json({ error: "strategy must be buy-side, sell-side or dual" });
+      }
+      const report = await storage.getReportById(id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      if (report.refreshStatus === "queued" || report.refreshStatus === "running") {
+        return res.status(409).json({ error: "Report is already being refreshed" });
+      }
+
+      await agentOrchestrator.enqueueReportRefresh(id, strategy);
+      res.json({ message: "Refresh queued", reportId: id, currentVersion: report.version });
+    } catch (error) {
+      console.error("Error queueing report refresh:", error);
+      res.status(500).json({ error: "Failed to queue report refresh" });
+    }
+  });
+
+  // Version list for a report, newest first (the live report is the current version)
+  app.get("/api/reports/:id/versions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const report = await storage.getReportById(id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+
+      const summarize = (v: any, current: boolean) => ({
+        version: v.version,
+        current,
+        createdAt: current ? (report.refreshedAt || report.createdAt) : v.createdAt,
+        recommendation: v.recommendation,
+        confidence: v.confidence,
+        qualityScore: v.qualityScore,
+        contactsFound: v.contactsFound,
+      });
+      const archived = await storage.getReportVersions(id);
+      res.json([summarize(report, true), ...archived.map(v => summarize(v, false))]);
+    } catch (error) {
+      console.error("Error fetching report versions:", error);
+      res.status(500).json({ error: "Failed to fetch report versions" });
+    }
+  });
+
+  // Load a version as a diffable snapshot — archived row, or the live report for its current version
+  async function loadReportVersion(reportId: number, version: number | null) {
+    const report = await storage.getReportById(reportId);
+    if (!report) return null;
+    if (version === null || version === report.version) {
+      let sections: any[] = await storage.getReportSections(reportId);
+      if (sections.length === 0 && report.report) sections = buildLegacySections(report.report);
+      return { ...report, createdAt: report.refreshedAt || report.createdAt, sections };
+    }
+    const archived = await storage.getReportVersion(reportId, version);
+    return archived ? { ...archived, sections: archived.sections as any[] } : null;
+  }
+
+  app.get("/api/reports/:id/versions/:version", async (req, res) => {
+    try {
+      const snapshot = await loadReportVersion(parseInt(req.params.id), parseInt(req.params.version));
+      if (!snapshot) {
+        return res.status(404).json({ error: "Report version not found" });
+      }
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Error fetching report version:", error);
+      res.status(500).json({ error: "Failed to fetch report version" });
+    }
+  });
+
+  // Section-by-section diff: ?from=N&to=M (to defaults to the current version)
+  app.get("/api/reports/:id/diff", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const from = parseInt(String(req.query.from));
+      const to = req.query.to ? parseInt(String(req.query.to)) : null;
+      if (isNaN(from) || (to !== null && isNaN(to))) {
+        return res.status(400).json({ error: "from (and optional to) must be version numbers" });
+      }
+
+      const [before, after] = await Promise.all([loadReportVersion(id, from), loadReportVersion(id, to)]);
+      if (!before || !after) {
+        return res.status(404).json({ error: "Report version not found" });
+      }
+      res.json(diffReportVersions(before, after));
+    } catch (error) {
+      console.error("Error diffing report versions:", error);
+      res.status(500).json({ error: "Failed to diff report versions" });
+    }
+  });
+
   // Update report company name
   app.put("/api/reports/:id/name", async (req, res) => {
     try {
@@ -502,17 +1062,15 @@ export function registerRoutes(app: Express): Server {
           approvalStatus: "auto_approved",
           autoApprovalReason: "Bulk approved manually",
           approvedAt: new Date(),
+          reviewDecision: "approved",
+          reviewedAt: new Date(),
         });
       }
 
-      // Trigger research asynchronously for each
-      Promise.allSettled(
-        ids.map((id: number) => agentOrchestrator.researchCompanyById(id))
-      ).then(results => {
-        const succeeded = results.filter(r => r.status === "fulfilled").length;
-        const failed = results.filter(r => r.status === "rejected").length;
-        console.log(`[API] Bulk research complete: ${succeeded} succeeded, ${failed} failed`);
-      });
+      // Queue research for each
+      for (const id of ids) {
+        await agentOrchestrator.enqueueResearch(id);
+      }
 
       res.json({ message: `${ids.length} companies approved, research started` });
     } catch (error) {
@@ -533,6 +1091,8 @@ export function registerRoutes(app: Express): Server {
       for (const id of ids) {
         await storage.updateDiscoveryQueueItem(id, {
           approvalStatus: "rejected",
+          reviewDecision: "rejected",
+          reviewedAt: new Date(),
         });
       }
 
@@ -567,15 +1127,9 @@ export function registerRoutes(app: Express): Server {
 
       console.log(`[API] Starting direct research for ${cleanCompanies.length} companies (strategy: ${validStrategy})`);
 
-      agentOrchestrator.runDirectResearch(cleanCompanies, validStrategy)
-        .then(workflowId => {
-          console.log(`[API] Direct research workflow ${workflowId} completed`);
-        })
-        .catch(error => {
-          console.error(`[API] Direct research failed:`, error);
-        });
+      const workflowId = await agentOrchestrator.runDirectResearch(cleanCompanies, validStrategy);
 
-      res.json({ message: "Research started", workflowId: null });
+      res.json({ message: "Research started", workflowId });
     } catch (error) {
       console.error("Error starting direct research:", error);
       res.status(500).json({ error: "Failed to start direct research" });
@@ -597,6 +1151,94 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // ══════════════════════════════════════════════════════════
+  // Company registry endpoints
+  // ══════════════════════════════════════════════════════════
+
+  app.get("/api/companies", async (req, res) => {
+    try {
+      const search = typeof req.query.search === "string" ? req.query.search.trim() : "";
+      res.json(await storage.listCompanies(search || undefined));
+    } catch (error) {
+      console.error("Error fetching companies:", error);
+      res.status(500).json({ error: "Failed to fetch companies" });
+    }
+  });
+
+  // Resolve a name/URL to its canonical company without creating one
+  app.get("/api/companies/match", async (req, res) => {
+    try {
+      const name = typeof req.query.name === "string" ? req.query.name : "";
+      const websiteUrl = typeof req.query.websiteUrl === "string" ? req.query.websiteUrl : undefined;
+      if (!name && !websiteUrl) {
+        return res.status(400).json({ error: "name or websiteUrl is required" });
+      }
+      const company = await companyRegistry.find({ name, websiteUrl });
+      res.json({ company, normalizedName: normalizeCompanyName(name), domain: normalizeDomain(websiteUrl) });
+    } catch (error) {
+      console.error("Error matching company:", error);
+      res.status(500).json({ error: "Failed to match company" });
+    }
+  });
+
+  // One company across agents: queue entries, reports, target contacts and outreach
+  app.get("/api/companies/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const company = await storage.getCompany(id);
+      if (!company) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      const [aliases, timeline] = await Promise.all([
+        storage.getCompanyAliases(id),
+        storage.getCompanyTimeline(id),
+      ]);
+      res.json({ ...company, aliases, ...timeline });
+    } catch (error) {
+      console.error("Error fetching company:", error);
+      res.status(500).json({ error: "Failed to fetch company" });
+    }
+  });
+
+  app.post("/api/companies/:id/aliases", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { alias } = req.body;
+      if (!alias || typeof alias !== "string" || !normalizeCompanyName(alias)) {
+        return res.status(400).json({ error: "alias is required" });
+      }
+      if (!(await storage.getCompany(id))) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      await storage.addCompanyAlias(id, alias.trim(), normalizeCompanyName(alias), "manual");
+      res.json(await storage.getCompanyAliases(id));
+    } catch (error) {
+      console.error("Error adding company alias:", error);
+      res.status(500).json({ error: "Failed to add company alias" });
+    }
+  });
+
+  // Fold a duplicate the fuzzy matcher missed into the canonical company
+  app.post("/api/companies/:id/merge", async (req, res) => {
+    try {
+      const intoId = parseInt(req.params.id);
+      const fromId = parseInt(req.body?.fromId);
+      if (isNaN(fromId) || fromId === intoId) {
+        return res.status(400).json({ error: "fromId must be a different company id" });
+      }
+      const [into, from] = await Promise.all([storage.getCompany(intoId), storage.getCompany(fromId)]);
+      if (!into || !from) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+      await storage.mergeCompanies(fromId, intoId);
+      console.log(`[API] Merged company ${fromId} (${from.name}) into ${intoId} (${into.name})`);
+      res.json(await storage.getCompany(intoId));
+    } catch (error) {
+      console.error("Error merging companies:", error);
+      res.status(500).json({ error: "Failed to merge companies" });
+    }
+  });
+
   // ══════════════════════════════════════════════════════════
   // Weekly Intelligence endpoints
   // ══════════════════════════════════════════════════════════
@@ -783,6 +1425,82 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // API cost breakdowns (see server/cost-tracker.ts)
+  const usageBreakdown = (key: "workflowId" | "reportId" | "weeklyTrendId", label: string) =>
+    async (req: Request<{ id: string }>, res: Response) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ error: `Invalid ${label} id` });
+        }
+        res.json({ [key]: id, ...(await storage.getUsageBreakdown({ [key]: id })) });
+      } catch (error) {
+        console.error(`Error fetching ${label} costs:`, error);
+        res.status(500).json({ error: `Failed to fetch ${label} costs` });
+      }
+    };
+
+  app.get("/api/costs/workflows/:id", usageBreakdown("workflowId", "workflow"));
+  app.get("/api/costs/reports/:id", usageBreakdown("reportId", "report"));
+  app.get("/api/costs/weekly-scans/:id", usageBreakdown("weeklyTrendId", "weekly scan"));
+
+  app.get("/api/costs/monthly", async (req, res) => {
+    try {
+      const months = Math.min(24, Math.max(1, parseInt(String(req.query.months || "6")) || 6));
+      res.json(await storage.getMonthlyUsage(months));
+    } catch (error) {
+      console.error("Error fetching monthly costs:", error);
+      res.status(500).json({ error: "Failed to fetch monthly costs" });
+    }
+  });
+
+  app.get("/api/costs/prices", async (_req, res) => {
+    res.json(costTracker.prices);
+  });
+
+  // Global research slots: running jobs per workflow and the queue by priority
+  app.get("/api/research/scheduler", async (_req, res) => {
+    try {
+      res.json(await researchScheduler.status());
+    } catch (error) {
+      console.error("Error fetching research scheduler status:", error);
+      res.status(500).json({ error: "Failed to fetch research scheduler status" });
+    }
+  });
+
+  // Operator alerts (budget caps, ...); unacknowledged only unless ?all=1
+  app.get("/api/alerts", async (req, res) => {
+    try {
+      const alerts = await storage.getAlerts(req.query.all === "1");
+      res.json(alerts);
+    } catch (error) {
+      console.error("Error fetching alerts:", error);
+      res.status(500).json({ error: "Failed to fetch alerts" });
+    }
+  });
+
+  app.post("/api/alerts/:id/acknowledge", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid alert ID" });
+      }
+      const alert = await storage.acknowledgeAlert(id);
+      if (!alert) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      res.json(alert);
+    } catch (error) {
+      console.error("Error acknowledging alert:", error);
+      res.status(500).json({ error: "Failed to acknowledge alert" });
+    }
+  });
+
+  // Effective LLM backend and per-step model settings (defaults merged with LLM_STEP_CONFIG)
+  app.get("/api/llm/config", async (_req, res) => {
+    res.json(llm.describe());
+  });
+
   // Health check - validates DB connectivity
   app.get("/api/health", async (req, res) => {
     // Check DB connectivity
@@ -793,13 +1511,22 @@ export function registerRoutes(app: Express): Server {
       database = "UNREACHABLE";
     }
 
+    // An unavailable data provider degrades runs but doesn't take the app down
+    const providers = httpClient.health();
+    const providersDown = providers.some(provider => provider.state !== "closed");
+
     res.status(database === "UNREACHABLE" ? 503 : 200).json({
-      status: database === "UNREACHABLE" ? "degraded" : "ok",
+      status: database === "UNREACHABLE" || providersDown ? "degraded" : "ok",
       timestamp: new Date().toISOString(),
       database,
+      providers,
     });
   });
 
+  app.get("/api/providers/health", async (_req, res) => {
+    res.json(httpClient.health());
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -4,73 +4,102 @@ import cron from 'node-cron';
 import { agentOrchestrator } from './agent-orchestrator';
 import { weeklyIntelligenceEngine } from './weekly-intelligence-engine';
 import { storage } from './storage';
+import { jobQueue } from './job-queue';
+import { researchScheduler } from './research-scheduler';
+import { companyRegistry } from './company-registry';
+import { DEFAULT_TIMEZONE, resolveTimezone, validateSchedule } from './cron-schedule';
 
-const activeTasks: ReturnType<typeof cron.schedule>[] = [];
+// One cron task per saved config, replaced whenever the config is saved
+const configTasks = new Map<number, ReturnType<typeof cron.schedule>>();
+let weeklyIntelligenceTask: ReturnType<typeof cron.schedule> | null = null;
 
 /**
- * Mark any workflows left in "running" status as "failed".
- * This happens on server startup — if the server restarted (e.g. Railway deploy),
- * those workflows will never complete.
+ * Resume workflows interrupted by a restart (e.g. Railway deploy). Their step
+ * jobs go back in the queue with checkpoints intact. Workflows left "running"
+ * with no jobs outstanding can never finish, so those are marked failed.
  */
-async function cleanupOrphanedWorkflows() {
+async function recoverInterruptedWorkflows() {
   try {
+    await jobQueue.recoverJobsFromPreviousRun();
+
     const running = await storage.getRunningWorkflows();
     if (running.length === 0) {
-      console.log('[Scheduler] No orphaned workflows found');
+      console.log('[Scheduler] No interrupted workflows found');
       return;
     }
-    console.log(`[Scheduler] Cleaning up ${running.length} orphaned workflow(s)...`);
+
     for (const wf of running) {
+      const outstanding = await jobQueue.countOutstandingJobs(wf.id);
+      if (outstanding > 0) {
+        console.log(`[Scheduler] Workflow ${wf.id} will resume at "${wf.currentStep || 'unknown'}" (${outstanding} job(s) queued)`);
+        continue;
+      }
       await storage.updateWorkflow(wf.id, {
         status: 'failed',
         completedAt: new Date(),
       });
-      console.log(`[Scheduler] Workflow ${wf.id} marked as failed (orphaned)`);
+      console.log(`[Scheduler] Workflow ${wf.id} marked as failed (orphaned, no queued jobs)`);
     }
   } catch (error) {
-    console.error('[Scheduler] Error cleaning up orphaned workflows:', error);
+    console.error('[Scheduler] Error recovering interrupted workflows:', error);
   }
 }
 
 /**
- * Set up a cron job for each active agent config that has a schedule.
+ * (Re)schedule one config's cron job from its saved settings. Called at
+ * startup and whenever a config is created, edited, reverted or deleted, so
+ * schedule and timezone changes apply without a restart. Returns whether a
+ * job is now scheduled.
  */
-async function setupCronJobs() {
-  // Stop any previously scheduled tasks
-  for (const task of activeTasks) {
-    task.stop();
+export async function reloadConfigSchedule(configId: number): Promise<boolean> {
+  const existing = configTasks.get(configId);
+  if (existing) {
+    existing.stop();
+    configTasks.delete(configId);
   }
-  activeTasks.length = 0;
 
-  const configs = await storage.getActiveAgentConfigs();
-  let scheduled = 0;
+  const config = await storage.getAgentConfig(configId);
+  if (!config || !config.isActive || !config.schedule) {
+    if (existing) console.log(`[Scheduler] Unscheduled config ${configId}`);
+    return false;
+  }
 
-  for (const config of configs) {
-    if (!config.schedule) continue;
+  const timezone = resolveTimezone(config.timezone);
+  const error = validateSchedule(config.schedule, timezone);
+  if (error) {
+    console.warn(`[Scheduler] ${error} for config "${config.name}" — skipping`);
+    return false;
+  }
 
-    if (!cron.validate(config.schedule)) {
-      console.warn(`[Scheduler] Invalid cron expression "${config.schedule}" for config "${config.name}" — skipping`);
-      continue;
+  const task = cron.schedule(config.schedule, async () => {
+    console.log(`[Scheduler] Cron triggered for config "${config.name}" (id=${config.id})`);
+    try {
+      const workflowId = await agentOrchestrator.runDiscoveryWorkflow(config.id);
+      console.log(`[Scheduler] Workflow ${workflowId} queued for "${config.name}"`);
+    } catch (error) {
+      console.error(`[Scheduler] Workflow failed for "${config.name}":`, error);
+      await sendErrorNotification({
+        configName: config.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date(),
+      });
     }
+  }, { timezone });
 
-    const task = cron.schedule(config.schedule, async () => {
-      console.log(`[Scheduler] Cron triggered for config "${config.name}" (id=${config.id})`);
-      try {
-        const workflowId = await agentOrchestrator.runDiscoveryWorkflow(config.id);
-        console.log(`[Scheduler] Workflow ${workflowId} started for "${config.name}"`);
-      } catch (error) {
-        console.error(`[Scheduler] Workflow failed for "${config.name}":`, error);
-        await sendErrorNotification({
-          configName: config.name,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          timestamp: new Date(),
-        });
-      }
-    });
+  configTasks.set(configId, task);
+  console.log(`[Scheduler] Scheduled "${config.name}" — cron: ${config.schedule} (${timezone})`);
+  return true;
+}
 
-    activeTasks.push(task);
-    scheduled++;
-    console.log(`[Scheduler] Scheduled "${config.name}" — cron: ${config.schedule}`);
+/**
+ * Set up a cron job for each active agent config that has a schedule.
+ */
+async function setupCronJobs() {
+  const configs = await storage.getActiveAgentConfigs();
+  let scheduled = 0;
+
+  for (const config of configs) {
+    if (await reloadConfigSchedule(config.id)) scheduled++;
   }
 
   if (scheduled === 0) {
@@ -85,11 +114,25 @@ async function setupCronJobs() {
  */
 export async function startScheduler() {
   console.log('[Scheduler] Initializing...');
-  await cleanupOrphanedWorkflows();
+  agentOrchestrator.registerJobHandlers();
+  researchScheduler.install();
+  await recoverInterruptedWorkflows();
+  jobQueue.start();
   await setupCronJobs();
 
+  // Link rows written before the company registry existed (doesn't block startup)
+  companyRegistry.backfill().catch(error =>
+    console.error('[Scheduler] Company registry backfill failed:', error?.message || error)
+  );
+
+  // Derive agent/reviewer decisions for queue rows from before they were recorded (scoring feedback)
+  storage.backfillReviewDecisions()
+    .then(count => count > 0 && console.log(`[Scheduler] Backfilled review decisions on ${count} queue rows`))
+    .catch(error => console.error('[Scheduler] Review decision backfill failed:', error?.message || error));
+
   // Weekly Intelligence: every Monday at 12 AM (midnight)
-  const wiTask = cron.schedule('0 0 * * 1', async () => {
+  weeklyIntelligenceTask?.stop();
+  weeklyIntelligenceTask = cron.schedule('0 0 * * 1', async () => {
     console.log('[Scheduler] Monday cron: starting Weekly Intelligence scan');
     try {
       const trendId = await weeklyIntelligenceEngine.runWeeklyScan();
@@ -97,9 +140,8 @@ export async function startScheduler() {
     } catch (error) {
       console.error('[Scheduler] Weekly Intelligence scan failed:', error);
     }
-  });
-  activeTasks.push(wiTask);
-  console.log('[Scheduler] Weekly Intelligence cron scheduled (Monday 12 AM)');
+  }, { timezone: DEFAULT_TIMEZONE });
+  console.log(`[Scheduler] Weekly Intelligence cron scheduled (Monday 12 AM ${DEFAULT_TIMEZONE})`);
 
   console.log('[Scheduler] Ready');
 }
@@ -0,0 +1,131 @@
+import { storage } from "./storage";
+
+// Reviewer feedback for scoring. Every approve/reject in the review queue is
+// recorded on the queue row (reviewDecision) next to what the approval rules
+// decided (agentDecision). Scoring feeds a config's recent decisions back to
+// Claude as few-shot examples, and the calibration stats show how well the
+// 1–10 score has predicted those decisions.
+
+export type ReviewDecision = "approved" | "rejected";
+
+export interface ReviewedCompany {
+  companyName: string;
+  description: string | null;
+  industry: string | null;
+  estimatedRevenue: string | null;
+  agentScore: number | null; // null if never scored (budget-deferred)
+  agentDecision: string | null;
+  reviewDecision: string | null;
+}
+
+export interface ScoreBucket {
+  label: string;
+  min: number;
+  max: number;
+  reviewed: number;
+  approved: number;
+  rejected: number;
+  approvalRate: number | null;
+}
+
+export interface CalibrationStats {
+  reviewed: number;
+  approved: number;
+  rejected: number;
+  buckets: ScoreBucket[];
+  autoApprovalsReviewed: number;  // Auto-approved companies a reviewer later judged
+  falsePositives: number;         // ...and rejected
+  falsePositiveRate: number | null;
+  overriddenRejections: number;   // Auto-rejected companies a reviewer approved anyway
+}
+
+export const SCORE_BUCKETS: Array<[number, number]> = [[1, 3], [4, 5], [6, 7], [8, 10]];
+const EXAMPLES_PER_DECISION = 4;
+// Buckets with fewer reviews than this are too noisy to quote in the prompt
+const MIN_BUCKET_REVIEWS = 3;
+
+const rate = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+export function computeCalibration(rows: ReviewedCompany[]): CalibrationStats {
+  const decided = rows.filter(row => row.reviewDecision === "approved" || row.reviewDecision === "rejected");
+  const buckets = SCORE_BUCKETS.map(([min, max]) => {
+    const inBucket = decided.filter(row => row.agentScore !== null && row.agentScore >= min && row.agentScore <= max);
+    const approved = inBucket.filter(row => row.reviewDecision === "approved").length;
+    return {
+      label: min === max ? String(min) : `${min}–${max}`,
+      min,
+      max,
+      reviewed: inBucket.length,
+      approved,
+      rejected: inBucket.length - approved,
+      approvalRate: rate(approved, inBucket.length),
+    };
+  });
+
+  const autoApprovals = decided.filter(row => row.agentDecision === "approve");
+  const falsePositives = autoApprovals.filter(row => row.reviewDecision === "rejected").length;
+  const approved = decided.filter(row => row.reviewDecision === "approved").length;
+
+  return {
+    reviewed: decided.length,
+    approved,
+    rejected: decided.length - approved,
+    buckets,
+    autoApprovalsReviewed: autoApprovals.length,
+    falsePositives,
+    falsePositiveRate: rate(falsePositives, autoApprovals.length),
+    overriddenRejections: decided.filter(row => row.agentDecision === "reject" && row.reviewDecision === "approved").length,
+  };
+}
+
+/** The most recent approvals and rejections, balanced so neither side dominates the prompt. */
+export function selectFewShotExamples(rows: ReviewedCompany[], perDecision = EXAMPLES_PER_DECISION): ReviewedCompany[] {
+  const approved = rows.filter(row => row.reviewDecision === "approved").slice(0, perDecision);
+  const rejected = rows.filter(row => row.reviewDecision === "rejected").slice(0, perDecision);
+  return [...approved, ...rejected];
+}
+
+/** Prompt block for scoreCompany; empty when the config has no reviewed companies yet. */
+export function formatScoringFeedback(examples: ReviewedCompany[], stats: CalibrationStats): string {
+  if (examples.length === 0) return "";
+
+  const lines = examples.map(example => {
+    const details = [example.industry, example.estimatedRevenue].filter(Boolean).join(", ");
+    const snippet = (example.description || "").replace(/\s+/g, " ").substring(0, 160);
+    return `- ${example.reviewDecision === "approved" ? "APPROVED" : "REJECTED"} (${example.agentScore === null ? "not scored" : `scored ${example.agentScore}/10`}): ${example.companyName}${details ? ` — ${details}` : ""}${snippet ? `. "${snippet}"` : ""}`;
+  });
+
+  const calibration = stats.buckets
+    .filter(bucket => bucket.reviewed >= MIN_BUCKET_REVIEWS)
+    .map(bucket => `${Math.round((bucket.approvalRate || 0) * 100)}% of companies scored ${bucket.label}`);
+
+  return `
+
+PAST REVIEWER DECISIONS for this search. Score new companies so ones like the approved examples score high and ones like the rejected examples score low:
+${lines.join("\n")}${calibration.length > 0 ? `\nReviewers have approved ${calibration.join(", ")}.` : ""}`;
+}
+
+class ScoringFeedback {
+  /** Few-shot context for scoring one config's discoveries ("" for unsaved configs or no history). */
+  async promptContext(configId: number | null | undefined): Promise<string> {
+    if (!configId) return "";
+    try {
+      const rows = await storage.getReviewedQueueItems(configId, 200);
+      const examples = selectFewShotExamples(rows);
+      if (examples.length > 0) {
+        console.log(`[Scoring] Using ${examples.length} reviewer decisions as examples for config ${configId}`);
+      }
+      return formatScoringFeedback(examples, computeCalibration(rows));
+    } catch (error: any) {
+      // Scoring still works without the examples
+      console.warn(`[Scoring] Could not load reviewer feedback for config ${configId}: ${error?.message}`);
+      return "";
+    }
+  }
+
+  async calibration(configId?: number | null): Promise<CalibrationStats> {
+    return computeCalibration(await storage.getReviewedQueueItems(configId));
+  }
+}
+
+export const scoringFeedback = new ScoringFeedback();
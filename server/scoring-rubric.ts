@@ -0,0 +1,111 @@
+// Rubric scoring. Claude scores each company 1–10 on six criteria with a
+// one-line reason each; the overall score is their weighted average using the
+// config's weights, so reviewers can see which criterion pulled a company
+// down. A company that breaks a hard constraint (the PE filter) is
+// disqualified and scores 1 regardless of the rubric.
+
+export type RubricCriterion =
+  | "industryFit"
+  | "sizeFit"
+  | "geographyFit"
+  | "ownershipFit"
+  | "growthSignals"
+  | "dataConfidence";
+
+export const RUBRIC_CRITERIA: Array<{ key: RubricCriterion; label: string; guidance: string }> = [
+  { key: "industryFit", label: "Industry fit", guidance: "how closely the business matches the target industry and focus" },
+  { key: "sizeFit", label: "Size fit", guidance: "how well revenue and headcount match the target revenue range" },
+  { key: "geographyFit", label: "Geography fit", guidance: "whether headquarters and operations are in the target geography" },
+  { key: "ownershipFit", label: "Ownership fit", guidance: "whether the ownership (founder-led, family, PE-backed) suits the strategy and PE preference" },
+  { key: "growthSignals", label: "Growth signals", guidance: "evidence of growth: hiring, new products, locations, customers" },
+  { key: "dataConfidence", label: "Data confidence", guidance: "how much of the above is backed by the page content rather than guessed" },
+];
+
+export type ScoringWeights = Record<RubricCriterion, number>;
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  industryFit: 3,
+  sizeFit: 2,
+  geographyFit: 1.5,
+  ownershipFit: 1.5,
+  growthSignals: 1,
+  dataConfidence: 1,
+};
+
+export interface SubScore {
+  score: number;
+  reason: string;
+}
+
+export interface ScoreBreakdown {
+  subScores: Partial<Record<RubricCriterion, SubScore>>;
+  weights: ScoringWeights;
+  weightedScore: number;          // Weighted average, one decimal
+  disqualified: string | null;    // Hard constraint the company breaks, if any
+}
+
+export function validateScoringWeights(weights: any): string | null {
+  if (weights === undefined || weights === null) return null;
+  if (typeof weights !== "object" || Array.isArray(weights)) return "scoringWeights must be an object";
+  for (const key of Object.keys(weights)) {
+    if (!RUBRIC_CRITERIA.some(criterion => criterion.key === key)) {
+      return `scoringWeights.${key} is not a scoring criterion`;
+    }
+    const value = weights[key];
+    if (typeof value !== "number" || !isFinite(value) || value < 0) {
+      return `scoringWeights.${key} must be a non-negative number`;
+    }
+  }
+  if (RUBRIC_CRITERIA.every(({ key }) => (weights[key] ?? DEFAULT_SCORING_WEIGHTS[key]) === 0)) {
+    return "scoringWeights must give at least one criterion a weight above 0";
+  }
+  return null;
+}
+
+/** Config weights over the defaults (missing criteria keep their default weight). */
+export function resolveScoringWeights(weights: any): ScoringWeights {
+  const resolved = { ...DEFAULT_SCORING_WEIGHTS };
+  if (!weights || typeof weights !== "object") return resolved;
+  for (const { key } of RUBRIC_CRITERIA) {
+    if (typeof weights[key] === "number" && weights[key] >= 0) resolved[key] = weights[key];
+  }
+  return resolved;
+}
+
+const clampScore = (value: any) => Math.min(10, Math.max(1, Math.round(Number(value))));
+
+/** Read Claude's `subScores` object, dropping criteria it skipped or scored with a non-number. */
+export function parseSubScores(raw: any): Partial<Record<RubricCriterion, SubScore>> {
+  const subScores: Partial<Record<RubricCriterion, SubScore>> = {};
+  if (!raw || typeof raw !== "object") return subScores;
+  for (const { key } of RUBRIC_CRITERIA) {
+    const entry = raw[key];
+    const value = typeof entry === "object" && entry !== null ? entry.score : entry;
+    if (value === undefined || value === null || isNaN(Number(value))) continue;
+    subScores[key] = { score: clampScore(value), reason: typeof entry?.reason === "string" ? entry.reason : "" };
+  }
+  return subScores;
+}
+
+/**
+ * Weighted average of the sub-scores Claude returned. Returns null when none
+ * of the weighted criteria were scored, so the caller can fall back.
+ */
+export function computeWeightedScore(subScores: Partial<Record<RubricCriterion, SubScore>>, weights: ScoringWeights): number | null {
+  let total = 0;
+  let weightSum = 0;
+  for (const { key } of RUBRIC_CRITERIA) {
+    const subScore = subScores[key];
+    if (!subScore || weights[key] <= 0) continue;
+    total += subScore.score * weights[key];
+    weightSum += weights[key];
+  }
+  return weightSum > 0 ? Math.round((total / weightSum) * 10) / 10 : null;
+}
+
+/** Prompt lines describing each criterion and its weight for this config. */
+export function describeRubric(weights: ScoringWeights): string {
+  return RUBRIC_CRITERIA
+    .map(({ key, guidance }) => `- ${key} (weight ${weights[key]}): ${guidance}`)
+    .join("\n");
+}
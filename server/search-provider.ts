@@ -0,0 +1,255 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { costTracker } from "./cost-tracker";
+import { httpClient } from "./http-client";
+
+// Web search behind one interface so discovery and weekly scans don't care
+// who answers. SEARCH_PROVIDER picks the implementation:
+//   exa     (default) live Exa API, results cached in exa_cache
+//   fixture replay recorded responses from SEARCH_FIXTURES_DIR — no network, no spend
+//   record  call Exa and write every response to SEARCH_FIXTURES_DIR for later replay
+
+export interface SearchResult {
+  url: string;
+  title: string;
+  text?: string;
+  id?: string;
+  publishedDate?: string;
+  author?: string;
+  score?: number;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+}
+
+export interface ContentsOptions {
+  text?: {
+    maxCharacters?: number;
+  };
+}
+
+export interface SearchOptions {
+  numResults?: number;
+  type?: "neural" | "keyword";
+  useAutoprompt?: boolean;
+  includeDomains?: string[];
+  contents?: ContentsOptions;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  // Whether responses may be stored in the shared search cache
+  readonly cacheable: boolean;
+  search(query: string, options?: SearchOptions): Promise<SearchResponse>;
+  getContents(urls: string[], options?: ContentsOptions): Promise<SearchResponse>;
+  findSimilar(url: string, options?: SearchOptions): Promise<SearchResponse>;
+}
+
+type SearchMethod = "search" | "getContents" | "findSimilar";
+
+const DEFAULT_CONTENTS: ContentsOptions = { text: { maxCharacters: 1000 } };
+
+export class ExaSearchProvider implements SearchProvider {
+  readonly name = "exa";
+  readonly cacheable = true;
+
+  constructor(private apiKey: string = process.env.EXA_API_KEY || "") {}
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    return this.post("/search", {
+      query,
+      numResults: options.numResults || 10,
+      type: options.type || "neural",
+      useAutoprompt: options.useAutoprompt !== undefined ? options.useAutoprompt : true,
+      ...(options.includeDomains && { includeDomains: options.includeDomains }),
+      contents: options.contents || DEFAULT_CONTENTS,
+    });
+  }
+
+  async getContents(urls: string[], options: ContentsOptions = DEFAULT_CONTENTS): Promise<SearchResponse> {
+    return this.post("/contents", { urls, ...options });
+  }
+
+  async findSimilar(url: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    return this.post("/findSimilar", {
+      url,
+      numResults: options.numResults || 10,
+      excludeSourceDomain: true,
+      ...(options.includeDomains && { includeDomains: options.includeDomains }),
+      contents: options.contents || DEFAULT_CONTENTS,
+    });
+  }
+
+  private async post(endpoint: string, body: Record<string, any>): Promise<SearchResponse> {
+    const response = await httpClient.fetch("exa", `https://api.exa.ai${endpoint}`, {
+      method: "POST",
+      headers: {
+        "x-api-key": this.apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error: any = new Error(`Exa API error: ${response.statusText}`);
+      error.status = response.status;
+      throw error;
+    }
+    // Contents is billed per page, search and findSimilar per request
+    await costTracker.record({
+      provider: "exa",
+      operation: endpoint.slice(1),
+      requests: Array.isArray(body.urls) ? body.urls.length : 1,
+    });
+    return response.json();
+  }
+}
+
+interface FixtureFile {
+  method: SearchMethod;
+  request: Record<string, any>;
+  response: SearchResponse;
+  recordedAt: string;
+}
+
+// The request fields that identify a fixture; content length doesn't change which pages come back
+function fixtureRequest(method: SearchMethod, input: string | string[], options: SearchOptions = {}) {
+  return {
+    method,
+    input,
+    numResults: options.numResults || 10,
+    type: options.type || "neural",
+    includeDomains: options.includeDomains || [],
+  };
+}
+
+function fixtureKey(request: Record<string, any>): string {
+  return crypto.createHash("sha256").update(JSON.stringify(request)).digest("hex").slice(0, 16);
+}
+
+/**
+ * Replays responses recorded by RecordingSearchProvider. Looks for an exact
+ * request match first, then any recording of the same query, and returns no
+ * results (with a warning) when nothing was recorded.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = "fixture";
+  readonly cacheable = false;
+  private byKey: Map<string, FixtureFile> | null = null;
+  private byInput = new Map<string, FixtureFile>();
+
+  constructor(private dir: string) {}
+
+  async search(query: string, options?: SearchOptions): Promise<SearchResponse> {
+    return this.replay(fixtureRequest("search", query, options));
+  }
+
+  async getContents(urls: string[], options?: ContentsOptions): Promise<SearchResponse> {
+    return this.replay(fixtureRequest("getContents", urls, { contents: options }));
+  }
+
+  async findSimilar(url: string, options?: SearchOptions): Promise<SearchResponse> {
+    return this.replay(fixtureRequest("findSimilar", url, options));
+  }
+
+  private replay(request: ReturnType<typeof fixtureRequest>): SearchResponse {
+    this.load();
+    const fixture = this.byKey!.get(fixtureKey(request))
+      || this.byInput.get(`${request.method}:${JSON.stringify(request.input)}`);
+    if (!fixture) {
+      console.warn(`[Search] No fixture for ${request.method}: ${JSON.stringify(request.input).substring(0, 80)}`);
+      return { results: [] };
+    }
+    return fixture.response;
+  }
+
+  private load() {
+    if (this.byKey) return;
+    this.byKey = new Map();
+    if (!fs.existsSync(this.dir)) {
+      console.warn(`[Search] Fixture directory ${this.dir} does not exist — every search will be empty`);
+      return;
+    }
+    for (const file of fs.readdirSync(this.dir).filter(f => f.endsWith(".json"))) {
+      try {
+        const fixture: FixtureFile = JSON.parse(fs.readFileSync(path.join(this.dir, file), "utf8"));
+        this.byKey.set(fixtureKey(fixture.request), fixture);
+        this.byInput.set(`${fixture.method}:${JSON.stringify(fixture.request.input)}`, fixture);
+      } catch (error: any) {
+        console.warn(`[Search] Skipping unreadable fixture ${file}: ${error?.message}`);
+      }
+    }
+    console.log(`[Search] Loaded ${this.byKey.size} search fixtures from ${this.dir}`);
+  }
+}
+
+/** Passes calls through to another provider and writes each response as a fixture. */
+export class RecordingSearchProvider implements SearchProvider {
+  readonly name: string;
+  // Every call must reach the inner provider, or cache hits would never be recorded
+  readonly cacheable = false;
+
+  constructor(private inner: SearchProvider, private dir: string) {
+    this.name = `record:${inner.name}`;
+  }
+
+  async search(query: string, options?: SearchOptions): Promise<SearchResponse> {
+    return this.record(fixtureRequest("search", query, options), () => this.inner.search(query, options));
+  }
+
+  async getContents(urls: string[], options?: ContentsOptions): Promise<SearchResponse> {
+    return this.record(fixtureRequest("getContents", urls, { contents: options }), () => this.inner.getContents(urls, options));
+  }
+
+  async findSimilar(url: string, options?: SearchOptions): Promise<SearchResponse> {
+    return this.record(fixtureRequest("findSimilar", url, options), () => this.inner.findSimilar(url, options));
+  }
+
+  private async record(request: ReturnType<typeof fixtureRequest>, call: () => Promise<SearchResponse>) {
+    const response = await call();
+    const fixture: FixtureFile = { method: request.method, request, response, recordedAt: new Date().toISOString() };
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(
+        path.join(this.dir, `${request.method}-${fixtureKey(request)}.json`),
+        JSON.stringify(fixture, null, 2)
+      );
+    } catch (error: any) {
+      console.warn(`[Search] Failed to record fixture: ${error?.message}`);
+    }
+    return response;
+  }
+}
+
+let provider: SearchProvider | null = null;
+
+function createProviderFromEnv(): SearchProvider {
+  const dir = process.env.SEARCH_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "search");
+  switch ((process.env.SEARCH_PROVIDER || "exa").toLowerCase()) {
+    case "fixture":
+      return new FixtureSearchProvider(dir);
+    case "record":
+      return new RecordingSearchProvider(new ExaSearchProvider(), dir);
+    case "exa":
+      return new ExaSearchProvider();
+    default:
+      console.warn(`[Search] Unknown SEARCH_PROVIDER "${process.env.SEARCH_PROVIDER}", using Exa`);
+      return new ExaSearchProvider();
+  }
+}
+
+export function getSearchProvider(): SearchProvider {
+  if (!provider) {
+    provider = createProviderFromEnv();
+    console.log(`[Search] Using ${provider.name} search provider`);
+  }
+  return provider;
+}
+
+/** Swap the provider at runtime (e.g. a new implementation registered at startup). */
+export function setSearchProvider(next: SearchProvider) {
+  provider = next;
+  console.log(`[Search] Using ${next.name} search provider`);
+}
@@ -0,0 +1,203 @@
+import { storage } from "./storage";
+import { alertService } from "./alerts";
+import { llm } from "./llm-gateway";
+
+// Stale-parameter alerts. A config that keeps running the same search finds
+// the same companies: each run skips more of them as "already known", so its
+// yield decays. Every run records how many runs in a row its config version
+// has gone unchanged (agent_workflows.parameters_unchanged_count, mirrored to
+// agent_config.times_run_unchanged) and how many results it skipped. Once a
+// version reaches the config's alert_after_unchanged_runs, an alert is raised
+// with Claude's suggestions for sub-niches, geographies or criteria to
+// broaden into — once per version, so editing the config re-arms it.
+
+export const DEFAULT_ALERT_AFTER_UNCHANGED_RUNS = 3;
+// Runs included in the yield trend
+const TREND_RUNS = 10;
+
+export interface RunYield {
+  workflowId: number;
+  createdAt: Date;
+  configVersionId: number | null;
+  distinct: number;           // Distinct companies found, new or known
+  known: number;              // Skipped as already in the queue
+  knownShare: number | null;  // known / distinct
+}
+
+export interface YieldTrend {
+  runs: RunYield[];                  // Oldest first
+  firstKnownShare: number | null;
+  latestKnownShare: number | null;
+  decay: number | null;              // Rise in the known share from first to latest run
+}
+
+export type SuggestionKind = "sub_niche" | "geography" | "criteria";
+
+export interface ConfigSuggestion {
+  kind: SuggestionKind;
+  suggestion: string;
+  rationale: string;
+}
+
+export interface StalenessStatus {
+  timesRunUnchanged: number;
+  alertAfterUnchangedRuns: number | null;
+  stale: boolean;
+  trend: YieldTrend;
+}
+
+const SUGGESTION_KINDS: SuggestionKind[] = ["sub_niche", "geography", "criteria"];
+
+export function validateAlertThreshold(value: any): string | null {
+  if (value === undefined || value === null) return null;
+  if (!Number.isInteger(value) || value < 0) return "alertAfterUnchangedRuns must be a non-negative integer";
+  return null;
+}
+
+/** Alert threshold for a config; 0 or a negative value turns the alert off. */
+export function alertThreshold(config: any): number | null {
+  const value = config.alertAfterUnchangedRuns ?? DEFAULT_ALERT_AFTER_UNCHANGED_RUNS;
+  return value > 0 ? value : null;
+}
+
+export function runYield(workflow: any): RunYield {
+  const known = workflow.companiesAlreadyKnown || 0;
+  const distinct = (workflow.companiesFound || 0) + known;
+  return {
+    workflowId: workflow.id,
+    createdAt: workflow.createdAt,
+    configVersionId: workflow.configVersionId ?? null,
+    distinct,
+    known,
+    knownShare: distinct > 0 ? known / distinct : null,
+  };
+}
+
+export function computeYieldTrend(workflows: any[]): YieldTrend {
+  const runs = workflows.map(runYield).filter(run => run.knownShare !== null);
+  const firstKnownShare = runs[0]?.knownShare ?? null;
+  const latestKnownShare = runs[runs.length - 1]?.knownShare ?? null;
+  return {
+    runs,
+    firstKnownShare,
+    latestKnownShare,
+    decay: runs.length >= 2 && firstKnownShare !== null && latestKnownShare !== null
+      ? latestKnownShare - firstKnownShare
+      : null,
+  };
+}
+
+export function parseConfigSuggestions(text: string): ConfigSuggestion[] {
+  const cleaned = text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return [];
+
+  const data = JSON.parse(jsonMatch[0]);
+  return (Array.isArray(data.suggestions) ? data.suggestions : [])
+    .filter((entry: any) => typeof entry?.suggestion === "string" && entry.suggestion.trim())
+    .slice(0, 8)
+    .map((entry: any) => ({
+      kind: SUGGESTION_KINDS.includes(entry.kind) ? entry.kind : "criteria",
+      suggestion: entry.suggestion.trim(),
+      rationale: typeof entry.rationale === "string" ? entry.rationale : "",
+    }));
+}
+
+const percent = (share: number | null) => (share === null ? "n/a" : `${Math.round(share * 100)}%`);
+
+class StaleParameterMonitor {
+  /**
+   * Runs in a row on this config version, counting the run about to start.
+   * Runs from before versioning never match, so counting starts fresh.
+   */
+  async countUnchangedRuns(configId: number, versionId: number): Promise<number> {
+    const [previous] = await storage.getConfigWorkflows(configId, 1);
+    if (previous?.configVersionId === versionId) {
+      return (previous.parametersUnchangedCount || 0) + 1;
+    }
+    return 1;
+  }
+
+  async status(config: any): Promise<StalenessStatus> {
+    const workflows = await storage.getConfigWorkflows(config.id, TREND_RUNS);
+    const threshold = alertThreshold(config);
+    const timesRunUnchanged = config.timesRunUnchanged || 0;
+    return {
+      timesRunUnchanged,
+      alertAfterUnchangedRuns: threshold,
+      stale: threshold !== null && timesRunUnchanged >= threshold,
+      trend: computeYieldTrend(workflows.reverse()),
+    };
+  }
+
+  /** Called when a discovery run finishes; raises the alert once the version has gone stale. */
+  async checkAfterRun(workflowId: number): Promise<void> {
+    const workflow = await storage.getWorkflow(workflowId);
+    if (!workflow?.configId || !workflow.configVersionId) return;
+    const config = await storage.getAgentConfig(workflow.configId);
+    if (!config) return;
+
+    const threshold = alertThreshold(config);
+    const unchangedRuns = workflow.parametersUnchangedCount || 0;
+    if (threshold === null || unchangedRuns < threshold) return;
+
+    const dedupeKey = `stale_parameters:config:${config.id}:version:${workflow.configVersionId}`;
+    // Suggestions cost a Claude call, so skip them once this version has been flagged
+    if (await storage.hasAlert(dedupeKey)) return;
+
+    const { trend } = await this.status(config);
+    const suggestions = await this.suggest(config, trend, unchangedRuns);
+    const decayNote = trend.decay !== null
+      ? ` Already-known share went from ${percent(trend.firstKnownShare)} to ${percent(trend.latestKnownShare)} over the last ${trend.runs.length} runs.`
+      : "";
+
+    await alertService.raise({
+      type: "stale_parameters",
+      severity: "info",
+      title: `"${config.name}" has run ${unchangedRuns} times without changes`,
+      message: `The search parameters haven't changed in ${unchangedRuns} runs.${decayNote}${suggestions.length > 0 ? ` Claude suggests ${suggestions.length} ways to broaden it.` : ""}`,
+      configId: config.id,
+      workflowId,
+      data: { unchangedRuns, trend, suggestions },
+      dedupeKey,
+    });
+  }
+
+  /** Claude's ideas for where to take the search next; empty if the call fails. */
+  async suggest(config: any, trend: YieldTrend, unchangedRuns: number): Promise<ConfigSuggestion[]> {
+    const criteria = (config.searchCriteria || {}) as any;
+    const prompt = `You help an M&A origination team keep a saved company-discovery search productive.
+
+The search below has run ${unchangedRuns} times with the same parameters. Each run skips companies that earlier runs already found; the share of results that were already known, oldest run first: ${trend.runs.map(run => percent(run.knownShare)).join(", ") || "unknown"}.
+
+CURRENT SEARCH:
+- Focus: ${criteria.query || "n/a"}
+- Industry: ${criteria.industry || "Any"}
+- Revenue: ${criteria.revenueRange || "Any"}
+- Geography: ${criteria.geographicFocus || "Any"}
+- Ownership: ${criteria.peFilter || "both"}
+- Strategy: ${criteria.strategy || "buy-side"}
+
+Suggest 3-6 concrete ways to find new companies while staying true to the strategy:
+- "sub_niche": an adjacent product line, service or end market to add
+- "geography": a region, state or metro to broaden into
+- "criteria": a change to revenue range, ownership or other filters
+
+Return ONLY valid JSON:
+{
+  "suggestions": [
+    { "kind": "sub_niche", "suggestion": "...", "rationale": "one short sentence" }
+  ]
+}`;
+
+    try {
+      const { text } = await llm.complete("config_suggestions", prompt, { label: `Claude config suggestions for config ${config.id}` });
+      return parseConfigSuggestions(text);
+    } catch (error: any) {
+      console.warn(`[Config] Suggestions for config ${config.id} failed: ${error?.message}`);
+      return [];
+    }
+  }
+}
+
+export const staleParameters = new StaleParameterMonitor();
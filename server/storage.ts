@@ -1,5 +1,5 @@
 import { drizzle } from "drizzle-orm/node-postgres";
-import { eq, desc, or, ilike, isNull, inArray } from "drizzle-orm";
+import { eq, and, desc, gte, or, ilike, isNull, inArray, sql } from "drizzle-orm";
 import pg from "pg";
 import * as schema from "../drizzle/schema";
 
@@ -11,6 +11,32 @@ const pool = new Pool({
 
 export const db = drizzle(pool, { schema });
 
+interface UsageTotals {
+  calls: number;
+  cacheHits: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  webSearches: number;
+  costUsd: number;
+}
+
+function summarizeUsage(rows: Array<UsageTotals & { provider: string }>) {
+  const totals = { calls: 0, cacheHits: 0, requests: 0, inputTokens: 0, outputTokens: 0, webSearches: 0, costUsd: 0 };
+  const byProvider: Record<string, number> = {};
+  for (const row of rows) {
+    totals.calls += row.calls;
+    totals.cacheHits += row.cacheHits;
+    totals.requests += row.requests;
+    totals.inputTokens += row.inputTokens;
+    totals.outputTokens += row.outputTokens;
+    totals.webSearches += row.webSearches;
+    totals.costUsd += row.costUsd;
+    byProvider[row.provider] = (byProvider[row.provider] || 0) + row.costUsd;
+  }
+  return { ...totals, byProvider };
+}
+
 class Storage {
 
   async getRecentWorkflows(limit: number = 5) {
@@ -59,6 +85,15 @@ class Storage {
     return result[0];
   }
 
+  async getDiscoveryItemByReportId(reportId: number) {
+    const result = await db
+      .select()
+      .from(schema.discoveryQueue)
+      .where(eq(schema.discoveryQueue.reportId, reportId))
+      .limit(1);
+    return result[0];
+  }
+
   async saveAgentConfig(config: any) {
     const result = await db
       .insert(schema.agentConfigurations)
@@ -142,6 +177,72 @@ class Storage {
       .where(eq(schema.reports.id, id));
   }
 
+  async getReportSections(reportId: number) {
+    const result = await db
+      .select()
+      .from(schema.reportSections)
+      .where(eq(schema.reportSections.reportId, reportId))
+      .orderBy(schema.reportSections.position);
+    return result;
+  }
+
+  async saveReportSections(reportId: number, sections: any[]) {
+    return db.transaction(async (tx) => {
+      await tx
+        .delete(schema.reportSections)
+        .where(eq(schema.reportSections.reportId, reportId));
+      if (sections.length === 0) return [];
+      return tx
+        .insert(schema.reportSections)
+        .values(sections.map(section => ({ ...section, reportId })))
+        .returning();
+    });
+  }
+
+  async getReportVersions(reportId: number) {
+    const result = await db
+      .select()
+      .from(schema.reportVersions)
+      .where(eq(schema.reportVersions.reportId, reportId))
+      .orderBy(desc(schema.reportVersions.version));
+    return result;
+  }
+
+  async getReportVersion(reportId: number, version: number) {
+    const result = await db
+      .select()
+      .from(schema.reportVersions)
+      .where(and(
+        eq(schema.reportVersions.reportId, reportId),
+        eq(schema.reportVersions.version, version)
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  // Archive the current version, overwrite the report and replace its sections in one go,
+  // so a crash mid-refresh never leaves a half-updated report
+  async applyReportRefresh(reportId: number, snapshot: any, updates: any, sections: any[]) {
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(schema.reportVersions)
+        .values({ ...snapshot, reportId })
+        .onConflictDoNothing({ target: [schema.reportVersions.reportId, schema.reportVersions.version] });
+      await tx
+        .update(schema.reports)
+        .set(updates)
+        .where(eq(schema.reports.id, reportId));
+      await tx
+        .delete(schema.reportSections)
+        .where(eq(schema.reportSections.reportId, reportId));
+      if (sections.length > 0) {
+        await tx
+          .insert(schema.reportSections)
+          .values(sections.map(section => ({ ...section, reportId })));
+      }
+    });
+  }
+
   async createWorkflow(data: any) {
     const result = await db
       .insert(schema.agentWorkflows)
@@ -150,6 +251,15 @@ class Storage {
     return result[0];
   }
 
+  async getWorkflow(id: number) {
+    const result = await db
+      .select()
+      .from(schema.agentWorkflows)
+      .where(eq(schema.agentWorkflows.id, id))
+      .limit(1);
+    return result[0];
+  }
+
   async updateWorkflow(id: number, data: any) {
     await db
       .update(schema.agentWorkflows)
@@ -172,6 +282,72 @@ class Storage {
       .where(eq(schema.discoveryQueue.id, id));
   }
 
+  // ---- Scoring feedback ----
+
+  /** Companies a reviewer approved or rejected, newest decision first (optionally one config's runs only). */
+  async getReviewedQueueItems(configId?: number | null, limit: number = 1000) {
+    const conditions = [sql`${schema.discoveryQueue.reviewDecision} is not null`];
+    if (configId) {
+      conditions.push(eq(schema.agentWorkflows.configId, configId));
+    }
+    return db
+      .select({
+        id: schema.discoveryQueue.id,
+        companyName: schema.discoveryQueue.companyName,
+        description: schema.discoveryQueue.description,
+        industry: schema.discoveryQueue.industry,
+        estimatedRevenue: schema.discoveryQueue.estimatedRevenue,
+        agentScore: schema.discoveryQueue.agentScore,
+        confidence: schema.discoveryQueue.confidence,
+        agentDecision: schema.discoveryQueue.agentDecision,
+        reviewDecision: schema.discoveryQueue.reviewDecision,
+        reviewedAt: schema.discoveryQueue.reviewedAt,
+        configId: schema.agentWorkflows.configId,
+      })
+      .from(schema.discoveryQueue)
+      .leftJoin(schema.agentWorkflows, eq(schema.discoveryQueue.workflowId, schema.agentWorkflows.id))
+      .where(and(...conditions))
+      .orderBy(sql`${schema.discoveryQueue.reviewedAt} desc nulls last`)
+      .limit(limit);
+  }
+
+  // Auto-approvals nobody has second-guessed yet, so a reviewer can flag false positives
+  async getUnreviewedAutoApprovals(limit: number = 50) {
+    return db
+      .select()
+      .from(schema.discoveryQueue)
+      .where(and(
+        eq(schema.discoveryQueue.agentDecision, "approve"),
+        eq(schema.discoveryQueue.approvalStatus, "auto_approved"),
+        isNull(schema.discoveryQueue.reviewDecision),
+      ))
+      .orderBy(desc(schema.discoveryQueue.approvedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Derive agent and reviewer decisions for queue rows written before they
+   * were recorded: manual approve/reject came from the review queue, and the
+   * rules left their reason on everything they decided themselves.
+   */
+  async backfillReviewDecisions(): Promise<number> {
+    const q = schema.discoveryQueue;
+    const manualReasons = sql`coalesce(${q.autoApprovalReason}, '') in ('Manually approved', 'Bulk approved manually')`;
+    // Budget-deferred rows may never have been scored; they only get decisions recorded live
+    const legacy = and(isNull(q.agentDecision), eq(q.budgetDeferred, false));
+    const updates = await Promise.all([
+      db.update(q).set({ agentDecision: "review", reviewDecision: "approved", reviewedAt: sql`${q.approvedAt}` })
+        .where(and(legacy, eq(q.approvalStatus, "auto_approved"), manualReasons)).returning({ id: q.id }),
+      db.update(q).set({ agentDecision: "review", reviewDecision: "rejected" })
+        .where(and(legacy, eq(q.approvalStatus, "rejected"), isNull(q.autoApprovalReason))).returning({ id: q.id }),
+      db.update(q).set({ agentDecision: "approve" })
+        .where(and(legacy, eq(q.approvalStatus, "auto_approved"), sql`not (${manualReasons})`)).returning({ id: q.id }),
+      db.update(q).set({ agentDecision: "reject" })
+        .where(and(legacy, eq(q.approvalStatus, "rejected"), sql`${q.autoApprovalReason} is not null`)).returning({ id: q.id }),
+    ]);
+    return updates.reduce((sum, rows) => sum + rows.length, 0);
+  }
+
   async getDiscoveryQueue(workflowId: number) {
     const result = await db
       .select()
@@ -190,12 +366,81 @@ class Storage {
   }
 
   async updateAgentConfig(id: number, data: any) {
+    const { id: _id, createdAt: _createdAt, ...updates } = data;
+    const result = await db
+      .update(schema.agentConfigurations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(schema.agentConfigurations.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Run bookkeeping only — not an edit, so updatedAt is left alone
+  async recordConfigRun(id: number, timesRunUnchanged: number) {
     await db
       .update(schema.agentConfigurations)
-      .set(data)
+      .set({ timesRunUnchanged, lastRunAt: new Date() })
       .where(eq(schema.agentConfigurations.id, id));
   }
 
+  // A config's discovery runs, newest first
+  async getConfigWorkflows(configId: number, limit: number = 10) {
+    const result = await db
+      .select()
+      .from(schema.agentWorkflows)
+      .where(eq(schema.agentWorkflows.configId, configId))
+      .orderBy(desc(schema.agentWorkflows.createdAt))
+      .limit(limit);
+    return result;
+  }
+
+  async getConfigVersions(configId: number) {
+    const result = await db
+      .select()
+      .from(schema.agentConfigVersions)
+      .where(eq(schema.agentConfigVersions.configId, configId))
+      .orderBy(desc(schema.agentConfigVersions.version));
+    return result;
+  }
+
+  async getConfigVersion(id: number) {
+    const result = await db
+      .select()
+      .from(schema.agentConfigVersions)
+      .where(eq(schema.agentConfigVersions.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getLatestConfigVersion(configId: number) {
+    const result = await db
+      .select()
+      .from(schema.agentConfigVersions)
+      .where(eq(schema.agentConfigVersions.configId, configId))
+      .orderBy(desc(schema.agentConfigVersions.version))
+      .limit(1);
+    return result[0];
+  }
+
+  // Next version number and the config's currentVersion pointer move together
+  async createConfigVersion(configId: number, settings: any, author: string, note: string | null) {
+    return db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ version: sql<number>`coalesce(max(${schema.agentConfigVersions.version}), 0)::int` })
+        .from(schema.agentConfigVersions)
+        .where(eq(schema.agentConfigVersions.configId, configId));
+      const [version] = await tx
+        .insert(schema.agentConfigVersions)
+        .values({ configId, version: (latest?.version || 0) + 1, settings, author, note })
+        .returning();
+      await tx
+        .update(schema.agentConfigurations)
+        .set({ currentVersion: version.version })
+        .where(eq(schema.agentConfigurations.id, configId));
+      return version;
+    });
+  }
+
   async getRunningWorkflows() {
     const result = await db
       .select()
@@ -204,11 +449,15 @@ class Storage {
     return result;
   }
 
-  async findExistingCompany(companyName: string, websiteUrl?: string): Promise<any | null> {
+  async findExistingCompany(companyName: string, websiteUrl?: string, companyId?: number): Promise<any | null> {
+    // Registry link first; name/URL still catch queue rows not yet backfilled
     const conditions = [ilike(schema.discoveryQueue.companyName, companyName)];
     if (websiteUrl) {
       conditions.push(eq(schema.discoveryQueue.websiteUrl, websiteUrl));
     }
+    if (companyId) {
+      conditions.push(eq(schema.discoveryQueue.companyId, companyId));
+    }
     const result = await db
       .select()
       .from(schema.discoveryQueue)
@@ -217,6 +466,167 @@ class Storage {
     return result[0] || null;
   }
 
+  // ---- Company registry ----
+
+  async getCompany(id: number) {
+    const result = await db
+      .select()
+      .from(schema.companies)
+      .where(eq(schema.companies.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getCompanyByDomain(domain: string) {
+    const result = await db
+      .select()
+      .from(schema.companies)
+      .where(eq(schema.companies.domain, domain))
+      .limit(1);
+    return result[0];
+  }
+
+  // Companies whose name or an alias starts with the given normalized token (fuzzy-match candidates)
+  async findCompanyCandidates(prefix: string, limit: number = 50) {
+    const byName = await db
+      .select()
+      .from(schema.companies)
+      .where(ilike(schema.companies.normalizedName, `${prefix}%`))
+      .limit(limit);
+    const byAlias = await db
+      .select({ company: schema.companies, alias: schema.companyAliases.normalizedAlias })
+      .from(schema.companyAliases)
+      .innerJoin(schema.companies, eq(schema.companyAliases.companyId, schema.companies.id))
+      .where(ilike(schema.companyAliases.normalizedAlias, `${prefix}%`))
+      .limit(limit);
+    return { byName, byAlias };
+  }
+
+  async listCompanies(search?: string) {
+    const query = db.select().from(schema.companies);
+    const result = search
+      ? await query.where(or(
+          ilike(schema.companies.name, `%${search}%`),
+          ilike(schema.companies.domain, `%${search}%`)
+        )).orderBy(desc(schema.companies.updatedAt)).limit(200)
+      : await query.orderBy(desc(schema.companies.updatedAt)).limit(200);
+    return result;
+  }
+
+  async createCompany(data: any) {
+    const result = await db
+      .insert(schema.companies)
+      .values(data)
+      .onConflictDoNothing({ target: schema.companies.domain })
+      .returning();
+    // Lost a race on the same domain — the other insert wins
+    return result[0] ?? (data.domain ? await this.getCompanyByDomain(data.domain) : undefined);
+  }
+
+  async updateCompany(id: number, data: any) {
+    const result = await db
+      .update(schema.companies)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(schema.companies.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getCompanyAliases(companyId: number) {
+    const result = await db
+      .select()
+      .from(schema.companyAliases)
+      .where(eq(schema.companyAliases.companyId, companyId))
+      .orderBy(schema.companyAliases.createdAt);
+    return result;
+  }
+
+  async addCompanyAlias(companyId: number, alias: string, normalizedAlias: string, source: string) {
+    await db
+      .insert(schema.companyAliases)
+      .values({ companyId, alias, normalizedAlias, source })
+      .onConflictDoNothing({ target: [schema.companyAliases.companyId, schema.companyAliases.normalizedAlias] });
+  }
+
+  // Everything any agent has recorded about a company
+  async getCompanyTimeline(companyId: number) {
+    const [queueItems, companyReports, contacts, outreach] = await Promise.all([
+      db.select().from(schema.discoveryQueue)
+        .where(eq(schema.discoveryQueue.companyId, companyId))
+        .orderBy(desc(schema.discoveryQueue.createdAt)),
+      db.select().from(schema.reports)
+        .where(eq(schema.reports.companyId, companyId))
+        .orderBy(desc(schema.reports.createdAt)),
+      db.select().from(schema.targetContacts)
+        .where(eq(schema.targetContacts.companyId, companyId))
+        .orderBy(desc(schema.targetContacts.createdAt)),
+      db.select().from(schema.outreachStyles)
+        .where(eq(schema.outreachStyles.companyId, companyId))
+        .orderBy(desc(schema.outreachStyles.createdAt)),
+    ]);
+    return { queueItems, reports: companyReports, contacts, outreach };
+  }
+
+  // Repoint every link from one company to another, keep its names as aliases, then drop it
+  async mergeCompanies(fromId: number, intoId: number) {
+    await db.transaction(async (tx) => {
+      await tx.update(schema.discoveryQueue).set({ companyId: intoId }).where(eq(schema.discoveryQueue.companyId, fromId));
+      await tx.update(schema.reports).set({ companyId: intoId }).where(eq(schema.reports.companyId, fromId));
+      await tx.update(schema.targetContacts).set({ companyId: intoId }).where(eq(schema.targetContacts.companyId, fromId));
+      await tx.update(schema.outreachStyles).set({ companyId: intoId }).where(eq(schema.outreachStyles.companyId, fromId));
+
+      const [from] = await tx.select().from(schema.companies).where(eq(schema.companies.id, fromId)).limit(1);
+      const aliases = await tx.select().from(schema.companyAliases).where(eq(schema.companyAliases.companyId, fromId));
+      const names = [
+        ...(from?.normalizedName ? [{ alias: from.name, normalizedAlias: from.normalizedName }] : []),
+        ...aliases.map(a => ({ alias: a.alias, normalizedAlias: a.normalizedAlias })),
+      ];
+      if (names.length > 0) {
+        await tx
+          .insert(schema.companyAliases)
+          .values(names.map(n => ({ ...n, companyId: intoId, source: "merge" })))
+          .onConflictDoNothing({ target: [schema.companyAliases.companyId, schema.companyAliases.normalizedAlias] });
+      }
+
+      await tx.delete(schema.companies).where(eq(schema.companies.id, fromId));
+      // The surviving company inherits the domain if it had none
+      const [into] = await tx.select().from(schema.companies).where(eq(schema.companies.id, intoId)).limit(1);
+      if (into && !into.domain && from?.domain) {
+        await tx.update(schema.companies)
+          .set({ domain: from.domain, websiteUrl: into.websiteUrl || from.websiteUrl, updatedAt: new Date() })
+          .where(eq(schema.companies.id, intoId));
+      }
+    });
+  }
+
+  // Rows created before the registry existed
+  async getUnlinkedCompanyRecords(limit: number = 500) {
+    const [queueItems, unlinkedReports, contacts] = await Promise.all([
+      db.select({ id: schema.discoveryQueue.id, name: schema.discoveryQueue.companyName, websiteUrl: schema.discoveryQueue.websiteUrl, reportId: schema.discoveryQueue.reportId })
+        .from(schema.discoveryQueue).where(isNull(schema.discoveryQueue.companyId)).limit(limit),
+      db.select({ id: schema.reports.id, name: schema.reports.companyName, websiteUrl: schema.reports.websiteUrl })
+        .from(schema.reports).where(isNull(schema.reports.companyId)).limit(limit),
+      db.select({ id: schema.targetContacts.id, name: schema.targetContacts.companyName, websiteUrl: schema.targetContacts.companyWebsite })
+        .from(schema.targetContacts).where(isNull(schema.targetContacts.companyId)).limit(limit),
+    ]);
+    return { queueItems, reports: unlinkedReports, contacts };
+  }
+
+  async linkCompanyRecord(table: "discoveryQueue" | "reports" | "targetContacts", id: number, companyId: number) {
+    const target = schema[table];
+    await db.update(target).set({ companyId }).where(eq(target.id, id));
+  }
+
+  // Outreach has no company name of its own; it inherits the company of its report
+  async linkOutreachToReportCompanies() {
+    const result = await db.execute(sql`
+      UPDATE outreach_styles o SET company_id = r.company_id
+      FROM reports r
+      WHERE o.report_id = r.id AND o.company_id IS NULL AND r.company_id IS NOT NULL
+    `);
+    return result.rowCount ?? 0;
+  }
+
   async createOutreach(data: any) {
     const result = await db
       .insert(schema.outreachStyles)
@@ -308,13 +718,188 @@ class Storage {
     return (result.rows as any[]).map(row => row.id);
   }
 
+  async recordApiUsage(data: any) {
+    await db.insert(schema.apiUsage).values(data);
+  }
+
+  // Research usage is recorded against the queue item until its report exists
+  async attachUsageToReport(queueId: number, reportId: number) {
+    await db
+      .update(schema.apiUsage)
+      .set({ reportId })
+      .where(and(eq(schema.apiUsage.queueId, queueId), isNull(schema.apiUsage.reportId)));
+  }
+
+  /**
+   * Usage grouped by provider, operation and model for one workflow, report or
+   * weekly scan, plus totals.
+   */
+  async getUsageBreakdown(filter: { workflowId?: number; reportId?: number; weeklyTrendId?: number }) {
+    const where = filter.workflowId !== undefined
+      ? eq(schema.apiUsage.workflowId, filter.workflowId)
+      : filter.reportId !== undefined
+        ? eq(schema.apiUsage.reportId, filter.reportId)
+        : eq(schema.apiUsage.weeklyTrendId, filter.weeklyTrendId!);
+
+    const rows = await db
+      .select({
+        provider: schema.apiUsage.provider,
+        operation: schema.apiUsage.operation,
+        model: schema.apiUsage.model,
+        calls: sql<number>`count(*)::int`,
+        cacheHits: sql<number>`count(*) filter (where ${schema.apiUsage.cacheHit})::int`,
+        requests: sql<number>`coalesce(sum(${schema.apiUsage.requests}), 0)::int`,
+        inputTokens: sql<number>`coalesce(sum(${schema.apiUsage.inputTokens}), 0)::int`,
+        outputTokens: sql<number>`coalesce(sum(${schema.apiUsage.outputTokens}), 0)::int`,
+        webSearches: sql<number>`coalesce(sum(${schema.apiUsage.webSearches}), 0)::int`,
+        costUsd: sql<number>`coalesce(sum(${schema.apiUsage.costUsd}), 0)::float`,
+      })
+      .from(schema.apiUsage)
+      .where(where)
+      .groupBy(schema.apiUsage.provider, schema.apiUsage.operation, schema.apiUsage.model)
+      .orderBy(desc(sql`sum(${schema.apiUsage.costUsd})`));
+
+    return { rows, totals: summarizeUsage(rows) };
+  }
+
+  async getWorkflowSpend(workflowId: number): Promise<number> {
+    const [row] = await db
+      .select({ costUsd: sql<number>`coalesce(sum(${schema.apiUsage.costUsd}), 0)::float` })
+      .from(schema.apiUsage)
+      .where(eq(schema.apiUsage.workflowId, workflowId));
+    return row?.costUsd || 0;
+  }
+
+  // Spend by every run of one config since a date (budget month-to-date)
+  async getConfigSpendSince(configId: number, since: Date): Promise<number> {
+    const [row] = await db
+      .select({ costUsd: sql<number>`coalesce(sum(${schema.apiUsage.costUsd}), 0)::float` })
+      .from(schema.apiUsage)
+      .innerJoin(schema.agentWorkflows, eq(schema.apiUsage.workflowId, schema.agentWorkflows.id))
+      .where(and(eq(schema.agentWorkflows.configId, configId), gte(schema.apiUsage.createdAt, since)));
+    return row?.costUsd || 0;
+  }
+
+  // Average recorded spend per report over the most recent researched reports (null if none yet)
+  async getAverageReportCost(sampleSize: number = 20): Promise<number | null> {
+    const rows = await db
+      .select({ costUsd: sql<number>`sum(${schema.apiUsage.costUsd})::float` })
+      .from(schema.apiUsage)
+      .where(sql`${schema.apiUsage.reportId} is not null`)
+      .groupBy(schema.apiUsage.reportId)
+      .orderBy(desc(sql`max(${schema.apiUsage.createdAt})`))
+      .limit(sampleSize);
+    if (rows.length === 0) return null;
+    return rows.reduce((sum, row) => sum + (row.costUsd || 0), 0) / rows.length;
+  }
+
+  /** Cost per calendar month and provider, newest month first. */
+  async getMonthlyUsage(months: number = 6) {
+    const since = new Date();
+    since.setUTCDate(1);
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCMonth(since.getUTCMonth() - (months - 1));
+
+    const month = sql<string>`to_char(date_trunc('month', ${schema.apiUsage.createdAt}), 'YYYY-MM')`;
+    const rows = await db
+      .select({
+        month,
+        provider: schema.apiUsage.provider,
+        calls: sql<number>`count(*)::int`,
+        cacheHits: sql<number>`count(*) filter (where ${schema.apiUsage.cacheHit})::int`,
+        requests: sql<number>`coalesce(sum(${schema.apiUsage.requests}), 0)::int`,
+        inputTokens: sql<number>`coalesce(sum(${schema.apiUsage.inputTokens}), 0)::int`,
+        outputTokens: sql<number>`coalesce(sum(${schema.apiUsage.outputTokens}), 0)::int`,
+        webSearches: sql<number>`coalesce(sum(${schema.apiUsage.webSearches}), 0)::int`,
+        costUsd: sql<number>`coalesce(sum(${schema.apiUsage.costUsd}), 0)::float`,
+      })
+      .from(schema.apiUsage)
+      .where(gte(schema.apiUsage.createdAt, since))
+      .groupBy(month, schema.apiUsage.provider)
+      .orderBy(desc(month), schema.apiUsage.provider);
+
+    const byMonth = new Map<string, { month: string; providers: typeof rows; totals: ReturnType<typeof summarizeUsage> }>();
+    for (const row of rows) {
+      if (!byMonth.has(row.month)) byMonth.set(row.month, { month: row.month, providers: [], totals: summarizeUsage([]) });
+      byMonth.get(row.month)!.providers.push(row);
+    }
+    for (const entry of byMonth.values()) entry.totals = summarizeUsage(entry.providers);
+    return Array.from(byMonth.values());
+  }
+
+  // Returns undefined when an alert with the same dedupe key already exists
+  async createAlert(data: any) {
+    const result = await db
+      .insert(schema.alerts)
+      .values(data)
+      .onConflictDoNothing({ target: schema.alerts.dedupeKey })
+      .returning();
+    return result[0];
+  }
+
+  async hasAlert(dedupeKey: string) {
+    const result = await db
+      .select({ id: schema.alerts.id })
+      .from(schema.alerts)
+      .where(eq(schema.alerts.dedupeKey, dedupeKey))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async getAlerts(includeAcknowledged: boolean = false) {
+    const result = await db
+      .select()
+      .from(schema.alerts)
+      .where(includeAcknowledged ? undefined : isNull(schema.alerts.acknowledgedAt))
+      .orderBy(desc(schema.alerts.createdAt))
+      .limit(100);
+    return result;
+  }
+
+  async acknowledgeAlert(id: number) {
+    const result = await db
+      .update(schema.alerts)
+      .set({ acknowledgedAt: new Date() })
+      .where(eq(schema.alerts.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Global entries plus, when a config is given, that config's own
+  async getExclusionEntries(configId: number | null = null) {
+    const result = await db
+      .select()
+      .from(schema.exclusionEntries)
+      .where(configId === null
+        ? isNull(schema.exclusionEntries.configId)
+        : or(isNull(schema.exclusionEntries.configId), eq(schema.exclusionEntries.configId, configId)))
+      .orderBy(schema.exclusionEntries.list, schema.exclusionEntries.value);
+    return result;
+  }
+
+  async createExclusionEntries(entries: any[]) {
+    if (entries.length === 0) return [];
+    return db.insert(schema.exclusionEntries).values(entries).returning();
+  }
+
+  async deleteExclusionEntry(id: number) {
+    const result = await db
+      .delete(schema.exclusionEntries)
+      .where(eq(schema.exclusionEntries.id, id))
+      .returning();
+    return result[0];
+  }
+
   async clearAllData() {
-    // Delete in FK order: outreach → discovery_queue → reports → workflows
+    // Delete in FK order: jobs → outreach → discovery_queue → sections/versions → reports → workflows
+    await db.delete(schema.workflowJobs);
     await db.delete(schema.outreachStyles);
     await db.delete(schema.discoveryQueue);
+    await db.delete(schema.reportSections);
+    await db.delete(schema.reportVersions);
     await db.delete(schema.reports);
     await db.delete(schema.agentWorkflows);
-    console.log("[Storage] All search data cleared (outreach, discovery_queue, reports, workflows)");
+    console.log("[Storage] All search data cleared (jobs, outreach, discovery_queue, reports, workflows)");
   }
 }
 
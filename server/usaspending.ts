@@ -1,3 +1,5 @@
+import { httpClient } from "./http-client";
+
 interface FederalContract {
   contractId: string;
   awardAmount: number;
@@ -106,7 +108,7 @@ export class USASpendingService {
         order: 'desc',
       };
 
-      const response = await fetch(`${this.baseUrl}/search/spending_by_award/`, {
+      const response = await httpClient.fetch("usaspending", `${this.baseUrl}/search/spending_by_award/`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -159,7 +161,7 @@ export class USASpendingService {
         limit: 50,
       };
 
-      const response = await fetch(`${this.baseUrl}/search/spending_by_award/`, {
+      const response = await httpClient.fetch("usaspending", `${this.baseUrl}/search/spending_by_award/`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
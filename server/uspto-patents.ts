@@ -10,6 +10,9 @@
  * Provides patent intelligence for M&A analysis
  */
 
+import { httpClient } from "./http-client";
+import { llm } from "./llm-gateway";
+
 interface Patent {
   patentNumber: string;
   title: string;
@@ -89,7 +92,7 @@ export class USPTOPatentService {
     try {
       const searchUrl = `${this.baseUrl}/patents/query?q={"_and":[{"assignee_organization":"${encodeURIComponent(companyName)}"}]}&f=["patent_number","patent_title","patent_date","app_date","patent_abstract","inventor_first_name","inventor_last_name","assignee_organization","cited_patent_count"]&o={"per_page":100}`;
 
-      const response = await fetch(searchUrl);
+      const response = await httpClient.fetch("uspto", searchUrl);
       if (!response.ok) {
         console.error('USPTO API error:', response.statusText);
         return [];
@@ -411,7 +414,7 @@ export async function evaluatePatentUpside(companyName: string): Promise<boolean
     // Search USPTO for patents
     const searchUrl = `https://api.patentsview.org/patents/query?q={"_and":[{"assignee_organization":"${encodeURIComponent(companyName)}"}]}&f=["patent_number","patent_title","patent_date","patent_abstract"]&o={"per_page":10}`;
     
-    const response = await fetch(searchUrl);
+    const response = await httpClient.fetch("uspto", searchUrl);
     if (!response.ok) return false;
     
     const data = await response.json();
@@ -424,11 +427,6 @@ export async function evaluatePatentUpside(companyName: string): Promise<boolean
     }
 
     // Use Claude to evaluate patent quality
-    const Anthropic = (await import("@anthropic-ai/sdk")).default;
-    const anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-
     const patentSummary = patents.slice(0, 5).map((p: any) => 
       `- ${p.patent_title} (${p.patent_date}): ${(p.patent_abstract || '').substring(0, 200)}`
     ).join('\n');
@@ -453,14 +451,9 @@ Respond ONLY with JSON:
   "reasoning": "<2-3 sentence explanation>"
 }`;
 
-    const result = await anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 200,
-      messages: [{ role: "user", content: prompt }],
-    });
+    const result = await llm.complete("patent_evaluation", prompt, { label: `Patent evaluation for ${companyName}` });
 
-    const text = result.content[0].type === "text" ? result.content[0].text : "{}";
-    const clean = text.replace(/```json|```/g, "").trim();
+    const clean = (result.text || "{}").replace(/```json|```/g, "").trim();
     const evaluation = JSON.parse(clean);
 
     console.log(`[Agent] IP Upside for ${companyName}: ${evaluation.hasSignificantIPUpside} - ${evaluation.reasoning}`);
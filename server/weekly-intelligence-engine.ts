@@ -1,43 +1,12 @@
-import Anthropic from "@anthropic-ai/sdk";
 import { db } from "../drizzle/schema";
 import * as schema from "../drizzle/schema";
 import { eq } from "drizzle-orm";
-import { cachedExaSearch } from "./exa-cache";
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  label: string,
-  maxRetries = 3,
-  baseDelayMs = 1000
-): Promise<T> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      const isRetryable =
-        error?.status === 429 ||
-        error?.status === 502 ||
-        error?.status === 503 ||
-        error?.message?.includes('ECONNRESET') ||
-        error?.message?.includes('ETIMEDOUT') ||
-        error?.message?.includes('overloaded');
-
-      if (!isRetryable || attempt === maxRetries) {
-        console.error(`[WI Retry] ${label} failed after ${attempt} attempt(s):`, error?.message || error);
-        throw error;
-      }
-
-      const delay = baseDelayMs * Math.pow(2, attempt - 1);
-      console.warn(`[WI Retry] ${label} attempt ${attempt} failed (${error?.status || error?.message}), retrying in ${delay}ms...`);
-      await new Promise(r => setTimeout(r, delay));
-    }
-  }
-  throw new Error(`${label} failed after ${maxRetries} retries`);
-}
+import { cachedSearch } from "./exa-cache";
+import { companyRegistry } from "./company-registry";
+import { costTracker } from "./cost-tracker";
+import { httpClient } from "./http-client";
+import { llm } from "./llm-gateway";
+import { parseEmployeeEstimate, parseRevenueEstimate, revenueFromHeadcount } from "./financial-estimates";
 
 function getMonday(date: Date): Date {
   const d = new Date(date);
@@ -122,18 +91,6 @@ function isValidContactEmail(email: string | null, companyWebsite: string | null
   return false;
 }
 
-/**
- * Estimate revenue range from employee count.
- * Rough heuristic: ~$200K revenue per employee for mid-market services/manufacturing.
- */
-function estimateRevenueFromEmployees(employeeCount: number | null): string | null {
-  if (!employeeCount) return null;
-  if (employeeCount <= 100) return '$10M-$25M';
-  if (employeeCount <= 250) return '$25M-$50M';
-  if (employeeCount <= 500) return '$50M-$75M';
-  return '$75M-$100M';
-}
-
 export class WeeklyIntelligenceEngine {
   async runWeeklyScan(): Promise<number> {
     const monday = getMonday(new Date());
@@ -168,6 +125,11 @@ export class WeeklyIntelligenceEngine {
       console.log(`[WI] Created trend record ID: ${trendId}`);
     }
 
+    return costTracker.run({ weeklyTrendId: trendId }, () => this.runScanSteps(trendId));
+  }
+
+  // The five scan steps; API usage inside is charged to the weekly_trends row
+  private async runScanSteps(trendId: number): Promise<number> {
     try {
       // Step 1: Scan M&A News
       console.log(`[WI] Step 1/5: Scanning M&A news...`);
@@ -272,21 +234,18 @@ export class WeeklyIntelligenceEngine {
 
     for (const query of queries) {
       try {
-        const data = await withRetry(
-          () => cachedExaSearch({
-            query,
-            numResults: 10,
-            type: 'neural',
-            useAutoprompt: true,
-            contents: {
-              text: { maxCharacters: 1000 },
-            },
-          }, {
-            cacheType: 'market_intelligence',
-            ttlDays: 7  // Market news expires faster
-          }),
-          `Exa search: ${query.substring(0, 40)}...`
-        );
+        const data = await cachedSearch({
+          query,
+          numResults: 10,
+          type: 'neural',
+          useAutoprompt: true,
+          contents: {
+            text: { maxCharacters: 1000 },
+          },
+        }, {
+          cacheType: 'market_intelligence',
+          ttlDays: 7  // Market news expires faster
+        });
 
         if (data.results) {
           allResults.push(...data.results);
@@ -346,18 +305,9 @@ Return ONLY valid JSON with this exact structure:
   ]
 }`;
 
-    const response = await withRetry(() => anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 4000,
-      messages: [{ role: "user", content: prompt }],
-    }), 'Claude hot sector analysis');
-
-    let jsonText = "";
-    for (const block of response.content) {
-      if (block.type === "text") jsonText += block.text;
-    }
+    const response = await llm.complete("sector_analysis", prompt, { label: 'Claude hot sector analysis' });
 
-    jsonText = jsonText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+    const jsonText = response.text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
     const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
       console.error("[WI] Could not parse hot sectors JSON from Claude");
@@ -432,7 +382,7 @@ Return ONLY valid JSON with this exact structure:
 
     for (const queryParams of apolloQueries) {
       try {
-        const apolloResponse = await fetch('https://api.apollo.io/v1/mixed_people/search', {
+        const apolloResponse = await httpClient.fetch("apollo", 'https://api.apollo.io/v1/mixed_people/search', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -446,6 +396,7 @@ Return ONLY valid JSON with this exact structure:
         });
 
         if (apolloResponse.ok) {
+          await costTracker.record({ provider: "apollo", operation: "people_search" });
           const apolloData = await apolloResponse.json();
           const people = apolloData.people || [];
           console.log(`[WI]     Apollo query returned ${people.length} people`);
@@ -493,31 +444,39 @@ Return ONLY valid JSON with this exact structure:
 
     console.log(`[WI]   Apollo discovered ${contactsMap.size} unique email-verified contacts`);
 
-    // Save to DB — only contacts with verified emails
+    // Save to DB — only contacts with verified emails, one per canonical company per sector
     let saved = 0;
     const existingContacts = await db
-      .select({ companyName: schema.targetContacts.companyName })
+      .select({ companyId: schema.targetContacts.companyId })
       .from(schema.targetContacts)
       .where(eq(schema.targetContacts.sectorId, sectorId));
-    const existingNames = new Set(existingContacts.map(c => c.companyName?.toLowerCase().replace(/[^a-z0-9]/g, '')));
-
-    for (const [key, contact] of contactsMap) {
-      if (existingNames.has(key)) continue;
-      existingNames.add(key);
+    const existingCompanyIds = new Set(existingContacts.map(c => c.companyId).filter(Boolean));
 
+    for (const [, contact] of contactsMap) {
       const websiteUrl = contact.companyDomain
         ? (contact.companyDomain.startsWith('http') ? contact.companyDomain : `https://${contact.companyDomain}`)
         : null;
 
+      const revenueEstimate = revenueFromHeadcount(contact.employeeCount);
       try {
+        const company = await companyRegistry.resolve(
+          { name: contact.companyName, websiteUrl, revenue: revenueEstimate?.text },
+          "weekly_intelligence"
+        );
+        if (existingCompanyIds.has(company.id)) continue;
+        existingCompanyIds.add(company.id);
+
         await db.insert(schema.targetContacts).values({
           sectorId,
+          companyId: company.id,
           companyName: contact.companyName,
           companyWebsite: websiteUrl,
           contactName: contact.name,
           contactEmail: contact.email,
           contactPhone: contact.phone,
-          estimatedRevenue: estimateRevenueFromEmployees(contact.employeeCount),
+          estimatedRevenue: revenueEstimate?.text ?? null,
+          revenueEstimate,
+          employeeEstimate: parseEmployeeEstimate(contact.employeeCount, { source: "apollo_headcount", confidence: "Medium" }),
           ownershipType: 'Unknown',
           enrichmentStatus: 'enriched',
         });
@@ -584,18 +543,11 @@ Return ONLY valid JSON:
 }`;
 
       try {
-        const response = await withRetry(() => anthropic.messages.create({
-          model: "claude-haiku-4-5-20251001",
-          max_tokens: 2000,
-          messages: [{ role: "user", content: prompt }],
-        }), `Claude PE classification batch ${Math.floor(i / BATCH_SIZE) + 1}`);
-
-        let jsonText = "";
-        for (const block of response.content) {
-          if (block.type === "text") jsonText += block.text;
-        }
+        const response = await llm.complete("ownership_classification", prompt, {
+          label: `Claude PE classification batch ${Math.floor(i / BATCH_SIZE) + 1}`,
+        });
 
-        jsonText = jsonText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+        const jsonText = response.text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
         const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
           const data = JSON.parse(jsonMatch[0]);
@@ -614,6 +566,7 @@ Return ONLY valid JSON:
               };
               if (!contact.estimatedRevenue && cls.estimatedRevenue && cls.estimatedRevenue !== "Unknown") {
                 updateData.estimatedRevenue = cls.estimatedRevenue;
+                updateData.revenueEstimate = parseRevenueEstimate(cls.estimatedRevenue, { source: "claude", confidence: "Low" });
               }
 
               await db
@@ -695,7 +648,7 @@ Return ONLY valid JSON:
       .select()
       .from(schema.targetContacts)
       .where(eq(schema.targetContacts.sectorId, sector.dbId));
-    const existingKeys = new Set(existing.map(c => c.companyName?.toLowerCase().replace(/[^a-z0-9]/g, '')));
+    const existingCompanyIds = new Set(existing.map(c => c.companyId).filter(Boolean));
 
     let added = 0;
     const apolloApiKey = process.env.APOLLO_API_KEY;
@@ -703,8 +656,9 @@ Return ONLY valid JSON:
     for (const company of companies) {
       if (added >= targetCount) break;
 
-      const key = company.title.toLowerCase().replace(/[^a-z0-9]/g, '');
-      if (existingKeys.has(key)) continue;
+      // Resolve before spending Apollo/Exa calls on a company this sector already has
+      const canonical = await companyRegistry.resolve({ name: company.title, websiteUrl: company.url }, "weekly_intelligence");
+      if (existingCompanyIds.has(canonical.id)) continue;
 
       let contactName: string | null = null;
       let contactEmail: string | null = null;
@@ -714,7 +668,7 @@ Return ONLY valid JSON:
       if (apolloApiKey) {
         try {
           const domain = extractDomain(company.url);
-          const apolloResponse = await fetch('https://api.apollo.io/v1/mixed_people/search', {
+          const apolloResponse = await httpClient.fetch("apollo", 'https://api.apollo.io/v1/mixed_people/search', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -731,6 +685,7 @@ Return ONLY valid JSON:
           });
 
           if (apolloResponse.ok) {
+            await costTracker.record({ provider: "apollo", operation: "people_search" });
             const apolloData = await apolloResponse.json();
             const person = apolloData.people?.[0];
             if (person?.email && person?.name) {
@@ -764,6 +719,7 @@ Return ONLY valid JSON:
         try {
           await db.insert(schema.targetContacts).values({
             sectorId: sector.dbId,
+            companyId: canonical.id,
             companyName: company.title,
             companyWebsite: company.url,
             contactName,
@@ -773,7 +729,7 @@ Return ONLY valid JSON:
             estimatedRevenue: null,
             enrichmentStatus: 'enriched',
           });
-          existingKeys.add(key);
+          existingCompanyIds.add(canonical.id);
           added++;
           console.log(`[WI]     Exa supplement: added ${company.title} (${contactEmail})`);
         } catch {
@@ -793,21 +749,18 @@ Return ONLY valid JSON:
     const query = `${sector.searchQuery} $10M-$100M revenue founder-led family-owned independent NOT private equity NOT PE-backed`;
 
     try {
-      const data = await withRetry(
-        () => cachedExaSearch({
-          query,
-          numResults: 15,
-          type: 'neural',
-          useAutoprompt: true,
-          contents: {
-            text: { maxCharacters: 800 },
-          },
-        }, {
-          cacheType: 'company_discovery',
-          ttlDays: 30
-        }),
-        `Exa company discovery for ${sector.name}`
-      );
+      const data = await cachedSearch({
+        query,
+        numResults: 15,
+        type: 'neural',
+        useAutoprompt: true,
+        contents: {
+          text: { maxCharacters: 800 },
+        },
+      }, {
+        cacheType: 'company_discovery',
+        ttlDays: 30
+      });
 
       if (!data.results || data.results.length === 0) return [];
 
@@ -874,18 +827,9 @@ Return ONLY valid JSON:
 }`;
 
     try {
-      const response = await withRetry(() => anthropic.messages.create({
-        model: "claude-haiku-4-5-20251001",
-        max_tokens: 2000,
-        messages: [{ role: "user", content: prompt }],
-      }), 'Claude company name extraction');
-
-      let jsonText = "";
-      for (const block of response.content) {
-        if (block.type === "text") jsonText += block.text;
-      }
+      const response = await llm.complete("name_extraction", prompt, { label: 'Claude company name extraction' });
 
-      jsonText = jsonText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+      const jsonText = response.text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
       const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
         const data = JSON.parse(jsonMatch[0]);
@@ -920,22 +864,19 @@ Return ONLY valid JSON:
     // Strategy 1: Search the company's own website for contact/about/team pages
     if (domain) {
       try {
-        const siteData = await withRetry(
-          () => cachedExaSearch({
-            query: `${companyName} contact team about leadership`,
-            numResults: 3,
-            type: 'neural',
-            useAutoprompt: false,
-            includeDomains: [domain],
-            contents: {
-              text: { maxCharacters: 2000 },
-            },
-          }, {
-            cacheType: 'contact_enrichment',
-            ttlDays: 60
-          }),
-          `Exa site scrape for ${companyName}`
-        );
+        const siteData = await cachedSearch({
+          query: `${companyName} contact team about leadership`,
+          numResults: 3,
+          type: 'neural',
+          useAutoprompt: false,
+          includeDomains: [domain],
+          contents: {
+            text: { maxCharacters: 2000 },
+          },
+        }, {
+          cacheType: 'contact_enrichment',
+          ttlDays: 60
+        });
 
         if (siteData) {
           if (siteData.results?.length > 0) {
@@ -965,21 +906,18 @@ Return ONLY valid JSON:
     // Strategy 2: Search the web for published emails at this domain
     if (!foundEmail && domain) {
       try {
-        const emailData = await withRetry(
-          () => cachedExaSearch({
-            query: `"@${domain}" CEO OR founder OR owner OR president`,
-            numResults: 3,
-            type: 'neural',
-            useAutoprompt: false,
-            contents: {
-              text: { maxCharacters: 1500 },
-            },
-          }, {
-            cacheType: 'contact_enrichment',
-            ttlDays: 60
-          }),
-          `Exa email search for @${domain}`
-        );
+        const emailData = await cachedSearch({
+          query: `"@${domain}" CEO OR founder OR owner OR president`,
+          numResults: 3,
+          type: 'neural',
+          useAutoprompt: false,
+          contents: {
+            text: { maxCharacters: 1500 },
+          },
+        }, {
+          cacheType: 'contact_enrichment',
+          ttlDays: 60
+        });
 
         if (emailData) {
           if (emailData.results?.length > 0) {
@@ -1008,21 +946,18 @@ Return ONLY valid JSON:
     // Strategy 3: Search for leadership info (always run for name discovery)
     try {
       const query = `"${companyName}" CEO OR founder OR owner OR president leadership team`;
-      const data = await withRetry(
-        () => cachedExaSearch({
-          query,
-          numResults: 3,
-          type: 'neural',
-          useAutoprompt: false,
-          contents: {
-            text: { maxCharacters: 1500 },
-          },
-        }, {
-          cacheType: 'contact_enrichment',
-          ttlDays: 60
-        }),
-        `Exa leadership search for ${companyName}`
-      );
+      const data = await cachedSearch({
+        query,
+        numResults: 3,
+        type: 'neural',
+        useAutoprompt: false,
+        contents: {
+          text: { maxCharacters: 1500 },
+        },
+      }, {
+        cacheType: 'contact_enrichment',
+        ttlDays: 60
+      });
 
       if (data) {
         if (data.results?.length > 0) {
@@ -1058,18 +993,11 @@ IMPORTANT:
 - If you find multiple people, prefer the CEO or founder.
 - If the email you found belongs to someone other than the CEO/founder, put their name in emailOwnerName.`;
 
-    const claudeResponse = await withRetry(() => anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 500,
-      messages: [{ role: "user", content: prompt }],
-    }), `Claude contact extraction for ${companyName}`);
-
-    let jsonText = "";
-    for (const block of claudeResponse.content) {
-      if (block.type === "text") jsonText += block.text;
-    }
+    const claudeResponse = await llm.complete("contact_extraction", prompt, {
+      label: `Claude contact extraction for ${companyName}`,
+    });
 
-    jsonText = jsonText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+    const jsonText = claudeResponse.text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
     const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
     if (!jsonMatch) return null;
 
@@ -1167,18 +1095,9 @@ The content field must be clean HTML wrapped in a styled container div. Example
   <p>Professional paragraph text...</p>
 </div>`;
 
-    const response = await withRetry(() => anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 4000,
-      messages: [{ role: "user", content: prompt }],
-    }), `Claude newsletter for ${sector.name}`);
-
-    let jsonText = "";
-    for (const block of response.content) {
-      if (block.type === "text") jsonText += block.text;
-    }
+    const response = await llm.complete("newsletter", prompt, { label: `Claude newsletter for ${sector.name}` });
 
-    jsonText = jsonText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+    const jsonText = response.text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
     const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
 
     let subject = `${sector.name} — Weekly M&A Intelligence`;
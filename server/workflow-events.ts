@@ -0,0 +1,90 @@
+import { EventEmitter } from "events";
+
+export type WorkflowEventType =
+  | "status"          // Workflow started, paused, resumed, cancelled, completed or failed
+  | "step"            // Workflow moved to a new step (discover, score, research, ...)
+  | "query"           // One discovery query finished (results per query variant)
+  | "excluded"        // Search results dropped by exclusion lists
+  | "discovered"      // Company found by search
+  | "name_cleaned"    // Page title replaced with the real company name
+  | "scored"
+  | "approved"
+  | "review"
+  | "rejected"
+  | "research_step"   // One stage of the research pipeline (Claude, patents, FDA, Apollo)
+  | "saved"           // Report written to the library
+  | "budget"          // Run reached a budget cap; remaining companies go to review
+  | "failed";
+
+export interface WorkflowEvent {
+  id: number;
+  workflowId: number;
+  type: WorkflowEventType;
+  message: string;
+  companyName?: string;
+  queueId?: number;
+  data?: Record<string, any>;
+  at: string;
+}
+
+// Recent events kept per workflow so a client connecting mid-run sees what already happened
+const BACKLOG_SIZE = 200;
+const MAX_TRACKED_WORKFLOWS = 50;
+
+class WorkflowEventBus {
+  private emitter = new EventEmitter();
+  private backlog = new Map<number, WorkflowEvent[]>();
+  // Seeded from the start time (ms × 1000) so ids keep increasing across restarts:
+  // a Last-Event-ID from before a deploy never hides new events or collides with them
+  private nextId = Date.now() * 1000;
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  emit(
+    workflowId: number | null | undefined,
+    type: WorkflowEventType,
+    message: string,
+    extra: Pick<WorkflowEvent, "companyName" | "queueId" | "data"> = {}
+  ) {
+    if (!workflowId) return;
+
+    const event: WorkflowEvent = {
+      id: this.nextId++,
+      workflowId,
+      type,
+      message,
+      ...extra,
+      at: new Date().toISOString(),
+    };
+
+    let events = this.backlog.get(workflowId);
+    if (!events) {
+      events = [];
+      this.backlog.set(workflowId, events);
+      // Forget the oldest workflow once we're tracking too many
+      if (this.backlog.size > MAX_TRACKED_WORKFLOWS) {
+        const oldest = this.backlog.keys().next().value;
+        if (oldest !== undefined) this.backlog.delete(oldest);
+      }
+    }
+    events.push(event);
+    if (events.length > BACKLOG_SIZE) events.shift();
+
+    this.emitter.emit(`workflow:${workflowId}`, event);
+  }
+
+  getRecent(workflowId: number): WorkflowEvent[] {
+    return this.backlog.get(workflowId) || [];
+  }
+
+  subscribe(workflowId: number, listener: (event: WorkflowEvent) => void): () => void {
+    const channel = `workflow:${workflowId}`;
+    this.emitter.on(channel, listener);
+    return () => this.emitter.off(channel, listener);
+  }
+}
+
+export const workflowEvents = new WorkflowEventBus();